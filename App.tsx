@@ -11,28 +11,158 @@ import {
   X,
   Image as ImageIcon,
   Loader2,
-  Fingerprint
+  Fingerprint,
+  History,
+  PenSquare,
+  Undo2,
+  Redo2,
+  Trash2,
+  UserCheck,
+  XCircle,
+  Grid3x3,
+  Wrench,
+  ArrowLeftRight,
+  Camera,
+  Database,
+  RefreshCw,
+  Layers,
+  Aperture,
+  AlertTriangle,
+  Clock,
+  MapPin
 } from 'lucide-react';
-import { analyzeImage, zoomAnalysis } from './services/geminiService';
-import { DamageDetection, InspectionImage } from './types';
+import { getDetectorProvider } from './services/detectorProvider';
+import { saveSession, loadSession } from './services/sessionStore';
+import { createInspectionMeta, formatVehicleLabel, isInspectionLocked, withStatus } from './services/inspection';
+import { downloadInspectionJson } from './services/inspectionExport';
+import { cropDetection, decodeImage } from './services/imageCrop';
+import { ZoomBatcher } from './services/zoomBatch';
+import { applyZoomVerdict, describeVerdictChanges, isRejectedByVerdict, VERDICT_LABELS } from './services/zoomVerdict';
+import { generateReport, ReportFormat } from './services/reportExport';
+import { analyzeImageTiled, STANDARD_MAX_SIZE, TiledParseResult } from './services/tiling';
+import {
+  assessDetection,
+  formatMoney,
+  imageAspect,
+  loadPriceTable,
+  savePriceTable,
+  summarizeImageEstimate,
+  summarizeInspectionEstimate
+} from './services/repairEstimate';
+import {
+  AnnotationHistory,
+  applyHumanEdit,
+  createHumanDetection,
+  detectionOrigin,
+  emptyHistory,
+  isHumanVerified,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from './services/annotation';
+import { CAR_PANELS, DAMAGE_TYPES, SEVERITIES, createDetectionId } from './services/detectionSchema';
+import {
+  INSPECTOR_INDICATED_LABEL,
+  applyFingertipVerdict,
+  cropFingertip,
+  excludeFingerRegion,
+  isPointing
+} from './services/fingerFocus';
+import { isAbortError, JOB_PRIORITY, JobOptions } from './services/rateLimit';
+import { ANALYSIS_ERROR_LABELS, QuotaExhaustedError, toAnalysisError } from './services/analysisErrors';
+import { formatResetIn } from './services/quotaBudget';
+import HistoryScreen from './components/HistoryScreen';
+import AnnotationEditor from './components/AnnotationEditor';
+import ImageViewer, { ViewerFocusRequest } from './components/ImageViewer';
+import InspectionDetails from './components/InspectionDetails';
+import HighDetailApproval from './components/HighDetailApproval';
+import PriceTableEditor from './components/PriceTableEditor';
+import ComparisonScreen from './components/ComparisonScreen';
+import CameraCapture from './components/CameraCapture';
+import QueueStatus from './components/QueueStatus';
+import QuotaMeter from './components/QuotaMeter';
+import FailureNotice from './components/FailureNotice';
+import QualityGate from './components/QualityGate';
+import {
+  CAPTURE_TIME_FLAG_LABELS,
+  cameraMetadata,
+  captureTimeFlag,
+  deviceLabel,
+  formatGps,
+  ingestUpload,
+  mapLink
+} from './services/exif';
+import {
+  QUALITY_GATE_LEVELS,
+  QualityGateLevel,
+  assessPhotoQuality,
+  loadQualityGateLevel,
+  saveQualityGateLevel
+} from './services/photoQuality';
+import { estimateRemainingCost } from './services/quotaBudget';
+import {
+  AnalysisCacheContext,
+  fingerprintImage,
+  fromCachedAnalysis,
+  lookupCachedAnalysis,
+  saveCachedAnalysis,
+  toCachedAnalysis
+} from './services/analysisCache';
+import { PROMPT_VERSION } from './services/prompts';
+import { modelProvenance } from './services/modelChain';
+import {
+  MULTI_ANGLE_RELATION_LABELS,
+  crossCheckReflections,
+  multiAngleSummary,
+  withoutMultiAngle
+} from './services/reflectionCheck';
+import { loadShotList, resetShotList, saveShotList, shotImageName, toShotContext } from './services/shotList';
+import DetectionEstimate from './components/DetectionEstimate';
+import VehicleDiagram from './components/VehicleDiagram';
+import { CAR_PANEL_LABELS, countDamageByPanel, imageHasPanel, panelLabel } from './services/carPanels';
+import {
+  CarPanel,
+  DamageDetection,
+  DamageType,
+  FingertipLocation,
+  InspectionImage,
+  InspectionMeta,
+  InspectionStatus,
+  RepairPriceTable,
+  Severity,
+  ShotAngle,
+  ShotContext,
+  VerdictOutcome
+} from './types';
 
 const MAX_IMAGES = 20;
 
+const detector = getDetectorProvider();
+// ✅ zoom verification รวมหลาย crop (ข้าม detection/รูป) ต่อ 1 request
+const zoomBatcher = new ZoomBatcher(detector);
+
+const AUTOSAVE_DELAY_MS = 800;
+
+const VERDICT_BADGE: Record<VerdictOutcome, string> = {
+  confirmed: 'bg-red-500/10 border-red-500/40 text-red-300',
+  rejected: 'bg-slate-700/40 border-slate-600 text-slate-300',
+  uncertain: 'bg-yellow-500/10 border-yellow-500/40 text-yellow-300'
+};
+const LAST_SESSION_KEY = 'inspector-pro:lastSessionId';
+const HIGH_DETAIL_KEY = 'inspector-pro:highDetail';
+
 // ✅ ปิด retry ใน App (ให้ service เป็นคนคุม retry/throttle แทน)
 const MAX_RETRIES = 0;
 const RETRY_BASE_DELAY_MS = 1200; // (ไม่ถูกใช้แล้ว แต่คงไว้ไม่กระทบ)
+// quota หมด: resume คิวหลังเวลา reset เผื่อนาฬิกาคลาดนิดหน่อย
+const QUOTA_RESUME_SLACK_MS = 5000;
 
 async function downscaleDataUrl(dataUrl: string, maxSize = 1280, quality = 0.78): Promise<string> {
-  const img = new Image();
-  img.src = dataUrl;
+  // รูปเสีย → ImageDecodeError (ไม่ส่งภาพเปล่าไปวิเคราะห์)
+  const img = await decodeImage(dataUrl);
 
-  await new Promise<void>((resolve) => {
-    img.onload = () => resolve();
-    img.onerror = () => resolve();
-  });
-
-  const w = img.naturalWidth || 1;
-  const h = img.naturalHeight || 1;
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
   const scale = Math.min(1, maxSize / Math.max(w, h));
   const nw = Math.max(1, Math.round(w * scale));
   const nh = Math.max(1, Math.round(h * scale));
@@ -51,9 +181,33 @@ async function downscaleDataUrl(dataUrl: string, maxSize = 1280, quality = 0.78)
 export default function App() {
   const [images, setImages] = useState<InspectionImage[]>([]);
   const [activeIndex, setActiveIndex] = useState<number>(0);
-  const [zoomingId, setZoomingId] = useState<string | null>(null);
-
-  const imageRef = useRef<HTMLImageElement>(null);
+  const [zoomingIds, setZoomingIds] = useState<string[]>([]); // detection ที่รอ verdict (อยู่ใน batch เดียวกันได้)
+  const [fingertipScanId, setFingertipScanId] = useState<string | null>(null); // image id ที่กำลัง zoom รอบปลายนิ้ว
+  const [inspection, setInspection] = useState<InspectionMeta>(createInspectionMeta);
+  const [view, setView] = useState<'inspect' | 'history' | 'pricing' | 'compare'>('inspect');
+  const [reportBusy, setReportBusy] = useState(false);
+  const [editMode, setEditMode] = useState(false);
+  const [selectedDetectionId, setSelectedDetectionId] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<ViewerFocusRequest | null>(null);
+  // undo/redo แยกต่อรูป (key = image id)
+  const [histories, setHistories] = useState<Record<string, AnnotationHistory>>({});
+  // high detail: เก็บรูปต้นฉบับไว้ (มีผลกับรูปที่ upload หลังเปิด)
+  const [highDetailMode, setHighDetailMode] = useState(() => localStorage.getItem(HIGH_DETAIL_KEY) === '1');
+  // คลิก panel บน diagram → filter gallery + findings
+  const [panelFilter, setPanelFilter] = useState<CarPanel | null>(null);
+  const [priceTable, setPriceTable] = useState<RepairPriceTable>(loadPriceTable);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [cameraShotId, setCameraShotId] = useState<string | undefined>(undefined); // retake: เปิดกล้องที่มุมเดิม
+  const [qualityGateLevel, setQualityGateLevel] = useState<QualityGateLevel>(loadQualityGateLevel);
+  const [shotList, setShotList] = useState<ShotAngle[]>(loadShotList);
+  const [tileProgress, setTileProgress] = useState<Record<string, { done: number; total: number }>>({});
+  const [quotaPause, setQuotaPause] = useState<{ resetAt: number; message: string } | null>(null); // คิวหยุดรอ quota reset
+
+  // เปลี่ยนรูปที่อ่านไม่ได้/โดน filter (รูปจาก upload ไม่มีมุมกล้องให้เปิด)
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  // ✅ session ที่เคย save แล้ว (ลบรูปหมด ก็ยังต้อง save ทับ)
+  const persistedRef = useRef<Set<string>>(new Set());
 
   // ✅ Track retries per image (คงไว้ไม่กระทบ type)
   const retryRef = useRef<Record<string, number>>({});
@@ -61,8 +215,91 @@ export default function App() {
   // ✅ cache รูปสำหรับ zoom (กันโหลดซ้ำหลาย detection)
   const imgCacheRef = useRef<Record<string, HTMLImageElement>>({});
 
+  // ✅ 1 AbortController ต่อรูป: ลบรูป/re-scan/เปลี่ยน session → request ที่ค้างในคิวไม่ยิง
+  const abortRef = useRef<Record<string, AbortController>>({});
+  // รูปที่ผู้ใช้สั่ง re-scan (แซงคิว) + รูปที่เปิดดูอยู่ (อ่านตอนคิวเลือกงานถัดไป)
+  const rescanRef = useRef<Set<string>>(new Set());
+  const activeIdRef = useRef<string | null>(null);
+
+  // ✅ รูปที่วิเคราะห์ (รวม zoom) เสร็จแล้ว รอเก็บลง analysis cache → effect อ่านจาก state ที่ commit แล้ว
+  const cacheSaveRef = useRef<Record<string, { fingerprint: string; context: AnalysisCacheContext }>>({});
+  const [cacheSaveTick, setCacheSaveTick] = useState(0);
+
   const currentImage = images[activeIndex] || null;
 
+  useEffect(() => {
+    activeIdRef.current = currentImage?.id ?? null;
+  }, [currentImage?.id]);
+
+  useEffect(() => {
+    for (const id of Object.keys(cacheSaveRef.current)) {
+      const { fingerprint, context } = cacheSaveRef.current[id];
+      delete cacheSaveRef.current[id];
+      const done = images.find(img => img.id === id);
+      // verification ที่ล้มเหลวไม่ลง cache (ครั้งหน้าได้ลองใหม่)
+      if (
+        !done ||
+        done.analysis.isAnalyzing ||
+        done.analysis.fingertipFailure ||
+        done.analysis.detections.some(d => d.verifyFailure)
+      ) {
+        continue;
+      }
+      saveCachedAnalysis(fingerprint, context, toCachedAnalysis(done.analysis)).catch(err =>
+        console.warn('analysis cache save failed:', err)
+      );
+    }
+  }, [cacheSaveTick]);
+
+  // --- Request cancellation / priority ---
+  const imageSignal = (id: string) => {
+    let controller = abortRef.current[id];
+    if (!controller || controller.signal.aborted) {
+      controller = new AbortController();
+      abortRef.current[id] = controller;
+    }
+    return controller.signal;
+  };
+
+  const cancelImageRequests = (id: string) => {
+    abortRef.current[id]?.abort();
+    delete abortRef.current[id];
+  };
+
+  const cancelAllRequests = () => {
+    Object.values<AbortController>(abortRef.current).forEach(controller => controller.abort());
+    abortRef.current = {};
+    rescanRef.current.clear();
+  };
+
+  const jobOptions = (id: string, signal: AbortSignal): JobOptions => ({
+    signal,
+    priority: () =>
+      rescanRef.current.has(id)
+        ? JOB_PRIORITY.user
+        : activeIdRef.current === id
+          ? JOB_PRIORITY.active
+          : JOB_PRIORITY.background
+  });
+
+  // quota รายวันหมด → หยุดทั้งคิว (รูปที่เหลือรอ ไม่ fail ทีละรูป) แล้ว resume เองตอน reset
+  const pauseForQuota = (err: QuotaExhaustedError) => {
+    detector.queue.pause();
+    setQuotaPause({ resetAt: err.resetAt, message: err.message });
+  };
+
+  // งานที่ชน quota หมด → ส่งเข้าคิวใหม่ (รอจนคิว resume) แทนที่จะ fail
+  const withQuotaPause = async <T,>(run: () => Promise<T>): Promise<T> => {
+    for (;;) {
+      try {
+        return await run();
+      } catch (err) {
+        if (!(err instanceof QuotaExhaustedError)) throw err;
+        pauseForQuota(err);
+      }
+    }
+  };
+
   // --- Helpers ---
   const updateImageAnalysis = (index: number, updates: Partial<InspectionImage['analysis']>) => {
     setImages(prev =>
@@ -78,20 +315,176 @@ export default function App() {
     );
   };
 
+  // --- Manual Annotation ---
+  const editDetections = (imgId: string, updater: (detections: DamageDetection[]) => DamageDetection[]) => {
+    const target = images.find(img => img.id === imgId);
+    if (!target || isInspectionLocked(inspection)) return;
+
+    const current = target.analysis.detections;
+    setHistories(prev => ({ ...prev, [imgId]: pushHistory(prev[imgId] ?? emptyHistory(), current) }));
+    updateImageAnalysisById(imgId, { detections: updater(current) });
+  };
+
+  const updateDetection = (detId: string, updates: Partial<DamageDetection>) => {
+    if (!currentImage) return;
+    editDetections(currentImage.id, dets => dets.map(d => (d.id === detId ? applyHumanEdit(d, updates) : d)));
+  };
+
+  const deleteDetection = (detId: string) => {
+    if (!currentImage) return;
+    editDetections(currentImage.id, dets => dets.filter(d => d.id !== detId));
+    if (selectedDetectionId === detId) setSelectedDetectionId(null);
+  };
+
+  const createDetection = (box: DamageDetection['boundingBox']) => {
+    if (!currentImage) return;
+    const det = createHumanDetection(box);
+    editDetections(currentImage.id, dets => [...dets, det]);
+    setSelectedDetectionId(det.id);
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    if (!currentImage || isInspectionLocked(inspection)) return;
+    const history = histories[currentImage.id] ?? emptyHistory();
+    const step = direction === 'undo' ? undoHistory : redoHistory;
+    const result = step(history, currentImage.analysis.detections);
+    if (!result) return;
+    setHistories(prev => ({ ...prev, [currentImage.id]: result.history }));
+    updateImageAnalysisById(currentImage.id, { detections: result.detections });
+  };
+
+  useEffect(() => {
+    setSelectedDetectionId(null);
+    setFocusRequest(null);
+  }, [activeIndex]);
+
+  // ✅ shortcut ตอนอยู่ใน edit mode: Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) / Delete
+  useEffect(() => {
+    if (!editMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        stepHistory(e.shiftKey ? 'redo' : 'undo');
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        stepHistory('redo');
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDetectionId) {
+        e.preventDefault();
+        deleteDetection(selectedDetectionId);
+      } else if (e.key === 'Escape') {
+        setSelectedDetectionId(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // --- Session Persistence ---
+  const openSession = async (id: string) => {
+    try {
+      const loaded = await loadSession(id);
+      if (!loaded) return false;
+
+      cancelAllRequests();
+      retryRef.current = {};
+      imgCacheRef.current = {};
+      persistedRef.current.add(loaded.id);
+      setHistories({});
+      setSelectedDetectionId(null);
+      setZoomingIds([]);
+      const { images: loadedImages, ...meta } = loaded;
+      setInspection(meta);
+      // รูปที่ยังไม่ analyzedAt จะถูกคิวต่อเองจาก effect ด้านล่าง
+      setImages(loadedImages.map(img => ({ ...img, analysis: { ...img.analysis, isAnalyzing: false } })));
+      setActiveIndex(0);
+      localStorage.setItem(LAST_SESSION_KEY, loaded.id);
+      return true;
+    } catch (err) {
+      console.error('loadSession failed:', err);
+      return false;
+    }
+  };
+
+  // ✅ เปิด session ล่าสุดอัตโนมัติหลัง reload
+  useEffect(() => {
+    const lastId = localStorage.getItem(LAST_SESSION_KEY);
+    if (lastId) openSession(lastId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ✅ autosave (debounce) ทุกครั้งที่รูป/ผลวิเคราะห์เปลี่ยน
+  useEffect(() => {
+    if (images.length === 0 && !persistedRef.current.has(inspection.id)) return;
+
+    const timer = window.setTimeout(() => {
+      saveSession({ ...inspection, updatedAt: Date.now(), images })
+        .then(() => {
+          persistedRef.current.add(inspection.id);
+          localStorage.setItem(LAST_SESSION_KEY, inspection.id);
+        })
+        .catch(err => console.error('saveSession failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [images, inspection]);
+
+  // quota pause: resume ตอน reset / ผู้ใช้กด resume เอง (ปุ่มในคิว) → banner หาย
+  useEffect(() => {
+    if (!quotaPause) return;
+    const timer = window.setTimeout(
+      () => detector.queue.resume(),
+      Math.max(0, quotaPause.resetAt - Date.now()) + QUOTA_RESUME_SLACK_MS
+    );
+    const unsubscribe = detector.queue.subscribe(state => {
+      if (!state.paused) setQuotaPause(null);
+    });
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [quotaPause]);
+
+  // rate limited: ลองใหม่เองเมื่อถึงเวลาที่ server บอก
+  useEffect(() => {
+    const waiting = images.filter(img => img.analysis.failure?.kind === 'rate_limited');
+    if (waiting.length === 0) return;
+    const dueAt = (img: InspectionImage) => img.analysis.failure?.retryAt ?? 0;
+    const nextAt = Math.min(...waiting.map(dueAt));
+    const timer = window.setTimeout(() => {
+      waiting.filter(img => dueAt(img) <= Date.now()).forEach(img => retryAnalysis(img.id));
+    }, Math.max(0, nextAt - Date.now()));
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [images]);
+
   // --- Queue Processing Logic ---
   useEffect(() => {
     const processNextInQueue = async () => {
-      const nextToProcessIndex = images.findIndex(
+      const ready = images.filter(
         img =>
-          img.analysis.detections.length === 0 &&
+          img.analysis.analyzedAt === undefined &&
           !img.analysis.isAnalyzing &&
+          !img.analysis.awaitingApproval &&
+          !img.analysis.qualityHold &&
           !img.analysis.error
       );
+      const isRescan = (img: InspectionImage) => rescanRef.current.has(img.id);
 
-      const isAnythingAnalyzing = images.some(img => img.analysis.isAnalyzing);
+      // re-scan ที่ผู้ใช้สั่ง > รูปที่เปิดดูอยู่ > ตามลำดับ
+      const next =
+        ready.find(isRescan) ?? ready.find(img => img.id === activeIdRef.current) ?? ready[0];
+      if (!next) return;
 
-      if (nextToProcessIndex !== -1 && !isAnythingAnalyzing) {
-        await runAnalysisForIndex(nextToProcessIndex);
+      // re-scan เริ่มได้เลยแม้รูปอื่นยังวิเคราะห์อยู่ (request ของมันแซงในคิว provider)
+      const analyzing = images.filter(img => img.analysis.isAnalyzing);
+      const canStart = analyzing.length === 0 || (isRescan(next) && !analyzing.some(isRescan));
+
+      if (canStart) {
+        await runAnalysisForIndex(images.indexOf(next));
       }
     };
 
@@ -99,8 +492,51 @@ export default function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [images]);
 
+  // รูปใหม่จากไฟล์หรือกล้อง (shot = มุมจาก shot list)
+  // ไฟล์: อ่าน EXIF + หมุนตั้งตรงก่อน (ย่อแล้ว EXIF หาย), กล้อง: ไม่มี EXIF แต่รู้เวลาถ่าย
+  const createInspectionImage = async (
+    sourceUrl: string,
+    name: string,
+    shot?: ShotContext
+  ): Promise<InspectionImage> => {
+    const { url: rawUrl, metadata } = shot
+      ? { url: sourceUrl, metadata: await cameraMetadata(sourceUrl) }
+      : await ingestUpload(sourceUrl);
+    const id = `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // ✅ quality gate: วัดจากต้นฉบับก่อนย่อ (ไม่ผ่าน = พักไว้ ไม่ยิง model)
+    const quality = (await assessPhotoQuality(rawUrl, qualityGateLevel)) ?? undefined;
+    const qualityHold = quality && quality.issues.length > 0 ? true : undefined;
+    if (highDetailMode) {
+      // ✅ high detail: เก็บต้นฉบับ + รอดู cost estimate ก่อนวิเคราะห์
+      return {
+        id,
+        url: rawUrl,
+        name,
+        addedAt: Date.now(),
+        originalSize: metadata.originalSize,
+        highDetail: true,
+        shot,
+        quality,
+        metadata,
+        analysis: { isAnalyzing: false, detections: [], awaitingApproval: true, qualityHold }
+      };
+    }
+    // ✅ ย่อรูปก่อนเก็บลง state (ลด IMAGE tokens มากที่สุด)
+    const optimizedUrl = await downscaleDataUrl(rawUrl, STANDARD_MAX_SIZE, 0.78);
+    return {
+      id,
+      url: optimizedUrl,
+      name,
+      addedAt: Date.now(),
+      shot,
+      quality,
+      metadata,
+      analysis: { isAnalyzing: false, detections: [], qualityHold }
+    };
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
+    const files = Array.from<File>(e.target.files || []);
     if (files.length === 0) return;
 
     const remainingSlots = MAX_IMAGES - images.length;
@@ -110,15 +546,15 @@ export default function App() {
       const reader = new FileReader();
       reader.onload = async event => {
         const rawUrl = event.target?.result as string;
-        // ✅ ย่อรูปก่อนเก็บลง state (ลด IMAGE tokens มากที่สุด)
-        const optimizedUrl = await downscaleDataUrl(rawUrl, 1280, 0.78);
-
-        const newImg: InspectionImage = {
-          id: `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          url: optimizedUrl,
-          name: file.name,
-          analysis: { isAnalyzing: false, detections: [] }
-        };
+        let newImg: InspectionImage;
+        try {
+          newImg = await createInspectionImage(rawUrl, file.name);
+        } catch (err) {
+          // ✅ อ่าน/แปลงรูปไม่ได้ → แจ้งผู้ใช้ (เดิมรูปหายเงียบ ๆ)
+          console.error('createInspectionImage failed:', err);
+          window.alert(`Could not load ${file.name}. See console for details.`);
+          return;
+        }
 
         retryRef.current[newImg.id] = 0;
 
@@ -133,15 +569,38 @@ export default function App() {
     e.target.value = '';
   };
 
-  const removeImage = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
+  const handleCameraCapture = async (dataUrl: string, shot: ShotAngle) => {
+    const name = shotImageName(shot);
+    let newImg: InspectionImage;
+    try {
+      newImg = await createInspectionImage(dataUrl, name, toShotContext(shot));
+    } catch (err) {
+      console.error('createInspectionImage failed:', err);
+      window.alert(`Could not load ${name}. See console for details.`);
+      return;
+    }
+    retryRef.current[newImg.id] = 0;
+    setImages(prev => (prev.length >= MAX_IMAGES ? prev : [...prev, newImg]));
+  };
+
+  const changeShotList = (shots: ShotAngle[] | null) => {
+    if (shots) saveShotList(shots);
+    else resetShotList();
+    setShotList(shots ?? loadShotList());
+  };
+
+  const removeImage = (id: string, e?: React.MouseEvent) => {
+    e?.stopPropagation();
     const indexToRemove = images.findIndex(img => img.id === id);
     const newImages = images.filter(img => img.id !== id);
 
+    cancelImageRequests(id); // ✅ request ที่ยังค้างในคิวของรูปนี้ไม่ต้องยิง
+    rescanRef.current.delete(id);
     delete retryRef.current[id];
     delete imgCacheRef.current[id]; // ✅ cleanup cache ด้วย
 
-    setImages(newImages);
+    // หลักฐานข้ามรูปจากรูปที่ลบไปแล้วใช้ไม่ได้ → ตรวจใหม่
+    setImages(crossCheckReflections(newImages));
 
     if (activeIndex >= newImages.length) {
       setActiveIndex(Math.max(0, newImages.length - 1));
@@ -150,35 +609,173 @@ export default function App() {
     }
   };
 
+  // quality gate: ผู้ตรวจยืนยันส่งวิเคราะห์ทั้งที่ไม่ผ่าน
+  const sendHeldAnyway = (ids: string[]) => {
+    setImages(prev =>
+      prev.map(img =>
+        ids.includes(img.id) && img.analysis.qualityHold
+          ? {
+              ...img,
+              quality: img.quality && { ...img.quality, overridden: true },
+              analysis: { ...img.analysis, qualityHold: undefined }
+            }
+          : img
+      )
+    );
+  };
+
+  // ถ่ายใหม่: ลบรูปเดิม → มีมุมจาก shot list ก็เปิดกล้องที่มุมนั้นเลย
+  const retakeImage = (id: string) => {
+    const img = images.find(i => i.id === id);
+    if (!img) return;
+    removeImage(id);
+    if (img.shot) {
+      setCameraShotId(img.shot.id);
+      setCameraOpen(true);
+    }
+  };
+
+  // ลบ error → คิวหยิบรูปนี้ไปวิเคราะห์ใหม่
+  const retryAnalysis = (id: string) => {
+    retryRef.current[id] = 0;
+    updateImageAnalysisById(id, { error: undefined, failure: undefined });
+  };
+
+  // ทางแก้ตามชนิด error: ลองใหม่ หรือเปลี่ยนรูป (มุมจากกล้อง = ถ่ายใหม่, upload = เลือกไฟล์ใหม่)
+  const recoverImage = (id: string) => {
+    const img = images.find(i => i.id === id);
+    const failure = img?.analysis.failure;
+    if (!img || !failure) return;
+    if (failure.recovery === 'replace_photo') {
+      retakeImage(id);
+      if (!img.shot) replaceInputRef.current?.click();
+      return;
+    }
+    retryAnalysis(id);
+  };
+
+  const cycleQualityGateLevel = () => {
+    const next = QUALITY_GATE_LEVELS[(QUALITY_GATE_LEVELS.indexOf(qualityGateLevel) + 1) % QUALITY_GATE_LEVELS.length];
+    setQualityGateLevel(next);
+    saveQualityGateLevel(next);
+  };
+
   const runAnalysisForIndex = async (index: number) => {
     const targetImage = images[index];
     if (!targetImage) return;
 
     const targetId = targetImage.id;
+    const signal = imageSignal(targetId);
+    const opts = jobOptions(targetId, signal);
 
-    updateImageAnalysisById(targetId, { isAnalyzing: true, error: undefined });
+    updateImageAnalysisById(targetId, { isAnalyzing: true, error: undefined, failure: undefined });
+
+    const cacheContext: AnalysisCacheContext = {
+      promptVersion: PROMPT_VERSION,
+      model: detector.model,
+      mode: targetImage.highDetail ? 'tiled' : 'standard',
+      shotId: targetImage.shot?.id
+    };
 
     try {
-      const results = await analyzeImage(targetImage.url);
+      // ✅ รูปเดิม/เกือบเดิมเคยวิเคราะห์แล้ว → ใช้ผลเดิมทันที (force re-analyze = ข้าม)
+      const fingerprint = await fingerprintImage(targetImage.url).catch(err => {
+        console.warn('fingerprintImage failed:', err);
+        return null;
+      });
+      if (fingerprint && !targetImage.analysis.skipCache) {
+        const hit = await lookupCachedAnalysis(fingerprint, cacheContext).catch(err => {
+          console.warn('analysis cache lookup failed:', err);
+          return null;
+        });
+        if (hit && !signal.aborted) {
+          const cached = fromCachedAnalysis(hit.analysis);
+          updateImageAnalysisById(targetId, {
+            ...cached,
+            isAnalyzing: false,
+            error: undefined,
+            analyzedAt: Date.now(),
+            fromCache: { match: hit.match, analyzedAt: hit.analyzedAt },
+            skipCache: undefined
+          });
+          return;
+        }
+      }
+
+      // เก็บต้นฉบับไว้แต่เลือกรันแบบปกติ → ย่อก่อนส่ง
+      const standardUrl =
+        !targetImage.highDetail && targetImage.originalSize
+          ? await downscaleDataUrl(targetImage.url, STANDARD_MAX_SIZE, 0.78)
+          : targetImage.url;
+      const analyzed = await withQuotaPause(() =>
+        targetImage.highDetail
+          ? analyzeImageTiled(
+              detector,
+              targetImage.url,
+              (done, total) => setTileProgress(prev => ({ ...prev, [targetId]: { done, total } })),
+              targetImage.shot,
+              opts
+            )
+          : detector.analyzeImage(standardUrl, targetImage.shot, opts)
+      );
+      // นิ้ว/มือของ inspector ห้ามเป็น damage
+      const { detections: results, rejected, fingertip } = excludeFingerRegion(analyzed);
+
+      clearTileProgress(targetId);
+
+      if (rejected.length > 0) {
+        console.warn(`analyzeImage: rejected ${rejected.length} malformed item(s)`, rejected);
+      }
+
+      // ✅ บาง tile ล้มเหลว = ผลไม่ครบ → โชว์สิ่งที่เจอ + error พร้อมปุ่มลองใหม่ (ไม่ zoom, ไม่ลง cache)
+      const { tileFailure } = analyzed as Partial<TiledParseResult>;
+      if (tileFailure) {
+        updateImageAnalysisById(targetId, {
+          isAnalyzing: false,
+          detections: results,
+          rejected,
+          fingertip,
+          analyzedAt: undefined,
+          error: tileFailure.message,
+          failure: tileFailure
+        });
+        return;
+      }
 
       setImages(prev =>
         prev.map(img =>
-          img.id === targetId ? { ...img, analysis: { isAnalyzing: false, detections: results } } : img
+          img.id === targetId
+            ? { ...img, analysis: { isAnalyzing: false, detections: results, rejected, fingertip, analyzedAt: Date.now() } }
+            : img
         )
       );
 
-      // Zoom analysis for each detection that is not confirmed damage
-      for (const det of results) {
-        if (!det.isConfirmedDamage) {
-          await performZoomAnalysisForImage(targetId, det);
-        }
+      // ✅ นิ้วชี้อยู่ → zoom รอบปลายนิ้วก่อน detection อื่น (priority)
+      const indicatedId = isPointing(fingertip) ? await performFingertipFocus(targetId, fingertip, opts) : null;
+
+      // ✅ ส่งทุกจุดที่ยังไม่ confirmed พร้อมกัน → batcher รวมเป็น request เดียว (เดิมทีละ request ต่อ detection)
+      await Promise.all(
+        results
+          .filter(det => !det.isConfirmedDamage && det.id !== indicatedId)
+          .map(det => performZoomAnalysisForImage(targetId, det, opts))
+      );
+
+      // ✅ เก็บผลสุดท้าย (รวม verdict ของ zoom) ลง cache — effect อ่านจาก state หลัง render ถัดไป
+      if (fingerprint && !signal.aborted) {
+        cacheSaveRef.current[targetId] = { fingerprint, context: cacheContext };
+        setCacheSaveTick(t => t + 1);
       }
     } catch (err: any) {
+      clearTileProgress(targetId);
+      // ยกเลิกเอง (ลบรูป/re-scan/เปลี่ยน session) → ไม่ใช่ error
+      if (isAbortError(err) || signal.aborted) return;
+
       const prevRetry = retryRef.current[targetId] ?? 0;
       const nextRetry = prevRetry + 1;
       retryRef.current[targetId] = nextRetry;
 
-      const msg = err?.message || err?.toString?.() || 'Unknown error';
+      // ✅ ชนิด error → ข้อความ + ทางแก้ (retry at / retry now / replace photo)
+      const failure = toAnalysisError(err).toFailure();
       console.error('analyzeImage failed:', err);
 
       // ✅ ปิด retry ใน App: แสดง error ครั้งเดียว (กันยิงซ้ำซ้อนกับ service)
@@ -198,60 +795,66 @@ export default function App() {
         updateImageAnalysisById(targetId, {
           isAnalyzing: false,
           detections: [],
-          error: `Analysis failed: ${msg}`
+          rejected: undefined,
+          error: failure.message,
+          failure
         });
       }
+    } finally {
+      // abort = มีรอบใหม่มาแทน (re-scan) → flag เป็นของรอบนั้น
+      if (!signal.aborted) {
+        rescanRef.current.delete(targetId);
+        // ✅ รูปนี้เสร็จ → ตรวจแสงสะท้อนข้ามรูปที่เห็น panel เดียวกันใหม่
+        setImages(prev => crossCheckReflections(prev));
+      }
     }
   };
 
-  const performZoomAnalysisForImage = async (imgId: string, detection: DamageDetection) => {
-    const targetImage = images.find(img => img.id === imgId);
-    if (!targetImage) return;
-
-    setZoomingId(detection.id);
-
-    // ✅ ใช้ cache รูป ป้องกันโหลดซ้ำ
-    let img = imgCacheRef.current[imgId];
-    if (!img) {
-      img = new Image();
-      img.src = targetImage.url;
-      await new Promise<void>(resolve => {
-        img.onload = () => resolve();
-        img.onerror = () => resolve();
-      });
-      imgCacheRef.current[imgId] = img;
-    }
+  const clearTileProgress = (id: string) => {
+    setTileProgress(prev => {
+      if (!(id in prev)) return prev;
+      const { [id]: _done, ...rest } = prev;
+      return rest;
+    });
+  };
 
-    const tempCanvas = document.createElement('canvas');
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) {
-      setZoomingId(null);
-      return;
-    }
+  // high detail ที่รอ approve: รันแบบ tile หรือแบบปกติ (ต้นฉบับยังเก็บไว้ทั้งคู่)
+  const approvePendingAnalysis = (tiled: boolean) => {
+    setImages(prev =>
+      prev.map(img =>
+        img.analysis.awaitingApproval
+          ? { ...img, highDetail: tiled, analysis: { ...img.analysis, awaitingApproval: false } }
+          : img
+      )
+    );
+  };
 
-    const [ymin, xmin, ymax, xmax] = detection.boundingBox;
+  const toggleHighDetailMode = () => {
+    const next = !highDetailMode;
+    setHighDetailMode(next);
+    localStorage.setItem(HIGH_DETAIL_KEY, next ? '1' : '0');
+  };
 
-    const sx = (xmin / 1000) * (img.naturalWidth || 1);
-    const sy = (ymin / 1000) * (img.naturalHeight || 1);
-    const sw = ((xmax - xmin) / 1000) * (img.naturalWidth || 1);
-    const sh = ((ymax - ymin) / 1000) * (img.naturalHeight || 1);
+  const performZoomAnalysisForImage = async (imgId: string, detection: DamageDetection, opts?: JobOptions) => {
+    const targetImage = images.find(img => img.id === imgId);
+    if (!targetImage) return;
 
-    const padding = Math.min(sw, sh) * 0.7;
-    const finalSx = Math.max(0, sx - padding);
-    const finalSy = Math.max(0, sy - padding);
-    const finalSw = Math.min((img.naturalWidth || 1) - finalSx, sw + padding * 2);
-    const finalSh = Math.min((img.naturalHeight || 1) - finalSy, sh + padding * 2);
+    setZoomingIds(prev => [...prev, detection.id]);
 
-    tempCanvas.width = 512;
-    tempCanvas.height = 512;
-    ctx.drawImage(img, finalSx, finalSy, finalSw, finalSh, 0, 0, 512, 512);
+    try {
+      // ✅ ใช้ cache รูป ป้องกันโหลดซ้ำ
+      let img = imgCacheRef.current[imgId];
+      if (!img) {
+        img = await decodeImage(targetImage.url);
+        imgCacheRef.current[imgId] = img;
+      }
 
-    // ✅ ลดคุณภาพ zoomed image เพื่อลด IMAGE tokens เพิ่มอีก
-    const zoomedDataUrl = tempCanvas.toDataURL('image/jpeg', 0.78);
+      // ✅ ลดคุณภาพ zoomed image เพื่อลด IMAGE tokens เพิ่มอีก
+      const crop = cropDetection(img, detection.boundingBox);
+      if (!crop) return;
 
-    try {
       // ✅ สำคัญ: อย่าส่ง original image เข้า zoomAnalysis (เผา token ซ้ำ)
-      const report = await zoomAnalysis('', zoomedDataUrl, detection.description);
+      const response = await withQuotaPause(() => zoomBatcher.verify({ image: crop.dataUrl, detection }, opts));
 
       setImages(prev =>
         prev.map(imgItem => {
@@ -261,29 +864,194 @@ export default function App() {
             analysis: {
               ...imgItem.analysis,
               detections: imgItem.analysis.detections.map(d =>
-                d.id === detection.id ? { ...d, zoomAnalysis: report } : d
+                // คนแก้ไปแล้วระหว่างรอ → ไม่ทับ
+                // ผลตรวจข้ามรูปคิดจากค่าก่อน zoom → ทิ้งไป (ตรวจใหม่ตอนรูปนี้เสร็จ)
+                d.id === detection.id && !isHumanVerified(d)
+                  ? applyZoomVerdict(withoutMultiAngle(d), response, crop.rect, img.naturalWidth, img.naturalHeight)
+                  : d
               )
             }
           };
         })
       );
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('zoomAnalysis failed:', err);
+      // เก็บไว้ที่ detection → การ์ดบอกสาเหตุ + ลองใหม่ได้ (เดิม detection ค้างเป็น suspected เงียบ ๆ)
+      const verifyFailure = toAnalysisError(err).toFailure();
+      setImages(prev =>
+        prev.map(imgItem =>
+          imgItem.id === imgId
+            ? {
+                ...imgItem,
+                analysis: {
+                  ...imgItem.analysis,
+                  detections: imgItem.analysis.detections.map(d => (d.id === detection.id ? { ...d, verifyFailure } : d))
+                }
+              }
+            : imgItem
+        )
+      );
+    } finally {
+      setZoomingIds(prev => prev.filter(id => id !== detection.id));
+    }
+  };
+
+  // ผู้ใช้สั่ง verify ซ้ำหลังล้มเหลว → แซงคิว
+  const retryVerification = (imgId: string, detection: DamageDetection) => {
+    void performZoomAnalysisForImage(imgId, detection, { signal: imageSignal(imgId), priority: JOB_PRIORITY.user });
+  };
+
+  // zoom pass ความละเอียดสูงรอบปลายนิ้ว → detection ที่ flag ว่า inspector ชี้ (คืน id)
+  const performFingertipFocus = async (
+    imgId: string,
+    fingertip: FingertipLocation,
+    opts?: JobOptions
+  ): Promise<string | null> => {
+    const targetImage = images.find(img => img.id === imgId);
+    if (!targetImage) return null;
+
+    setFingertipScanId(imgId);
+    try {
+      let img = imgCacheRef.current[imgId];
+      if (!img) {
+        img = await decodeImage(targetImage.url);
+        imgCacheRef.current[imgId] = img;
+      }
+
+      // high detail → url เป็นต้นฉบับ (crop ได้ละเอียดกว่า)
+      const crop = cropFingertip(img, fingertip);
+      if (!crop) return null;
+
+      const response = await withQuotaPause(() => detector.fingertipAnalysis(crop.dataUrl, opts));
+      const newId = createDetectionId();
+      let indicatedId: string | null = null;
+
+      setImages(prev =>
+        prev.map(imgItem => {
+          if (imgItem.id !== imgId) return imgItem;
+          const applied = applyFingertipVerdict(
+            imgItem.analysis.detections.map(d => (isHumanVerified(d) ? d : withoutMultiAngle(d))),
+            response,
+            crop,
+            img.naturalWidth,
+            img.naturalHeight,
+            newId
+          );
+          indicatedId = applied.indicatedId;
+          return {
+            ...imgItem,
+            analysis: { ...imgItem.analysis, detections: applied.detections, fingertipFailure: undefined }
+          };
+        })
+      );
+      return indicatedId;
+    } catch (err) {
+      if (isAbortError(err)) return null;
+      console.error('fingertipAnalysis failed:', err);
+      // ✅ เก็บที่รูป → โชว์ + ลองใหม่ได้ และไม่ลง cache เหมือน verification ที่ล้มเหลว
+      updateImageAnalysisById(imgId, { fingertipFailure: toAnalysisError(err).toFailure() });
+      return null;
     } finally {
-      setZoomingId(null);
+      setFingertipScanId(null);
     }
   };
 
+  // ผู้ใช้สั่ง Finger Focus ซ้ำหลังล้มเหลว → แซงคิว
+  const retryFingertipFocus = (imgId: string) => {
+    const fingertip = images.find(img => img.id === imgId)?.analysis.fingertip;
+    if (!isPointing(fingertip)) return;
+    void performFingertipFocus(imgId, fingertip, { signal: imageSignal(imgId), priority: JOB_PRIORITY.user });
+  };
+
+  // re-scan รูปที่เปิดอยู่ (force = ไม่ใช้ analysis cache)
+  const rescanCurrentImage = (force: boolean) => {
+    if (!currentImage) return;
+    const id = currentImage.id;
+    // zoom ของรอบเดิมที่ค้างอยู่ไม่ต้องยิงต่อ + รอบใหม่แซงคิว
+    cancelImageRequests(id);
+    rescanRef.current.add(id);
+    retryRef.current[id] = 0;
+    setHistories(prev => ({ ...prev, [id]: emptyHistory() }));
+    updateImageAnalysisById(id, {
+      detections: [],
+      rejected: undefined,
+      fingertip: undefined,
+      fingertipFailure: undefined,
+      error: undefined,
+      failure: undefined,
+      analyzedAt: undefined,
+      fromCache: undefined,
+      skipCache: force || undefined,
+      // มีต้นฉบับ → ถามอีกรอบว่าจะรันแบบ tile หรือปกติ
+      awaitingApproval: !!currentImage.originalSize
+    });
+  };
+
+  // ✅ Clear All = เริ่ม session ใหม่ (session เดิมยังอยู่ใน History)
   const resetAll = () => {
+    cancelAllRequests();
+    setInspection(createInspectionMeta());
     setImages([]);
+    setHistories({});
+    setSelectedDetectionId(null);
     setActiveIndex(0);
-    setZoomingId(null);
+    setZoomingIds([]);
     retryRef.current = {};
     imgCacheRef.current = {}; // ✅ reset cache
   };
 
+  const updateInspection = (updates: Partial<InspectionMeta>) => {
+    setInspection(prev => ({ ...prev, ...updates }));
+  };
+
+  const changeStatus = (status: InspectionStatus) => {
+    setInspection(prev => withStatus(prev, status));
+  };
+
+  const handleGenerateReport = async (format: ReportFormat) => {
+    setReportBusy(true);
+    try {
+      await generateReport({ ...inspection, images }, format, priceTable);
+    } catch (err) {
+      console.error('generateReport failed:', err);
+      window.alert('Report generation failed. See console for details.');
+    } finally {
+      setReportBusy(false);
+    }
+  };
+
+  // finalized แล้วห้ามเพิ่ม/ลบ/สแกนรูปใหม่
+  const locked = isInspectionLocked(inspection);
+
+  const imageEstimate = currentImage ? summarizeImageEstimate(currentImage, priceTable) : null;
+  const inspectionEstimate = summarizeInspectionEstimate(images, priceTable);
+  const money = (n: number) => formatMoney(n, priceTable.currency);
+
+  const panelCounts = countDamageByPanel(images);
+  // inspector ชี้ไว้ → ขึ้นก่อน
+  const visibleDetections = (currentImage?.analysis.detections ?? [])
+    .filter(det => !panelFilter || det.panel === panelFilter)
+    .sort((a, b) => Number(!!b.inspectorIndicated) - Number(!!a.inspectorIndicated));
+
+  const selectPanel = (panel: CarPanel | null) => {
+    setPanelFilter(panel);
+    if (panel && currentImage && !imageHasPanel(currentImage, panel)) {
+      const idx = images.findIndex(img => imageHasPanel(img, panel));
+      if (idx !== -1) setActiveIndex(idx);
+    }
+  };
+
+  const currentMetadata = currentImage?.metadata;
+  const currentTimeFlag = captureTimeFlag(currentMetadata, inspection);
+  // ถ่ายนอกช่วง inspection (ไม่มีเวลาถ่าย = แสดงแค่ในรายละเอียด ไม่ขึ้นเตือนใน gallery)
+  const outsideWindow = (img: InspectionImage) => {
+    const flag = captureTimeFlag(img.metadata, inspection);
+    return flag === 'unknown' ? null : flag;
+  };
+
   const isAnyProcessing = images.some(img => img.analysis.isAnalyzing);
-  const processedCount = images.filter(img => img.analysis.detections.length > 0 || img.analysis.error).length;
+  const processedCount = images.filter(img => img.analysis.analyzedAt !== undefined || img.analysis.error).length;
   const progressPercent = images.length > 0 ? (processedCount / images.length) * 100 : 0;
 
   return (
@@ -300,310 +1068,909 @@ export default function App() {
           <Fingerprint size={14} className="text-blue-400" />
           <p>Batch Processing • Upload up to 20 photos • Agentic Finger Focus</p>
         </div>
+        <div className="flex items-center justify-center gap-3 text-[10px] font-black uppercase tracking-widest">
+          <span className="text-slate-500">{formatVehicleLabel(inspection.vehicle) || inspection.title}</span>
+          <button
+            onClick={() => setView(view === 'history' ? 'inspect' : 'history')}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-900 border border-slate-800 text-slate-300 hover:text-white hover:border-slate-600 transition-colors"
+          >
+            <History size={12} />
+            {view === 'history' ? 'Back' : 'History'}
+          </button>
+          <button
+            onClick={() => setView(view === 'pricing' ? 'inspect' : 'pricing')}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-900 border border-slate-800 text-slate-300 hover:text-white hover:border-slate-600 transition-colors"
+          >
+            <Wrench size={12} />
+            {view === 'pricing' ? 'Back' : 'Pricing'}
+          </button>
+          <button
+            onClick={() => setView(view === 'compare' ? 'inspect' : 'compare')}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-slate-900 border border-slate-800 text-slate-300 hover:text-white hover:border-slate-600 transition-colors"
+          >
+            <ArrowLeftRight size={12} />
+            {view === 'compare' ? 'Back' : 'Compare'}
+          </button>
+        </div>
+        {detector.budget && <QuotaMeter budget={detector.budget} remaining={estimateRemainingCost(images)} />}
       </header>
 
-      {/* Batch Progress Section */}
-      {images.length > 0 && (
-        <div className="w-full max-w-7xl mb-6 bg-slate-900/50 border border-slate-800 rounded-3xl p-4 shadow-xl">
-          <div className="flex flex-col md:flex-row items-center justify-between gap-4 mb-3">
-            <div className="flex items-center gap-3">
-              {isAnyProcessing ? (
-                <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
-              ) : (
-                <CheckCircle2 className="w-5 h-5 text-green-400" />
-              )}
-              <span className="text-sm font-bold tracking-wide">
-                {isAnyProcessing
-                  ? `BATCH ANALYZING: ${Math.min(processedCount + 1, images.length)}/${images.length}`
-                  : `SCAN COMPLETED: ${images.length} PHOTOS`}
-              </span>
+      {view === 'history' && (
+        <HistoryScreen
+          currentSessionId={inspection.id}
+          onOpen={async id => {
+            if (id === inspection.id || (await openSession(id))) setView('inspect');
+          }}
+          onClose={() => setView('inspect')}
+          onCurrentDeleted={() => {
+            persistedRef.current.delete(inspection.id);
+            localStorage.removeItem(LAST_SESSION_KEY);
+            resetAll();
+          }}
+        />
+      )}
+
+      {view === 'pricing' && (
+        <PriceTableEditor
+          table={priceTable}
+          onSave={table => {
+            savePriceTable(table);
+            setPriceTable(table);
+            setView('inspect');
+          }}
+          onClose={() => setView('inspect')}
+        />
+      )}
+
+      <input ref={replaceInputRef} type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
+
+      {cameraOpen && !locked && (
+        <CameraCapture
+          shots={shotList}
+          images={images}
+          remainingSlots={MAX_IMAGES - images.length}
+          onCapture={handleCameraCapture}
+          onShotsChange={changeShotList}
+          initialShotId={cameraShotId}
+          onClose={() => {
+            setCameraOpen(false);
+            setCameraShotId(undefined);
+          }}
+        />
+      )}
+
+      {view === 'compare' && (
+        <ComparisonScreen current={{ ...inspection, images }} priceTable={priceTable} onClose={() => setView('inspect')} />
+      )}
+
+      {view === 'inspect' && (
+        <>
+          <InspectionDetails
+            meta={inspection}
+            onChange={updateInspection}
+            onStatusChange={changeStatus}
+            onExportJson={() => downloadInspectionJson({ ...inspection, images }, priceTable)}
+            onGenerateReport={handleGenerateReport}
+            reportBusy={reportBusy}
+          />
+
+          {/* Batch Progress Section */}
+          {images.length > 0 && (
+            <div className="w-full max-w-7xl mb-6 bg-slate-900/50 border border-slate-800 rounded-3xl p-4 shadow-xl">
+              <div className="flex flex-col md:flex-row items-center justify-between gap-4 mb-3">
+                <div className="flex items-center gap-3">
+                  {isAnyProcessing ? (
+                    <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="w-5 h-5 text-green-400" />
+                  )}
+                  <span className="text-sm font-bold tracking-wide">
+                    {isAnyProcessing
+                      ? `BATCH ANALYZING: ${Math.min(processedCount + 1, images.length)}/${images.length}`
+                      : `SCAN COMPLETED: ${images.length} PHOTOS`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <QueueStatus queue={detector.queue} />
+                  <span className="text-xs font-mono text-slate-500 bg-slate-800 px-3 py-1 rounded-full border border-slate-700">
+                    {Math.round(progressPercent)}% PROGRESS
+                  </span>
+                </div>
+              </div>
+              <div className="w-full h-3 bg-slate-800 rounded-full overflow-hidden border border-slate-700 p-[2px]">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-600 to-indigo-500 rounded-full transition-all duration-700 ease-out shadow-[0_0_10px_rgba(37,99,235,0.4)]"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
             </div>
-            <span className="text-xs font-mono text-slate-500 bg-slate-800 px-3 py-1 rounded-full border border-slate-700">
-              {Math.round(progressPercent)}% PROGRESS
-            </span>
-          </div>
-          <div className="w-full h-3 bg-slate-800 rounded-full overflow-hidden border border-slate-700 p-[2px]">
-            <div
-              className="h-full bg-gradient-to-r from-blue-600 to-indigo-500 rounded-full transition-all duration-700 ease-out shadow-[0_0_10px_rgba(37,99,235,0.4)]"
-              style={{ width: `${progressPercent}%` }}
+          )}
+
+          {!locked && images.some(img => img.analysis.awaitingApproval) && (
+            <HighDetailApproval
+              images={images.filter(img => img.analysis.awaitingApproval)}
+              requestIntervalMs={detector.minRequestIntervalMs}
+              onRunTiled={() => approvePendingAnalysis(true)}
+              onRunStandard={() => approvePendingAnalysis(false)}
             />
-          </div>
-        </div>
-      )}
+          )}
 
-      {/* Main Container */}
-      <div className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-12 gap-8 items-start">
-        {/* Gallery Sidebar / Bottom Row */}
-        <div className="lg:col-span-3 lg:h-[700px] flex flex-col gap-4">
-          <div className="bg-slate-900 border border-slate-800 rounded-3xl p-4 flex flex-col h-full shadow-2xl">
-            <div className="flex items-center justify-between mb-4 px-2">
-              <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">
-                Gallery ({images.length}/{MAX_IMAGES})
-              </h3>
-              {images.length > 0 && (
-                <button
-                  onClick={resetAll}
-                  className="text-[10px] font-bold text-red-400 hover:text-red-300 transition-colors uppercase"
-                >
-                  Clear All
-                </button>
-              )}
+          {quotaPause && (
+            <div className="w-full max-w-7xl mb-6 bg-slate-900 border border-yellow-500/30 rounded-3xl p-5 shadow-2xl ring-1 ring-white/5 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Clock className="w-5 h-5 text-yellow-400" />
+                <div>
+                  <p className="text-sm font-bold tracking-wide">
+                    DAILY QUOTA USED UP — ANALYSIS PAUSED UNTIL{' '}
+                    {new Date(quotaPause.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  <p className="text-[10px] text-slate-500">
+                    {quotaPause.message} Remaining photos stay queued and continue automatically in{' '}
+                    {formatResetIn(quotaPause.resetAt - Date.now())}.
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => detector.queue.resume()}
+                className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+              >
+                <RefreshCw size={12} />
+                Try Now
+              </button>
             </div>
+          )}
 
-            <div className="flex lg:flex-col gap-3 overflow-x-auto lg:overflow-y-auto pb-2 lg:pb-0 custom-scrollbar pr-1 flex-1">
-              {images.map((img, idx) => (
-                <div
-                  key={img.id}
-                  onClick={() => setActiveIndex(idx)}
-                  className={`relative flex-shrink-0 w-20 h-20 lg:w-full lg:h-24 rounded-2xl cursor-pointer transition-all duration-300 border-2 overflow-hidden group ${
-                    idx === activeIndex
-                      ? 'border-blue-500 bg-blue-500/10 scale-[1.02] shadow-lg shadow-blue-500/20'
-                      : 'border-slate-800 hover:border-slate-600'
-                  }`}
-                >
-                  <img
-                    src={img.url}
-                    className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
-                    alt={`Inspection ${idx}`}
-                  />
-
-                  {/* Overlay for status */}
-                  <div className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+          {!locked && images.some(img => img.analysis.qualityHold) && (
+            <QualityGate
+              images={images.filter(img => img.analysis.qualityHold)}
+              onSelect={id => setActiveIndex(images.findIndex(img => img.id === id))}
+              onSendAnyway={sendHeldAnyway}
+              onRetake={retakeImage}
+            />
+          )}
+
+          {/* Main Container */}
+          <div className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-12 gap-8 items-start">
+            {/* Gallery Sidebar / Bottom Row */}
+            <div className="lg:col-span-3 lg:h-[700px] flex flex-col gap-4">
+              <VehicleDiagram counts={panelCounts} selected={panelFilter} onSelect={selectPanel} />
+              <div className="bg-slate-900 border border-slate-800 rounded-3xl p-4 flex flex-col flex-1 min-h-0 shadow-2xl">
+                <div className="flex items-center justify-between mb-4 px-2">
+                  <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">
+                    Gallery ({images.length}/{MAX_IMAGES})
+                  </h3>
+                  <div className="flex items-center gap-3">
                     <button
-                      onClick={e => removeImage(img.id, e)}
-                      className="p-1.5 bg-red-600 rounded-full text-white shadow-lg transform translate-y-2 group-hover:translate-y-0 transition-transform"
+                      onClick={toggleHighDetailMode}
+                      title="High detail: keep originals and analyze overlapping tiles (applies to new uploads)"
+                      className={`flex items-center gap-1 text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg border transition-colors ${
+                        highDetailMode
+                          ? 'bg-blue-500/10 border-blue-500/40 text-blue-300'
+                          : 'border-slate-800 text-slate-500 hover:text-slate-300'
+                      }`}
                     >
-                      <X size={14} />
+                      <Grid3x3 size={10} />
+                      HD
                     </button>
+                    <button
+                      onClick={cycleQualityGateLevel}
+                      title="Photo quality check before analysis: off / lenient / standard / strict (applies to new photos)"
+                      className={`flex items-center gap-1 text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg border transition-colors ${
+                        qualityGateLevel !== 'off'
+                          ? 'bg-amber-500/10 border-amber-500/40 text-amber-300'
+                          : 'border-slate-800 text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      <Aperture size={10} />
+                      QC {qualityGateLevel === 'off' ? 'off' : qualityGateLevel.slice(0, 3)}
+                    </button>
+                    {images.length > 0 && !locked && (
+                      <button
+                        onClick={resetAll}
+                        className="text-[10px] font-bold text-red-400 hover:text-red-300 transition-colors uppercase"
+                      >
+                        Clear All
+                      </button>
+                    )}
                   </div>
+                </div>
+
+                <div className="flex lg:flex-col gap-3 overflow-x-auto lg:overflow-y-auto pb-2 lg:pb-0 custom-scrollbar pr-1 flex-1">
+                  {images.map((img, idx) => (
+                    <div
+                      key={img.id}
+                      onClick={() => setActiveIndex(idx)}
+                      className={`relative flex-shrink-0 w-20 h-20 lg:w-full lg:h-24 rounded-2xl cursor-pointer transition-all duration-300 border-2 overflow-hidden group ${
+                        idx === activeIndex
+                          ? 'border-blue-500 bg-blue-500/10 scale-[1.02] shadow-lg shadow-blue-500/20'
+                          : 'border-slate-800 hover:border-slate-600'
+                      } ${panelFilter && !imageHasPanel(img, panelFilter) ? 'hidden' : ''}`}
+                    >
+                      <img
+                        src={img.url}
+                        className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity"
+                        alt={`Inspection ${idx}`}
+                      />
+
+                      {outsideWindow(img) && (
+                        <span
+                          className="absolute top-1.5 right-1.5 p-1 rounded-md bg-amber-500 text-white shadow-lg"
+                          title={CAPTURE_TIME_FLAG_LABELS[outsideWindow(img)!]}
+                        >
+                          <Clock size={9} />
+                        </span>
+                      )}
+
+                      {img.shot && (
+                        <span className="absolute top-1.5 left-1.5 max-w-[85%] truncate px-1.5 py-0.5 rounded-md bg-slate-950/80 text-[8px] font-black uppercase tracking-wider text-slate-200">
+                          {img.shot.label}
+                        </span>
+                      )}
 
-                  <div className="absolute bottom-2 right-2">
-                    {img.analysis.detections.length > 0 ? (
-                      <div className="bg-green-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl flex items-center justify-center">
-                        <CheckCircle2 size={10} className="text-white" />
+                      {/* Overlay for status */}
+                      {!locked && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={e => removeImage(img.id, e)}
+                            className="p-1.5 bg-red-600 rounded-full text-white shadow-lg transform translate-y-2 group-hover:translate-y-0 transition-transform"
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
+                      )}
+
+                      <div className="absolute bottom-2 right-2">
+                        {img.analysis.analyzedAt !== undefined ? (
+                          <div
+                            className={`${img.analysis.fromCache ? 'bg-teal-500' : 'bg-green-500'} w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl flex items-center justify-center`}
+                            title={img.analysis.fromCache ? 'Cached result' : undefined}
+                          >
+                            {img.analysis.fromCache ? (
+                              <Database size={8} className="text-white" />
+                            ) : (
+                              <CheckCircle2 size={10} className="text-white" />
+                            )}
+                          </div>
+                        ) : img.analysis.qualityHold ? (
+                          <div
+                            className="bg-amber-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl flex items-center justify-center"
+                            title="Held back: photo quality"
+                          >
+                            <AlertTriangle size={8} className="text-white" />
+                          </div>
+                        ) : img.analysis.isAnalyzing ? (
+                          <div className="bg-blue-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl animate-pulse" />
+                        ) : img.analysis.error ? (
+                          <div
+                            className="bg-red-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl"
+                            title={img.analysis.failure ? ANALYSIS_ERROR_LABELS[img.analysis.failure.kind] : img.analysis.error}
+                          />
+                        ) : (
+                          <div className="bg-slate-700 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl" />
+                        )}
                       </div>
-                    ) : img.analysis.isAnalyzing ? (
-                      <div className="bg-blue-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl animate-pulse" />
-                    ) : img.analysis.error ? (
-                      <div className="bg-red-500 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl" />
-                    ) : (
-                      <div className="bg-slate-700 w-4 h-4 rounded-full border-2 border-slate-900 shadow-xl" />
-                    )}
-                  </div>
+                    </div>
+                  ))}
+
+                  {images.length < MAX_IMAGES && !locked && (
+                    <label className="flex-shrink-0 w-20 h-20 lg:w-full lg:h-24 rounded-2xl border-2 border-dashed border-slate-800 flex flex-col items-center justify-center text-slate-500 hover:border-blue-500/50 hover:text-blue-400 cursor-pointer transition-all bg-slate-900/40 hover:bg-slate-800/40">
+                      <Plus size={24} />
+                      <span className="text-[10px] font-black mt-1 uppercase tracking-tighter">Add Photo</span>
+                      <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
+                    </label>
+                  )}
+                  {images.length < MAX_IMAGES && !locked && (
+                    <button
+                      onClick={() => setCameraOpen(true)}
+                      className="flex-shrink-0 w-20 h-20 lg:w-full lg:h-24 rounded-2xl border-2 border-dashed border-slate-800 flex flex-col items-center justify-center text-slate-500 hover:border-blue-500/50 hover:text-blue-400 transition-all bg-slate-900/40 hover:bg-slate-800/40"
+                    >
+                      <Camera size={24} />
+                      <span className="text-[10px] font-black mt-1 uppercase tracking-tighter">Camera</span>
+                    </button>
+                  )}
                 </div>
-              ))}
-
-              {images.length < MAX_IMAGES && (
-                <label className="flex-shrink-0 w-20 h-20 lg:w-full lg:h-24 rounded-2xl border-2 border-dashed border-slate-800 flex flex-col items-center justify-center text-slate-500 hover:border-blue-500/50 hover:text-blue-400 cursor-pointer transition-all bg-slate-900/40 hover:bg-slate-800/40">
-                  <Plus size={24} />
-                  <span className="text-[10px] font-black mt-1 uppercase tracking-tighter">Add Photo</span>
-                  <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
-                </label>
-              )}
+              </div>
             </div>
-          </div>
-        </div>
 
-        {/* Center: Viewer */}
-        <div className="lg:col-span-6 space-y-4">
-          <div className="relative bg-slate-900 rounded-[2.5rem] shadow-2xl overflow-hidden border border-slate-800 aspect-video flex items-center justify-center group ring-1 ring-white/5">
-            {!currentImage ? (
-              <label className="flex flex-col items-center justify-center cursor-pointer w-full h-full hover:bg-slate-800/40 transition-all p-12 text-center group">
-                <div className="w-24 h-24 bg-slate-800 text-blue-500 rounded-[2rem] flex items-center justify-center mb-6 group-hover:scale-110 transition-transform shadow-inner border border-slate-700">
-                  <Upload className="w-10 h-10" />
+            {/* Center: Viewer */}
+            <div className="lg:col-span-6 space-y-4">
+              {!currentImage ? (
+                <div className="relative bg-slate-900 rounded-[2.5rem] shadow-2xl overflow-hidden border border-slate-800 aspect-video flex items-center justify-center group ring-1 ring-white/5">
+                  <label className="flex flex-col items-center justify-center cursor-pointer w-full h-full hover:bg-slate-800/40 transition-all p-12 text-center group">
+                    <div className="w-24 h-24 bg-slate-800 text-blue-500 rounded-[2rem] flex items-center justify-center mb-6 group-hover:scale-110 transition-transform shadow-inner border border-slate-700">
+                      <Upload className="w-10 h-10" />
+                    </div>
+                    <h3 className="text-2xl font-black text-white mb-2 tracking-tight">START BATCH INSPECTION</h3>
+                    <p className="text-slate-500 text-sm max-w-xs font-medium">
+                      Upload up to 20 photos. Point your finger at damage for prioritized AI analysis.
+                    </p>
+                    <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
+                  </label>
+                  {!locked && (
+                    <button
+                      onClick={() => setCameraOpen(true)}
+                      className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-2xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+                    >
+                      <Camera size={12} />
+                      Guided Camera
+                    </button>
+                  )}
                 </div>
-                <h3 className="text-2xl font-black text-white mb-2 tracking-tight">START BATCH INSPECTION</h3>
-                <p className="text-slate-500 text-sm max-w-xs font-medium">
-                  Upload up to 20 photos. Point your finger at damage for prioritized AI analysis.
-                </p>
-                <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileUpload} />
-              </label>
-            ) : (
-              <>
-                <img
-                  ref={imageRef}
+              ) : (
+                <ImageViewer
                   src={currentImage.url}
-                  className="w-full h-full object-contain"
                   alt={currentImage.name}
-                />
-
-                {/* Bounding Box Overlays */}
-                {currentImage.analysis.detections.map(det => {
-                  const [ymin, xmin, ymax, xmax] = det.boundingBox;
-                  return (
+                  className="bg-slate-900 rounded-[2.5rem] shadow-2xl border border-slate-800 aspect-video ring-1 ring-white/5"
+                  panWithPrimary={!(editMode && !locked)}
+                  focusRequest={focusRequest}
+                  overlay={
+                    /* Processing Overlay */
+                    currentImage.analysis.isAnalyzing && (
+                      <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-md flex flex-col items-center justify-center">
+                        <Loader2 className="w-12 h-12 text-blue-500 animate-spin mb-4" />
+                        <p className="font-black text-white text-lg tracking-widest uppercase">Deep Surface Scanning</p>
+                        <p className="text-slate-400 text-xs mt-1 animate-pulse font-mono tracking-tighter">
+                          {tileProgress[currentImage.id]
+                            ? `High detail tiles: ${tileProgress[currentImage.id].done}/${tileProgress[currentImage.id].total}`
+                            : 'Locating finger points & surface artifacts...'}
+                        </p>
+                      </div>
+                    )
+                  }
+                >
+                  {/* Bounding Box Overlays */}
+                  {editMode && !locked && !currentImage.analysis.isAnalyzing ? (
+                    <AnnotationEditor
+                      detections={currentImage.analysis.detections}
+                      selectedId={selectedDetectionId}
+                      onSelect={setSelectedDetectionId}
+                      onBoxChange={(id, box) => updateDetection(id, { boundingBox: box })}
+                      onCreate={createDetection}
+                    />
+                  ) : currentImage.analysis.detections.map(det => {
+                    const [ymin, xmin, ymax, xmax] = det.boundingBox;
+                    const rejectedByVerdict = isRejectedByVerdict(det);
+                    return (
+                      <div
+                        key={det.id}
+                        className={`absolute border-2 pointer-events-none transition-all duration-300 ${
+                          rejectedByVerdict
+                            ? 'border-dashed border-slate-400 bg-slate-400/5 opacity-60'
+                            : det.isConfirmedDamage
+                              ? 'border-red-500 bg-red-500/10'
+                              : 'border-yellow-400 bg-yellow-400/10'
+                        } shadow-[0_0_15px_rgba(0,0,0,0.5)]`}
+                        style={{
+                          top: `${ymin / 10}%`,
+                          left: `${xmin / 10}%`,
+                          width: `${(xmax - xmin) / 10}%`,
+                          height: `${(ymax - ymin) / 10}%`
+                        }}
+                      >
+                        <div
+                          className={`absolute top-0 left-0 -translate-y-full px-2 py-0.5 text-[9px] font-black text-white uppercase tracking-tighter rounded-t-lg flex items-center gap-1 border-t border-x border-white/20 ${
+                            rejectedByVerdict ? 'bg-slate-500' : det.isConfirmedDamage ? 'bg-red-500' : 'bg-yellow-500'
+                          }`}
+                        >
+                          {rejectedByVerdict ? <XCircle size={10} /> : det.isConfirmedDamage ? <AlertCircle size={10} /> : <Search size={10} />}
+                          {det.type}
+                          {det.inspectorIndicated && <Fingerprint size={10} />}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {/* Fingertip marker */}
+                  {!editMode && isPointing(currentImage.analysis.fingertip) && (
                     <div
-                      key={det.id}
-                      className={`absolute border-2 pointer-events-none transition-all duration-300 ${
-                        det.isConfirmedDamage ? 'border-red-500 bg-red-500/10' : 'border-yellow-400 bg-yellow-400/10'
-                      } shadow-[0_0_15px_rgba(0,0,0,0.5)]`}
+                      className="absolute pointer-events-none -translate-x-1/2 -translate-y-1/2"
                       style={{
-                        top: `${ymin / 10}%`,
-                        left: `${xmin / 10}%`,
-                        width: `${(xmax - xmin) / 10}%`,
-                        height: `${(ymax - ymin) / 10}%`
+                        top: `${currentImage.analysis.fingertip.point[0] / 10}%`,
+                        left: `${currentImage.analysis.fingertip.point[1] / 10}%`
                       }}
+                      title="Inspector's fingertip"
                     >
                       <div
-                        className={`absolute top-0 left-0 -translate-y-full px-2 py-0.5 text-[9px] font-black text-white uppercase tracking-tighter rounded-t-lg flex items-center gap-1 border-t border-x border-white/20 ${
-                          det.isConfirmedDamage ? 'bg-red-500' : 'bg-yellow-500'
+                        className={`w-6 h-6 rounded-full border-2 border-blue-400 bg-blue-500/20 flex items-center justify-center text-blue-300 ${
+                          fingertipScanId === currentImage.id ? 'animate-pulse' : ''
                         }`}
                       >
-                        {det.isConfirmedDamage ? <AlertCircle size={10} /> : <Search size={10} />}
-                        {det.type}
+                        <Fingerprint size={12} />
                       </div>
                     </div>
-                  );
-                })}
-
-                {/* Processing Overlay */}
-                {currentImage.analysis.isAnalyzing && (
-                  <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-md flex flex-col items-center justify-center">
-                    <Loader2 className="w-12 h-12 text-blue-500 animate-spin mb-4" />
-                    <p className="font-black text-white text-lg tracking-widest uppercase">Deep Surface Scanning</p>
-                    <p className="text-slate-400 text-xs mt-1 animate-pulse font-mono tracking-tighter">
-                      Locating finger points & surface artifacts...
-                    </p>
-                  </div>
-                )}
-              </>
-            )}
-          </div>
-
-          {currentImage && (
-            <div className="flex items-center gap-3">
-              <button
-                onClick={() => {
-                  const id = images[activeIndex]?.id;
-                  if (id) retryRef.current[id] = 0;
-                  updateImageAnalysis(activeIndex, { detections: [], error: undefined });
-                }}
-                disabled={currentImage.analysis.isAnalyzing}
-                className="flex-1 bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-200 font-black uppercase text-xs py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 ring-1 ring-white/5"
-              >
-                <RotateCcw className="w-4 h-4" />
-                Re-scan Photo
-              </button>
-            </div>
-          )}
-        </div>
+                  )}
+                </ImageViewer>
+              )}
 
-        {/* Right: Results Panel */}
-        <div className="lg:col-span-3 flex flex-col gap-6">
-          <div className="bg-slate-900 rounded-3xl shadow-2xl border border-slate-800 flex flex-col h-[700px] ring-1 ring-white/5">
-            <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-900/50 backdrop-blur-sm rounded-t-3xl">
-              <h2 className="text-sm font-black text-white flex items-center gap-2 uppercase tracking-widest">
-                <ImageIcon className="text-blue-500 w-4 h-4" />
-                Findings
-              </h2>
               {currentImage && (
-                <span className="px-2 py-0.5 bg-slate-800 text-slate-400 text-[10px] font-bold rounded-md border border-slate-700">
-                  {currentImage.analysis.detections.length} DETECTION(S)
-                </span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => rescanCurrentImage(false)}
+                    disabled={currentImage.analysis.isAnalyzing || locked}
+                    className="flex-1 bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-200 font-black uppercase text-xs py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 ring-1 ring-white/5"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Re-scan Photo
+                  </button>
+                  <button
+                    onClick={() => rescanCurrentImage(true)}
+                    disabled={currentImage.analysis.isAnalyzing || locked}
+                    className="flex-1 bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-200 font-black uppercase text-xs py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 ring-1 ring-white/5"
+                    title="Send to the model again, ignoring cached results"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Force Re-analyze
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditMode(!editMode);
+                      setSelectedDetectionId(null);
+                    }}
+                    disabled={currentImage.analysis.isAnalyzing || locked}
+                    className={`flex-1 border font-black uppercase text-xs py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 ring-1 ring-white/5 ${
+                      editMode
+                        ? 'bg-blue-600 border-blue-400/20 text-white hover:bg-blue-500'
+                        : 'bg-slate-900 border-slate-800 text-slate-200 hover:bg-slate-800'
+                    }`}
+                  >
+                    <PenSquare className="w-4 h-4" />
+                    {editMode ? 'Done Editing' : 'Edit Boxes'}
+                  </button>
+                  {editMode && (
+                    <>
+                      <button
+                        onClick={() => stepHistory('undo')}
+                        disabled={!histories[currentImage.id]?.past.length}
+                        title="Undo (Ctrl+Z)"
+                        className="bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-200 p-4 rounded-2xl shadow-xl transition-all disabled:opacity-30"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => stepHistory('redo')}
+                        disabled={!histories[currentImage.id]?.future.length}
+                        title="Redo (Ctrl+Shift+Z)"
+                        className="bg-slate-900 border border-slate-800 hover:bg-slate-800 text-slate-200 p-4 rounded-2xl shadow-xl transition-all disabled:opacity-30"
+                      >
+                        <Redo2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
               )}
             </div>
 
-            <div className="p-4 overflow-y-auto custom-scrollbar flex-1 space-y-4">
-              {currentImage?.analysis.error && (
-                <div className="bg-red-950/40 text-red-400 p-4 rounded-2xl border border-red-900/50 flex items-start gap-3">
-                  <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
-                  <p className="text-xs font-bold uppercase tracking-tight leading-tight">{currentImage.analysis.error}</p>
+            {/* Right: Results Panel */}
+            <div className="lg:col-span-3 flex flex-col gap-6">
+              <div className="bg-slate-900 rounded-3xl shadow-2xl border border-slate-800 flex flex-col h-[700px] ring-1 ring-white/5">
+                <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-900/50 backdrop-blur-sm rounded-t-3xl">
+                  <h2 className="text-sm font-black text-white flex items-center gap-2 uppercase tracking-widest">
+                    <ImageIcon className="text-blue-500 w-4 h-4" />
+                    Findings
+                  </h2>
+                  {currentImage && (
+                    <div className="flex items-center gap-2">
+                      {currentImage.analysis.fromCache && (
+                        <span
+                          className="flex items-center gap-1 px-2 py-0.5 bg-teal-500/10 text-teal-300 text-[10px] font-black uppercase tracking-wider rounded-md border border-teal-500/40"
+                          title={`Reused the result of ${
+                            currentImage.analysis.fromCache.match === 'exact' ? 'an identical' : 'a near-identical'
+                          } photo analyzed ${new Date(currentImage.analysis.fromCache.analyzedAt).toLocaleString()}. Use Force Re-analyze to run the model again.`}
+                        >
+                          <Database size={10} />
+                          Cached
+                        </span>
+                      )}
+                      <span className="px-2 py-0.5 bg-slate-800 text-slate-400 text-[10px] font-bold rounded-md border border-slate-700">
+                        {panelFilter && `${visibleDetections.length}/`}
+                        {currentImage.analysis.detections.length} DETECTION(S)
+                      </span>
+                    </div>
+                  )}
                 </div>
-              )}
 
-              {!currentImage ? (
-                <div className="flex flex-col items-center justify-center h-full py-16 text-slate-600 space-y-4">
-                  <div className="p-6 bg-slate-800/50 rounded-[2rem] border border-slate-700 shadow-inner">
-                    <Car className="w-10 h-10 opacity-10" />
-                  </div>
-                  <p className="text-[10px] font-black uppercase tracking-widest">Awaiting Photo Input</p>
-                </div>
-              ) : currentImage.analysis.isAnalyzing ? (
-                <div className="space-y-4">
-                  {[1, 2, 3].map(n => (
+                <div className="p-4 overflow-y-auto custom-scrollbar flex-1 space-y-4">
+                  {currentMetadata && (
                     <div
-                      key={n}
-                      className="h-28 bg-slate-800/40 rounded-2xl border border-slate-800 animate-pulse flex flex-col p-4 space-y-2"
+                      className={`p-3 rounded-2xl border text-[10px] font-mono space-y-1 ${
+                        currentImage && outsideWindow(currentImage)
+                          ? 'bg-amber-950/30 border-amber-900/50 text-amber-200'
+                          : 'bg-slate-950/40 border-slate-800 text-slate-400'
+                      }`}
                     >
-                      <div className="w-1/2 h-3 bg-slate-700 rounded-full" />
-                      <div className="w-full h-2 bg-slate-700/50 rounded-full" />
-                      <div className="w-3/4 h-2 bg-slate-700/50 rounded-full" />
+                      {currentTimeFlag && (
+                        <p className="flex items-center gap-1 font-sans font-black uppercase tracking-widest text-amber-300">
+                          <Clock size={10} />
+                          {CAPTURE_TIME_FLAG_LABELS[currentTimeFlag]}
+                        </p>
+                      )}
+                      {currentMetadata.capturedAt !== undefined && (
+                        <p>
+                          {currentMetadata.source === 'camera' ? 'Captured in app' : 'Taken'}{' '}
+                          {new Date(currentMetadata.capturedAt).toLocaleString()}
+                        </p>
+                      )}
+                      {deviceLabel(currentMetadata) && <p>{deviceLabel(currentMetadata)}</p>}
+                      {currentMetadata.gps && (
+                        <a
+                          href={mapLink(currentMetadata.gps)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                        >
+                          <MapPin size={10} />
+                          {formatGps(currentMetadata.gps)}
+                        </a>
+                      )}
+                      <p className="text-slate-500">
+                        {currentMetadata.originalSize.width}×{currentMetadata.originalSize.height} original
+                      </p>
                     </div>
-                  ))}
-                </div>
-              ) : currentImage.analysis.detections.length === 0 ? (
-                <div className="text-center py-20 space-y-4">
-                  <div className="w-16 h-16 bg-slate-800/50 text-slate-700 rounded-full flex items-center justify-center mx-auto ring-1 ring-slate-700">
-                    <Search className="w-8 h-8" />
-                  </div>
-                  <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest leading-relaxed">
-                    System Idle
-                    <br />
-                    Waiting for Analysis
-                  </p>
-                </div>
-              ) : (
-                currentImage.analysis.detections.map(det => (
-                  <div
-                    key={det.id}
-                    className="p-4 bg-slate-800/30 rounded-2xl border border-slate-800 hover:border-slate-700 transition-all group relative overflow-hidden ring-1 ring-white/5"
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        <span
-                          className={`w-2 h-2 rounded-full ${
-                            det.isConfirmedDamage
-                              ? 'bg-red-500 shadow-[0_0_8px_#ef4444]'
-                              : 'bg-yellow-400 shadow-[0_0_8px_#facc15]'
-                          }`}
-                        />
-                        <h3 className="font-black text-white text-[11px] capitalize tracking-wide">{det.type}</h3>
+                  )}
+
+                  {currentImage?.analysis.failure ? (
+                    <FailureNotice
+                      failure={currentImage.analysis.failure}
+                      onRecover={
+                        currentImage.analysis.failure.recovery === 'configure' || locked
+                          ? undefined
+                          : () => recoverImage(currentImage.id)
+                      }
+                    />
+                  ) : (
+                    currentImage?.analysis.error && (
+                      <div className="bg-red-950/40 text-red-400 p-4 rounded-2xl border border-red-900/50 flex items-start gap-3">
+                        <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+                        <p className="text-xs font-bold uppercase tracking-tight leading-tight">{currentImage.analysis.error}</p>
                       </div>
-                      <span className="text-[9px] font-mono font-bold text-slate-500">
-                        {Math.round(det.confidence * 100)}%
-                      </span>
-                    </div>
-                    <p className="text-[11px] text-slate-400 mb-4 leading-normal font-medium">{det.description}</p>
-
-                    <div className="mt-2 pt-3 border-t border-slate-700/50">
-                      <div className="flex items-center gap-2 mb-2">
-                        <ZoomIn size={12} className="text-blue-400" />
-                        <span className="text-[9px] font-black uppercase tracking-widest text-blue-400">
-                          Finger Focus Report
+                    )
+                  )}
+
+                  {currentImage?.analysis.fingertipFailure && (
+                    <FailureNotice
+                      compact
+                      failure={currentImage.analysis.fingertipFailure}
+                      onRecover={
+                        currentImage.analysis.fingertipFailure.recovery === 'configure' || locked
+                          ? undefined
+                          : () => retryFingertipFocus(currentImage.id)
+                      }
+                    />
+                  )}
+
+                  {currentImage?.analysis.rejected && currentImage.analysis.rejected.length > 0 && (
+                    <details className="bg-amber-950/30 text-amber-300 p-4 rounded-2xl border border-amber-900/50 group/rejected">
+                      <summary className="flex items-center gap-2 cursor-pointer list-none">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        <span className="text-[10px] font-black uppercase tracking-widest">
+                          {currentImage.analysis.rejected.length} Rejected Item(s)
+                        </span>
+                      </summary>
+                      <div className="mt-3 space-y-2">
+                        {currentImage.analysis.rejected.map((item, i) => (
+                          <div key={i} className="bg-slate-950/40 p-2 rounded-xl border border-amber-900/30">
+                            <p className="text-[10px] font-bold uppercase tracking-tight">{item.reasons.join(' • ')}</p>
+                            <p className="text-[9px] font-mono text-amber-200/50 break-all mt-1">{item.raw}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+
+                  {imageEstimate && (imageEstimate.confirmedCount > 0 || imageEstimate.suspectedCount > 0) && (
+                    <div className="bg-slate-800/30 p-3 rounded-2xl border border-slate-800 space-y-1">
+                      <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest">
+                        <span className="text-slate-500 flex items-center gap-1">
+                          <Wrench size={10} className="text-blue-400" />
+                          Photo Estimate
+                        </span>
+                        <span className="text-white font-mono">{money(imageEstimate.confirmedCost)}</span>
+                      </div>
+                      {imageEstimate.suspectedCount > 0 && (
+                        <p className="text-[9px] font-mono text-yellow-400/80 text-right">
+                          +{money(imageEstimate.suspectedCost)} if {imageEstimate.suspectedCount} suspected confirmed
+                        </p>
+                      )}
+                      <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest pt-1 border-t border-slate-800">
+                        <span className="text-slate-500">Inspection Total</span>
+                        <span className="text-slate-300 font-mono">
+                          {money(inspectionEstimate.confirmedCost)} • {inspectionEstimate.confirmedHours}h
                         </span>
                       </div>
+                    </div>
+                  )}
 
-                      {zoomingId === det.id ? (
-                        <div className="flex items-center gap-2 text-blue-400 text-[10px] font-bold animate-pulse">
-                          <Loader2 className="w-3 h-3 animate-spin" />
-                          CONFIRMING TEXTURE...
+                  {!currentImage ? (
+                    <div className="flex flex-col items-center justify-center h-full py-16 text-slate-600 space-y-4">
+                      <div className="p-6 bg-slate-800/50 rounded-[2rem] border border-slate-700 shadow-inner">
+                        <Car className="w-10 h-10 opacity-10" />
+                      </div>
+                      <p className="text-[10px] font-black uppercase tracking-widest">Awaiting Photo Input</p>
+                    </div>
+                  ) : currentImage.analysis.isAnalyzing ? (
+                    <div className="space-y-4">
+                      {[1, 2, 3].map(n => (
+                        <div
+                          key={n}
+                          className="h-28 bg-slate-800/40 rounded-2xl border border-slate-800 animate-pulse flex flex-col p-4 space-y-2"
+                        >
+                          <div className="w-1/2 h-3 bg-slate-700 rounded-full" />
+                          <div className="w-full h-2 bg-slate-700/50 rounded-full" />
+                          <div className="w-3/4 h-2 bg-slate-700/50 rounded-full" />
                         </div>
-                      ) : det.zoomAnalysis ? (
-                        <div className="bg-blue-950/30 p-3 rounded-xl border border-blue-900/30">
-                          <p className="text-[11px] text-blue-200/80 leading-relaxed font-medium">{det.zoomAnalysis}</p>
+                      ))}
+                    </div>
+                  ) : currentImage.analysis.detections.length === 0 ? (
+                    <div className="text-center py-20 space-y-4">
+                      <div className="w-16 h-16 bg-slate-800/50 text-slate-700 rounded-full flex items-center justify-center mx-auto ring-1 ring-slate-700">
+                        <Search className="w-8 h-8" />
+                      </div>
+                      <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest leading-relaxed">
+                        System Idle
+                        <br />
+                        Waiting for Analysis
+                      </p>
+                    </div>
+                  ) : (
+                    visibleDetections.map(det => (
+                      <div
+                        key={det.id}
+                        onClick={() => {
+                          // zoom to finding ทุกครั้งที่กดการ์ด
+                          setFocusRequest({ box: det.boundingBox, nonce: Date.now() });
+                          if (editMode) setSelectedDetectionId(det.id);
+                        }}
+                        className={`p-4 bg-slate-800/30 rounded-2xl border transition-all group relative overflow-hidden ring-1 ring-white/5 ${
+                          editMode && selectedDetectionId === det.id
+                            ? 'border-blue-500/60'
+                            : 'border-slate-800 hover:border-slate-700'
+                        } cursor-pointer`}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <span
+                              className={`w-2 h-2 rounded-full ${
+                                det.isConfirmedDamage
+                                  ? 'bg-red-500 shadow-[0_0_8px_#ef4444]'
+                                  : 'bg-yellow-400 shadow-[0_0_8px_#facc15]'
+                              }`}
+                            />
+                            <h3 className="font-black text-white text-[11px] capitalize tracking-wide">{det.type}</h3>
+                            {det.inspectorIndicated && (
+                              <span className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-blue-300">
+                                <Fingerprint size={10} />
+                                {INSPECTOR_INDICATED_LABEL}
+                              </span>
+                            )}
+                            {isHumanVerified(det) && (
+                              <span
+                                className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-400"
+                                title={det.provenance?.editedAt ? `Edited ${new Date(det.provenance.editedAt).toLocaleString()}` : undefined}
+                              >
+                                <UserCheck size={10} />
+                                {detectionOrigin(det) === 'human' ? 'Human' : 'Verified'}
+                              </span>
+                            )}
+                          </div>
+                          <span className="text-[9px] font-mono font-bold text-slate-500">
+                            {Math.round(det.confidence * 100)}%
+                          </span>
                         </div>
-                      ) : (
-                        <span className="text-[9px] text-slate-500 font-bold uppercase tracking-tight">
-                          Verified by Scan
-                        </span>
-                      )}
+                        <p className={`text-[9px] font-black uppercase tracking-widest mb-2 ${det.panel ? 'text-blue-300/80' : 'text-slate-600'}`}>
+                          {panelLabel(det.panel)}
+                        </p>
+                        {modelProvenance(det) && (
+                          <p className="text-[8px] font-mono text-slate-600 mb-2 -mt-1">{modelProvenance(det)}</p>
+                        )}
+
+                        {det.multiAngle && (
+                          <div
+                            className={`mb-2 p-2 rounded-xl border space-y-1.5 ${
+                              det.multiAngle.outcome === 'consistent'
+                                ? 'bg-emerald-500/5 border-emerald-500/30 text-emerald-300'
+                                : 'bg-amber-500/5 border-amber-500/30 text-amber-300'
+                            }`}
+                            onClick={e => e.stopPropagation()}
+                          >
+                            <p className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest">
+                              <Layers size={10} />
+                              {multiAngleSummary(det.multiAngle)}
+                            </p>
+                            {(det.multiAngle.before.type !== det.type ||
+                              det.multiAngle.before.confidence !== det.confidence) && (
+                              <p className="text-[9px] font-mono text-slate-400">
+                                {det.multiAngle.before.type !== det.type && (
+                                  <>
+                                    <span className="line-through">{det.multiAngle.before.type}</span> →{' '}
+                                    <span className="text-slate-200">{det.type}</span>{' '}
+                                  </>
+                                )}
+                                <span className="line-through">{Math.round(det.multiAngle.before.confidence * 100)}%</span> →{' '}
+                                <span className="text-slate-200">{Math.round(det.confidence * 100)}%</span>
+                              </p>
+                            )}
+                            <div className="flex flex-wrap gap-1">
+                              {det.multiAngle.evidence.map(ev => {
+                                const idx = images.findIndex(img => img.id === ev.imageId);
+                                if (idx === -1) return null;
+                                return (
+                                  <button
+                                    key={ev.imageId}
+                                    onClick={() => setActiveIndex(idx)}
+                                    className="px-1.5 py-0.5 rounded-md bg-slate-900/80 border border-slate-700 text-[8px] font-bold text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+                                    title="Open this photo"
+                                  >
+                                    {images[idx].shot?.label ?? images[idx].name} • {MULTI_ANGLE_RELATION_LABELS[ev.relation]}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
+
+                        {editMode && selectedDetectionId === det.id ? (
+                          <div className="space-y-2 mb-4" onClick={e => e.stopPropagation()}>
+                            <select
+                              value={det.type}
+                              onChange={e => updateDetection(det.id, { type: e.target.value as DamageType })}
+                              className="w-full bg-slate-950/60 border border-slate-700 rounded-xl px-2 py-1.5 text-[11px] text-slate-200 capitalize focus:outline-none focus:border-blue-500/60"
+                            >
+                              {DAMAGE_TYPES.map(t => (
+                                <option key={t} value={t}>
+                                  {t}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={det.panel ?? ''}
+                              onChange={e => updateDetection(det.id, { panel: (e.target.value || undefined) as CarPanel | undefined })}
+                              className="w-full bg-slate-950/60 border border-slate-700 rounded-xl px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-blue-500/60"
+                            >
+                              <option value="">Panel: unassigned</option>
+                              {CAR_PANELS.map(panel => (
+                                <option key={panel} value={panel}>
+                                  {CAR_PANEL_LABELS[panel]}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={det.severity ?? ''}
+                              onChange={e => updateDetection(det.id, { severity: (e.target.value || undefined) as Severity | undefined })}
+                              className="w-full bg-slate-950/60 border border-slate-700 rounded-xl px-2 py-1.5 text-[11px] text-slate-200 capitalize focus:outline-none focus:border-blue-500/60"
+                            >
+                              <option value="">Severity: auto (box size)</option>
+                              {SEVERITIES.map(sev => (
+                                <option key={sev} value={sev}>
+                                  {sev}
+                                </option>
+                              ))}
+                            </select>
+                            <textarea
+                              key={`${det.id}-${det.description}`}
+                              defaultValue={det.description}
+                              rows={3}
+                              // commit ตอน blur → 1 การแก้ = 1 step ใน undo
+                              onBlur={e => {
+                                if (e.target.value !== det.description) {
+                                  updateDetection(det.id, { description: e.target.value });
+                                }
+                              }}
+                              className="w-full bg-slate-950/60 border border-slate-700 rounded-xl px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-blue-500/60 resize-none"
+                            />
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => updateDetection(det.id, { isConfirmedDamage: !det.isConfirmedDamage })}
+                                className={`flex-1 text-[9px] font-black uppercase tracking-widest py-1.5 rounded-xl border transition-colors ${
+                                  det.isConfirmedDamage
+                                    ? 'bg-red-500/10 border-red-500/40 text-red-300'
+                                    : 'bg-yellow-500/10 border-yellow-500/40 text-yellow-300'
+                                }`}
+                              >
+                                {det.isConfirmedDamage ? 'Confirmed' : 'Suspected'}
+                              </button>
+                              {!isHumanVerified(det) && (
+                                <button
+                                  onClick={() => updateDetection(det.id, {})}
+                                  title="Mark as verified without changes"
+                                  className="p-1.5 rounded-xl bg-slate-800 border border-slate-700 text-emerald-400 hover:bg-slate-700 transition-colors"
+                                >
+                                  <UserCheck size={12} />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => deleteDetection(det.id)}
+                                title="Delete (false positive)"
+                                className="p-1.5 rounded-xl bg-slate-800 border border-slate-700 text-red-400 hover:bg-red-950/60 transition-colors"
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-[11px] text-slate-400 mb-2 leading-normal font-medium">{det.description}</p>
+                        )}
+
+                        <DetectionEstimate
+                          assessment={assessDetection(det, priceTable, imageAspect(currentImage))}
+                          priceTable={priceTable}
+                        />
+
+                        <div className="mt-2 pt-3 border-t border-slate-700/50">
+                          <div className="flex items-center gap-2 mb-2">
+                            <ZoomIn size={12} className="text-blue-400" />
+                            <span className="text-[9px] font-black uppercase tracking-widest text-blue-400">
+                              Finger Focus Report
+                            </span>
+                          </div>
+
+                          {zoomingIds.includes(det.id) ? (
+                            <div className="flex items-center gap-2 text-blue-400 text-[10px] font-bold animate-pulse">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              CONFIRMING TEXTURE...
+                            </div>
+                          ) : det.verifyFailure ? (
+                            <FailureNotice
+                              compact
+                              failure={det.verifyFailure}
+                              onRecover={
+                                locked || !currentImage || !['retry_now', 'retry_at'].includes(det.verifyFailure.recovery)
+                                  ? undefined
+                                  : () => retryVerification(currentImage.id, det)
+                              }
+                            />
+                          ) : det.zoomVerdict ? (
+                            <div className="bg-blue-950/30 p-3 rounded-xl border border-blue-900/30 space-y-2">
+                              <div className="flex items-center gap-2">
+                                <span
+                                  className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-lg border ${VERDICT_BADGE[det.zoomVerdict.verdict]}`}
+                                >
+                                  {VERDICT_LABELS[det.zoomVerdict.verdict]}
+                                </span>
+                                {det.zoomVerdict.severity && (
+                                  <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                                    {det.zoomVerdict.severity}
+                                  </span>
+                                )}
+                                {det.zoomVerdict.model && (
+                                  <span className="ml-auto text-[8px] font-mono text-slate-500">{det.zoomVerdict.model}</span>
+                                )}
+                              </div>
+                              <p className="text-[11px] text-blue-200/80 leading-relaxed font-medium">{det.zoomVerdict.rationale}</p>
+                              {describeVerdictChanges(det).map(change => (
+                                <p key={change.field} className="text-[9px] font-mono text-slate-400">
+                                  <span className="uppercase font-black text-slate-500">{change.field}</span>{' '}
+                                  <span className="line-through">{change.before}</span> → <span className="text-slate-200">{change.after}</span>
+                                </p>
+                              ))}
+                            </div>
+                          ) : det.zoomAnalysis ? (
+                            <div className="bg-blue-950/30 p-3 rounded-xl border border-blue-900/30">
+                              <p className="text-[11px] text-blue-200/80 leading-relaxed font-medium">{det.zoomAnalysis}</p>
+                            </div>
+                          ) : (
+                            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-tight">
+                              Verified by Scan
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="p-5 bg-slate-950/50 border-t border-slate-800 rounded-b-3xl">
+                  <div className="flex items-center justify-between text-[8px] text-slate-500 uppercase font-black tracking-[0.2em]">
+                    <div className="flex items-center gap-2">
+                      <Fingerprint size={10} className="text-blue-500" />
+                      <span>Agentic Focus Active</span>
                     </div>
+                    <span>{detector.label} • v3.0 PRO</span>
                   </div>
-                ))
-              )}
-            </div>
-
-            <div className="p-5 bg-slate-950/50 border-t border-slate-800 rounded-b-3xl">
-              <div className="flex items-center justify-between text-[8px] text-slate-500 uppercase font-black tracking-[0.2em]">
-                <div className="flex items-center gap-2">
-                  <Fingerprint size={10} className="text-blue-500" />
-                  <span>Agentic Focus Active</span>
                 </div>
-                <span>v3.0 PRO</span>
               </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
 
       <footer className="mt-12 text-slate-600 text-[10px] pb-10 flex items-center gap-6 font-black uppercase tracking-[0.3em]">
         <span>AI VISUAL INSPECTOR PRO</span>
@@ -0,0 +1,283 @@
+// cli/batchAnalyze.ts
+// วิเคราะห์รูปทั้ง folder แบบ headless: npm run analyze -- <folder|glob|file>... [--out dir]
+// ใช้ pipeline เดียวกับ server (createGeminiBackend → ThrottleQueue + withRetry + quota)
+// ผลต่อรูปเขียนทันทีที่เสร็จ → Ctrl+C แล้วรันคำสั่งเดิมซ้ำ จะทำต่อเฉพาะรูปที่ยังไม่ผ่าน
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { isAbortError, JOB_PRIORITY } from "../services/rateLimit";
+import { AnalysisError, toAnalysisError, UnparseableResponseError } from "../services/analysisErrors";
+import { PROMPT_VERSION } from "../services/prompts";
+import { applyZoomVerdict } from "../services/zoomVerdict";
+import { formatModelChain } from "../services/modelChain";
+import { createGeminiBackend, geminiConfigFromEnv } from "../server/gemini";
+import { jpegSize, resolveInputs, ResultStore, sha256, writeSummary, type BatchImageResult } from "./batchIo";
+
+const USAGE = `Usage: npm run analyze -- <folder|glob|file>... [options]
+
+Options:
+  -o, --out <dir>     output folder (default: analysis-out)
+  -r, --recursive     include sub-folders of folder arguments
+      --verify        re-check suspected detections with a second (zoom) pass
+      --force         re-analyze images that already have a result
+  -h, --help          show this help
+
+Examples:
+  npm run analyze -- ./photos/job-42 --out ./reports/job-42
+  npm run analyze -- "photos/**/*.{jpg,jpeg}" --verify
+
+Exit code: 0 = all images analyzed, 1 = some images failed, 2 = bad arguments, 130 = interrupted.`;
+
+// error ที่รูปถัดไปก็จะเจอเหมือนกัน → หยุดทั้ง batch แทนการ fail ทุกรูปที่เหลือ
+// (runWithFallback ลอง model อื่นใน chain ให้แล้ว → ที่หลุดมาถึงนี่ = หมดทุกตัว)
+const isBatchStop = (err: AnalysisError) =>
+  err.kind === "quota_exhausted" || err.kind === "missing_key" || err.kind === "model_unavailable";
+
+// รูปที่อ่าน/แปลง base64 ไว้รอคิวพร้อมกัน (คิวจริงยิงทีละ request อยู่แล้ว)
+const IN_FLIGHT = 2;
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // ไม่มีไฟล์ → ใช้ env ของ process อย่างเดียว
+}
+
+function parseCli() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o", default: "analysis-out" },
+        recursive: { type: "boolean", short: "r", default: false },
+        verify: { type: "boolean", default: false },
+        force: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+}
+
+// ----------------------------
+// progress (TTY = บรรทัดเดียวอัปเดตไปเรื่อย ๆ, pipe/CI = บรรทัดละรูป)
+// ----------------------------
+class Progress {
+  ok = 0;
+  failed = 0;
+  skipped = 0;
+  private readonly startedAt = Date.now();
+  private readonly tty = Boolean(process.stderr.isTTY);
+  private current = "";
+
+  constructor(private readonly total: number) {}
+
+  private get done() {
+    return this.ok + this.failed + this.skipped;
+  }
+
+  private eta(): string {
+    const analyzed = this.ok + this.failed;
+    const left = this.total - this.done;
+    if (analyzed === 0 || left === 0) return "";
+    const seconds = Math.round(((Date.now() - this.startedAt) / analyzed) * left / 1000);
+    return ` · ETA ${seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`}`;
+  }
+
+  private render() {
+    if (!this.tty) return;
+    const pct = this.total ? Math.floor((this.done / this.total) * 100) : 100;
+    const line = `[${this.done}/${this.total}] ${pct}% · ok ${this.ok} · failed ${this.failed} · skipped ${this.skipped}${this.eta()}${this.current ? ` · ${this.current}` : ""}`;
+    process.stderr.write(`\r\x1b[2K${line.slice(0, (process.stderr.columns || 120) - 1)}`);
+  }
+
+  start(file: string) {
+    this.current = file;
+    this.render();
+  }
+
+  finish(file: string, outcome: "ok" | "failed" | "skipped", note = "") {
+    this[outcome] += 1;
+    if (!this.tty) console.error(`[${this.done}/${this.total}] ${outcome.padEnd(7)} ${file}${note ? ` — ${note}` : ""}`);
+    else if (outcome === "failed") process.stderr.write(`\r\x1b[2Kfailed  ${file} — ${note}\n`);
+    this.current = "";
+    this.render();
+  }
+
+  end() {
+    if (this.tty) process.stderr.write("\n");
+  }
+}
+
+// ----------------------------
+// main
+// ----------------------------
+async function main(): Promise<number> {
+  const { values, positionals } = parseCli();
+  if (values.help || positionals.length === 0) {
+    console.error(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const outDir = path.resolve(values.out);
+  let files: string[];
+  try {
+    files = await resolveInputs(positionals, values.recursive, outDir);
+  } catch (err) {
+    console.error((err as Error).message);
+    return 2;
+  }
+  if (files.length === 0) {
+    console.error("No JPEG images matched the given paths.");
+    return 2;
+  }
+
+  const config = geminiConfigFromEnv();
+  const gemini = createGeminiBackend(config);
+  const store = new ResultStore(outDir);
+  await store.load();
+  console.error(
+    `Models: detect ${formatModelChain(gemini.chains.detect)}${
+      values.verify ? `, verify ${formatModelChain(gemini.chains.verify)} (up to ${gemini.zoomBatchSize} regions per request)` : ""
+    }`
+  );
+
+  const progress = new Progress(files.length);
+  const hashes: string[] = [];
+  const controller = new AbortController();
+  // quota หมด / ไม่มี key → หยุดหยิบรูปใหม่ (รูปที่เหลือไม่นับว่า fail, รันคำสั่งเดิมซ้ำหลัง reset)
+  let stopReason: AnalysisError | null = null;
+
+  const onSigint = () => {
+    if (controller.signal.aborted) process.exit(130); // กดซ้ำ = ออกทันที
+    console.error("\nInterrupted — finishing up and writing results (Ctrl+C again to quit now)…");
+    controller.abort();
+  };
+  process.on("SIGINT", onSigint);
+
+  async function analyzeFile(file: string): Promise<void> {
+    const rel = path.relative(process.cwd(), file);
+    const bytes = await readFile(file);
+    const hash = sha256(bytes);
+    hashes.push(hash);
+
+    const previous = store.get(hash);
+    // --verify → รูปที่ยังไม่เคย verify หรือ verify บางจุดพัง ต้องทำใหม่
+    const verifyPending =
+      values.verify && (!previous?.verified || previous.detections.some((det) => det.verifyFailure));
+    if (
+      !values.force &&
+      !verifyPending &&
+      previous?.status === "ok" &&
+      previous.model === gemini.model &&
+      previous.promptVersion === PROMPT_VERSION
+    ) {
+      progress.finish(rel, "skipped");
+      return;
+    }
+
+    const size = jpegSize(bytes);
+    const result: BatchImageResult = {
+      file: rel,
+      sha256: hash,
+      status: "ok",
+      finishedAt: "",
+      model: gemini.model,
+      promptVersion: PROMPT_VERSION,
+      verified: values.verify,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      detections: [],
+      rejected: [],
+      fingertip: null,
+      error: null,
+    };
+
+    progress.start(rel);
+    try {
+      const image = bytes.toString("base64");
+      const opts = { signal: controller.signal, priority: JOB_PRIORITY.background };
+      const parsed = await gemini.analyzeImage(image, undefined, opts);
+      result.detections = parsed.detections;
+      result.rejected = parsed.rejected;
+      result.fingertip = parsed.fingertip ?? null;
+
+      // Node ไม่มี canvas → ส่งรูปเต็มครั้งเดียว + box ของทุกจุดที่ยังไม่ confirmed ใน prompt
+      // (crop = ทั้งรูป, refinedBox เทียบกับทั้งรูปอยู่แล้ว; แบ่ง request ตาม ZOOM_BATCH_SIZE)
+      const suspects = result.detections.filter((det) => !det.isConfirmedDamage);
+      if (values.verify && size && suspects.length > 0) {
+        const crop = { sx: 0, sy: 0, sw: size.width, sh: size.height };
+        try {
+          const verdicts = await gemini.verifyRegions(image, suspects, opts);
+          result.detections = result.detections.map((det) => {
+            const i = suspects.indexOf(det);
+            if (i < 0) return det;
+            const verdict = verdicts[i];
+            return verdict
+              ? applyZoomVerdict(det, verdict, crop, size.width, size.height)
+              : { ...det, verifyFailure: new UnparseableResponseError("The model's answer skipped this detection.").toFailure() };
+          });
+        } catch (err) {
+          // verify พังไม่ทำให้ทั้งรูป fail (ยกเว้นต้องหยุดทั้ง batch)
+          if (isAbortError(err) || isBatchStop(toAnalysisError(err))) throw err;
+          const verifyFailure = toAnalysisError(err).toFailure();
+          result.detections = result.detections.map((det) => (suspects.includes(det) ? { ...det, verifyFailure } : det));
+        }
+      }
+    } catch (err) {
+      if (isAbortError(err)) return; // ไม่บันทึก → รอบหน้าทำรูปนี้ใหม่
+      const failure = toAnalysisError(err);
+      if (isBatchStop(failure)) {
+        // ไม่ใช่ความผิดของรูปนี้ → ไม่บันทึกเป็น failed, ทำต่อรอบหน้า
+        stopReason ??= failure;
+        return;
+      }
+      result.status = "failed";
+      result.error = { kind: failure.kind, message: failure.message };
+    }
+
+    result.finishedAt = new Date().toISOString();
+    // --force แล้วพัง (เช่น quota หมด) → เก็บผลเดิมที่ผ่านแล้วไว้ ไม่เขียนทับด้วย error
+    if (result.status === "ok" || previous?.status !== "ok") await store.save(result);
+    progress.finish(rel, result.status, result.error?.message);
+  }
+
+  // pool เล็ก ๆ: worker ดึงไฟล์ถัดไปจากรายการเดียวกัน
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length && !controller.signal.aborted && !stopReason) {
+      await analyzeFile(files[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IN_FLIGHT, files.length) }, worker));
+  progress.end();
+  process.off("SIGINT", onSigint);
+
+  const results = store.pick(hashes);
+  const written = await writeSummary(outDir, results);
+  const detections = results.reduce((sum, r) => sum + r.detections.length, 0);
+  console.log(
+    `${results.length} image(s): ${progress.ok} analyzed, ${progress.skipped} already done, ${progress.failed} failed · ${detections} detection(s)`
+  );
+  console.log(`Results: ${written.map((p) => path.relative(process.cwd(), p)).join(", ")}`);
+  if (stopReason) {
+    const left = files.length - progress.ok - progress.failed - progress.skipped;
+    const when = stopReason.retryAt ? ` after ${new Date(stopReason.retryAt).toLocaleString()}` : "";
+    console.error(`Paused: ${stopReason.message} ${left} image(s) not analyzed — run the same command again${when}.`);
+  }
+
+  if (controller.signal.aborted) {
+    console.error("Interrupted — run the same command again to resume.");
+    return 130;
+  }
+  return stopReason || progress.failed > 0 || results.some((r) => r.status === "failed") ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error("[analyze] unexpected error:", err);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,241 @@
+// cli/batchIo.ts
+// input (folder/glob) + ผลต่อรูป (resume) + JSON/CSV ของ batch analyzer
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AnalysisErrorKind, DamageDetection, FingertipLocation, RejectedDetection } from "../types";
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg"]; // pipeline ส่งเป็น image/jpeg เหมือนฝั่ง browser
+
+// ----------------------------
+// inputs
+// ----------------------------
+// glob แบบพอใช้: ** = หลายชั้น, * / ? = ในชั้นเดียว, {a,b} = ทางเลือก
+export function globToRegExp(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      re += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else if (c === "{") re += "(?:";
+    else if (c === "}") re += ")";
+    else if (c === "," && re.lastIndexOf("(?:") > re.lastIndexOf(")")) re += "|";
+    else re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+const isGlob = (arg: string) => /[*?{]/.test(arg);
+
+async function walk(dir: string, recursive: boolean): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && !entry.name.startsWith(".")) files.push(...(await walk(full, recursive)));
+    } else if (entry.isFile()) files.push(full);
+  }
+  return files;
+}
+
+const isImage = (file: string) => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase());
+
+/**
+ * arg แต่ละตัว = ไฟล์ / folder / glob → รายการไฟล์ JPEG (ไม่ซ้ำ, เรียงตาม path)
+ * `ignoreDir` = โฟลเดอร์ผลลัพธ์ (ไม่เอาไฟล์ในนั้นมาวิเคราะห์ซ้ำ)
+ */
+export async function resolveInputs(args: string[], recursive: boolean, ignoreDir?: string): Promise<string[]> {
+  const found = new Set<string>();
+  for (const arg of args) {
+    if (isGlob(arg)) {
+      // เดินจากส่วนที่ไม่มี wildcard แล้วเทียบ path ที่เหลือกับ pattern
+      const parts = arg.split(/[\\/]/);
+      const firstGlob = parts.findIndex(isGlob);
+      const base = parts.slice(0, firstGlob).join("/") || ".";
+      const matcher = globToRegExp(parts.slice(firstGlob).join("/"));
+      const deep = parts.slice(firstGlob).some((p) => p.includes("**") || p === "") || parts.length - firstGlob > 1;
+      for (const file of await walk(base, deep)) {
+        if (matcher.test(path.relative(base, file).split(path.sep).join("/")) && isImage(file)) found.add(path.resolve(file));
+      }
+      continue;
+    }
+    const info = await stat(arg).catch(() => null);
+    if (!info) throw new Error(`No such file or directory: ${arg}`);
+    if (info.isDirectory()) {
+      for (const file of await walk(arg, recursive)) if (isImage(file)) found.add(path.resolve(file));
+    } else if (isImage(arg)) found.add(path.resolve(arg));
+  }
+  const ignore = ignoreDir ? path.resolve(ignoreDir) + path.sep : null;
+  return [...found].filter((file) => !ignore || !file.startsWith(ignore)).sort();
+}
+
+// ขนาดรูปจาก SOF marker (ไม่ต้อง decode ทั้งรูป)
+export function jpegSize(bytes: Buffer): { width: number; height: number } | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let pos = 2;
+  while (pos + 9 < bytes.length) {
+    if (bytes[pos] !== 0xff) return null;
+    const marker = bytes[pos + 1];
+    // SOF0..SOF15 ยกเว้น DHT(C4) / JPG(C8) / DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: bytes.readUInt16BE(pos + 5), width: bytes.readUInt16BE(pos + 7) };
+    }
+    pos += 2 + bytes.readUInt16BE(pos + 2);
+  }
+  return null;
+}
+
+export const sha256 = (bytes: Buffer) => createHash("sha256").update(bytes).digest("hex");
+
+// ----------------------------
+// results (1 ไฟล์ JSON ต่อรูป → หยุดกลางทางแล้วรันต่อได้)
+// ----------------------------
+export interface BatchImageResult {
+  file: string; // path เทียบกับ cwd
+  sha256: string;
+  status: "ok" | "failed";
+  finishedAt: string;
+  model: string; // model หลักของ detect chain (ตัวที่ตอบจริงอยู่ใน detection.model)
+  promptVersion: number;
+  verified: boolean; // รันด้วย --verify (verify ที่พังเก็บไว้ใน detection.verifyFailure)
+  width: number | null;
+  height: number | null;
+  detections: DamageDetection[];
+  rejected: RejectedDetection[];
+  fingertip: FingertipLocation | null;
+  error: { kind: AnalysisErrorKind; message: string } | null;
+}
+
+export class ResultStore {
+  private readonly dir: string;
+  private readonly results = new Map<string, BatchImageResult>(); // key = sha256
+
+  constructor(readonly outDir: string) {
+    this.dir = path.join(outDir, "images");
+  }
+
+  async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        const result = JSON.parse(await readFile(path.join(this.dir, name), "utf8")) as BatchImageResult;
+        if (result?.sha256) this.results.set(result.sha256, result);
+      } catch {
+        // ไฟล์เสีย (หยุดระหว่างเขียน) → รูปนั้นรันใหม่
+      }
+    }
+  }
+
+  get(hash: string): BatchImageResult | undefined {
+    return this.results.get(hash);
+  }
+
+  async save(result: BatchImageResult): Promise<void> {
+    this.results.set(result.sha256, result);
+    await writeFile(path.join(this.dir, `${result.sha256.slice(0, 16)}.json`), JSON.stringify(result, null, 2));
+  }
+
+  // เฉพาะรูปใน input รอบนี้ (รูปที่ถูกลบออกจาก folder ไม่ติดไปใน summary)
+  pick(hashes: string[]): BatchImageResult[] {
+    return hashes.flatMap((hash) => this.results.get(hash) ?? []);
+  }
+}
+
+// ----------------------------
+// JSON / CSV
+// ----------------------------
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value) ? value.join(" ") : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+
+export async function writeSummary(outDir: string, results: BatchImageResult[]): Promise<string[]> {
+  const jsonPath = path.join(outDir, "results.json");
+  const imagesCsv = path.join(outDir, "images.csv");
+  const detectionsCsv = path.join(outDir, "detections.csv");
+
+  await writeFile(
+    jsonPath,
+    JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        images: results.length,
+        failed: results.filter((r) => r.status === "failed").length,
+        results,
+      },
+      null,
+      2
+    )
+  );
+
+  await writeFile(
+    imagesCsv,
+    toCsv(
+      ["file", "status", "detections", "confirmed", "width", "height", "model", "prompt_version", "finished_at", "error_kind", "error"],
+      results.map((r) => [
+        r.file,
+        r.status,
+        r.detections.length,
+        r.detections.filter((d) => d.isConfirmedDamage).length,
+        r.width,
+        r.height,
+        r.model,
+        r.promptVersion,
+        r.finishedAt,
+        r.error?.kind,
+        r.error?.message,
+      ])
+    )
+  );
+
+  await writeFile(
+    detectionsCsv,
+    toCsv(
+      [
+        "file",
+        "detection_id",
+        "type",
+        "panel",
+        "confidence",
+        "confirmed",
+        "severity",
+        "box_ymin_xmin_ymax_xmax",
+        "verdict",
+        "verify_error",
+        "model",
+        "prompt_version",
+        "verify_model",
+        "description",
+      ],
+      results.flatMap((r) =>
+        r.detections.map((d) => [
+          r.file,
+          d.id,
+          d.type,
+          d.panel,
+          d.confidence,
+          d.isConfirmedDamage,
+          d.severity,
+          d.boundingBox,
+          d.zoomVerdict?.verdict,
+          d.verifyFailure?.message,
+          d.model,
+          d.promptVersion,
+          d.zoomVerdict?.model,
+          d.description,
+        ])
+      )
+    )
+  );
+
+  return [jsonPath, imagesCsv, detectionsCsv];
+}
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { DamageDetection } from '../types';
+import { boxFromPoints, isBoxTooSmall } from '../services/annotation';
+
+type Box = DamageDetection['boundingBox'];
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+
+type DragState =
+  | { mode: 'create'; startY: number; startX: number; draft: Box }
+  | { mode: 'move'; id: string; startY: number; startX: number; origin: Box; draft: Box }
+  | { mode: 'resize'; id: string; handle: Handle; origin: Box; draft: Box };
+
+interface AnnotationEditorProps {
+  detections: DamageDetection[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // เรียกตอนปล่อยเมาส์เท่านั้น (1 drag = 1 step ใน undo history)
+  onBoxChange: (id: string, box: Box) => void;
+  onCreate: (box: Box) => void;
+}
+
+const HANDLES: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+const HANDLE_POSITION: Record<Handle, string> = {
+  nw: '-top-1.5 -left-1.5 cursor-nwse-resize',
+  ne: '-top-1.5 -right-1.5 cursor-nesw-resize',
+  sw: '-bottom-1.5 -left-1.5 cursor-nesw-resize',
+  se: '-bottom-1.5 -right-1.5 cursor-nwse-resize'
+};
+
+function moveBox(box: Box, dy: number, dx: number): Box {
+  const [ymin, xmin, ymax, xmax] = box;
+  // กันไม่ให้ลากหลุดขอบรูป
+  const cdy = Math.min(1000 - ymax, Math.max(-ymin, dy));
+  const cdx = Math.min(1000 - xmax, Math.max(-xmin, dx));
+  return [ymin + cdy, xmin + cdx, ymax + cdy, xmax + cdx].map(Math.round) as Box;
+}
+
+function resizeBox(box: Box, handle: Handle, y: number, x: number): Box {
+  const [ymin, xmin, ymax, xmax] = box;
+  const top = handle === 'nw' || handle === 'ne';
+  const left = handle === 'nw' || handle === 'sw';
+  return boxFromPoints(top ? y : ymin, left ? x : xmin, top ? ymax : y, left ? xmax : x);
+}
+
+/**
+ * Overlay สำหรับแก้ box: วาดใหม่ (ลากบนพื้นที่ว่าง), ลากย้าย, ลากมุมเพื่อ resize
+ * พิกัดอิงกับขนาดของ overlay เอง (0..1000 เต็มกรอบ)
+ */
+export default function AnnotationEditor({
+  detections,
+  selectedId,
+  onSelect,
+  onBoxChange,
+  onCreate
+}: AnnotationEditorProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const toLocal = (e: React.PointerEvent): { y: number; x: number } => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      y: ((e.clientY - rect.top) / Math.max(1, rect.height)) * 1000,
+      x: ((e.clientX - rect.left) / Math.max(1, rect.width)) * 1000
+    };
+  };
+
+  const capture = (e: React.PointerEvent) => {
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const startCreate = (e: React.PointerEvent) => {
+    if (e.target !== overlayRef.current) return;
+    const { y, x } = toLocal(e);
+    capture(e);
+    onSelect(null);
+    setDrag({ mode: 'create', startY: y, startX: x, draft: boxFromPoints(y, x, y, x) });
+  };
+
+  const startMove = (e: React.PointerEvent, det: DamageDetection) => {
+    e.stopPropagation();
+    const { y, x } = toLocal(e);
+    capture(e);
+    onSelect(det.id);
+    setDrag({ mode: 'move', id: det.id, startY: y, startX: x, origin: det.boundingBox, draft: det.boundingBox });
+  };
+
+  const startResize = (e: React.PointerEvent, det: DamageDetection, handle: Handle) => {
+    e.stopPropagation();
+    capture(e);
+    setDrag({ mode: 'resize', id: det.id, handle, origin: det.boundingBox, draft: det.boundingBox });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { y, x } = toLocal(e);
+    if (drag.mode === 'create') {
+      setDrag({ ...drag, draft: boxFromPoints(drag.startY, drag.startX, y, x) });
+    } else if (drag.mode === 'move') {
+      setDrag({ ...drag, draft: moveBox(drag.origin, y - drag.startY, x - drag.startX) });
+    } else {
+      setDrag({ ...drag, draft: resizeBox(drag.origin, drag.handle, y, x) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.mode === 'create') {
+      if (!isBoxTooSmall(drag.draft)) onCreate(drag.draft);
+    } else if (drag.draft.some((v, i) => v !== drag.origin[i]) && !isBoxTooSmall(drag.draft)) {
+      onBoxChange(drag.id, drag.draft);
+    }
+    setDrag(null);
+  };
+
+  const boxStyle = (box: Box): React.CSSProperties => {
+    const [ymin, xmin, ymax, xmax] = box;
+    return {
+      top: `${ymin / 10}%`,
+      left: `${xmin / 10}%`,
+      width: `${(xmax - xmin) / 10}%`,
+      height: `${(ymax - ymin) / 10}%`
+    };
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 cursor-crosshair touch-none select-none"
+      onPointerDown={startCreate}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+    >
+      {detections.map(det => {
+        const isSelected = det.id === selectedId;
+        const box = drag && drag.mode !== 'create' && drag.id === det.id ? drag.draft : det.boundingBox;
+        return (
+          <div
+            key={det.id}
+            onPointerDown={e => startMove(e, det)}
+            className={`absolute border-2 cursor-move ${
+              det.isConfirmedDamage ? 'border-red-500 bg-red-500/10' : 'border-yellow-400 bg-yellow-400/10'
+            } ${isSelected ? 'ring-2 ring-blue-400 ring-offset-1 ring-offset-transparent' : ''}`}
+            style={boxStyle(box)}
+          >
+            <div
+              className={`absolute top-0 left-0 -translate-y-full px-2 py-0.5 text-[9px] font-black text-white uppercase tracking-tighter rounded-t-lg pointer-events-none ${
+                det.isConfirmedDamage ? 'bg-red-500' : 'bg-yellow-500'
+              }`}
+            >
+              {det.type}
+              {det.provenance?.humanVerified && ' ✓'}
+            </div>
+            {isSelected &&
+              HANDLES.map(handle => (
+                <div
+                  key={handle}
+                  onPointerDown={e => startResize(e, det, handle)}
+                  className={`absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-sm ${HANDLE_POSITION[handle]}`}
+                />
+              ))}
+          </div>
+        );
+      })}
+
+      {drag?.mode === 'create' && (
+        <div className="absolute border-2 border-dashed border-blue-400 bg-blue-400/10 pointer-events-none" style={boxStyle(drag.draft)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, Check, Download, Loader2, RotateCcw, Upload, X } from 'lucide-react';
+import { InspectionImage, ShotAngle, ShotFraming } from '../types';
+import { countCapturedShots, downloadShotListJson, importShotListFile } from '../services/shotList';
+
+interface CameraCaptureProps {
+  shots: ShotAngle[];
+  images: InspectionImage[]; // ใช้เช็คว่ามุมไหนถ่ายแล้ว
+  remainingSlots: number;
+  onCapture: (dataUrl: string, shot: ShotAngle) => void;
+  onShotsChange: (shots: ShotAngle[] | null) => void; // null = กลับไปใช้ค่า default
+  initialShotId?: string; // retake: เริ่มที่มุมนี้แทนมุมแรกที่ยังไม่ได้ถ่าย
+  onClose: () => void;
+}
+
+const CAPTURE_QUALITY = 0.92;
+
+// กรอบช่วยเล็งในพิกัด 0..100 ของ video (ไม่ต้องแม่น แค่ให้ระยะ/มุมใกล้เคียงกันทุกครั้ง)
+const FRAMING_GUIDES: Record<ShotFraming, string> = {
+  front: 'M20,38 L80,38 L86,62 L14,62 Z',
+  rear: 'M18,36 L82,36 L86,64 L14,64 Z',
+  side: 'M5,45 L30,34 L70,34 L95,46 L95,64 L5,64 Z',
+  corner: 'M8,42 L40,34 L92,38 L92,64 L40,68 L8,62 Z',
+  detail: 'M20,20 L80,20 L80,80 L20,80 Z'
+};
+
+function cameraErrorMessage(err: any): string {
+  if (!navigator.mediaDevices?.getUserMedia) return 'Camera is not supported in this browser';
+  if (err?.name === 'NotAllowedError') return 'Camera permission was denied';
+  if (err?.name === 'NotFoundError') return 'No camera found on this device';
+  return err?.message || 'Could not start the camera';
+}
+
+/**
+ * โหมดถ่ายรูปในแอป: เดินตาม shot list ทีละมุม (รูปที่ได้ติดชื่อมุมอัตโนมัติ)
+ */
+export default function CameraCapture({
+  shots,
+  images,
+  remainingSlots,
+  onCapture,
+  onShotsChange,
+  initialShotId,
+  onClose
+}: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<'starting' | 'ready' | 'error'>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [flash, setFlash] = useState(false);
+
+  const captured = countCapturedShots(images);
+  const missing = shots.filter(s => !captured[s.id]);
+  const [activeId, setActiveId] = useState<string | undefined>(
+    shots.some(s => s.id === initialShotId) ? initialShotId : (missing[0]?.id ?? shots[0]?.id)
+  );
+  const activeIndex = Math.max(0, shots.findIndex(s => s.id === activeId));
+  const active = shots[activeIndex];
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false
+        });
+        if (cancelled) return;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = stream;
+          await video.play();
+        }
+        setStatus('ready');
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('getUserMedia failed:', err);
+        setError(cameraErrorMessage(err));
+        setStatus('error');
+      }
+    })();
+
+    // ✅ ปิดกล้องทุกครั้งที่ออกจากโหมดนี้ (ไฟกล้องต้องดับ)
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // shot list เปลี่ยน (import/reset) แล้วมุมที่เลือกหายไป → เริ่มที่มุมแรกที่ยังขาด
+  useEffect(() => {
+    if (!shots.some(s => s.id === activeId)) setActiveId(missing[0]?.id ?? shots[0]?.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shots]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !active || remainingSlots <= 0 || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onCapture(canvas.toDataURL('image/jpeg', CAPTURE_QUALITY), active);
+
+    setFlash(true);
+    window.setTimeout(() => setFlash(false), 150);
+
+    // ไปมุมถัดไปที่ยังไม่ได้ถ่าย (วนกลับต้น list)
+    const after = [...shots.slice(activeIndex + 1), ...shots.slice(0, activeIndex)];
+    const next = after.find(s => !captured[s.id]);
+    if (next) setActiveId(next.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = await importShotListFile(file);
+    if ('error' in result) {
+      setListError(`Import failed: ${result.error}`);
+      return;
+    }
+    setListError(null);
+    onShotsChange(result.shots);
+  };
+
+  const full = remainingSlots <= 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 backdrop-blur flex flex-col lg:flex-row">
+      {/* Viewfinder */}
+      <div className="relative flex-1 min-h-0 bg-black flex items-center justify-center">
+        <video ref={videoRef} playsInline muted className="w-full h-full object-contain" />
+
+        {status === 'starting' && (
+          <div className="absolute inset-0 flex items-center justify-center text-blue-400">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-center p-8">
+            <CameraOff className="w-10 h-10 text-red-400" />
+            <p className="text-sm font-bold uppercase tracking-widest text-red-300">{error}</p>
+          </div>
+        )}
+
+        {status === 'ready' && active && (
+          <>
+            <svg
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            >
+              <path
+                d={FRAMING_GUIDES[active.framing]}
+                fill="none"
+                stroke="rgba(96,165,250,0.9)"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-2xl bg-slate-950/70 border border-slate-700 text-center">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                Shot {activeIndex + 1}/{shots.length}
+              </p>
+              <p className="text-sm font-black text-white tracking-wide">{active.label}</p>
+              <p className="text-[10px] text-slate-400">Fit the area inside the guide</p>
+            </div>
+          </>
+        )}
+
+        {flash && <div className="absolute inset-0 bg-white/60 pointer-events-none" />}
+
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4">
+          <button
+            onClick={capture}
+            disabled={status !== 'ready' || !active || full}
+            className="w-16 h-16 rounded-full bg-white border-4 border-blue-500 shadow-2xl flex items-center justify-center text-slate-900 hover:scale-105 transition-transform disabled:opacity-40 disabled:hover:scale-100"
+            title={full ? 'Photo limit reached' : `Capture "${active?.label ?? ''}"`}
+          >
+            <Camera size={24} />
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 rounded-xl bg-slate-950/70 text-slate-300 hover:text-white transition-colors"
+          title="Close camera"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {/* Shot list */}
+      <div className="lg:w-80 max-h-[40vh] lg:max-h-none bg-slate-900 border-t lg:border-t-0 lg:border-l border-slate-800 flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-xs font-black text-white uppercase tracking-widest">Shot List</h2>
+            <p className="text-[10px] font-bold uppercase tracking-tight text-slate-500">
+              {missing.length === 0 ? (
+                <span className="text-green-400">All angles captured</span>
+              ) : (
+                <span className="text-yellow-400">{missing.length} missing</span>
+              )}
+              {full && <span className="text-red-400"> • photo limit reached</span>}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <label className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors cursor-pointer" title="Import shot list (JSON)">
+              <Upload size={12} />
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+            <button
+              onClick={() => downloadShotListJson(shots)}
+              className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Export shot list (JSON)"
+            >
+              <Download size={12} />
+            </button>
+            <button
+              onClick={() => onShotsChange(null)}
+              className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Reset to default shot list"
+            >
+              <RotateCcw size={12} />
+            </button>
+          </div>
+        </div>
+
+        {listError && (
+          <p className="m-3 text-[10px] font-bold uppercase tracking-tight text-red-400 bg-red-950/40 p-2 rounded-xl border border-red-900/50">
+            {listError}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-1">
+          {shots.map((s, i) => {
+            const count = captured[s.id] ?? 0;
+            const isActive = s.id === active?.id;
+            return (
+              <button
+                key={s.id}
+                onClick={() => setActiveId(s.id)}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl border text-left transition-colors ${
+                  isActive ? 'border-blue-500/60 bg-blue-500/10' : 'border-transparent hover:bg-slate-800/60'
+                }`}
+              >
+                <span
+                  className={`w-5 h-5 shrink-0 rounded-full flex items-center justify-center text-[9px] font-black ${
+                    count > 0 ? 'bg-green-500 text-white' : 'bg-slate-800 text-slate-500'
+                  }`}
+                >
+                  {count > 0 ? <Check size={10} /> : i + 1}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className={`block text-[11px] font-bold truncate ${count > 0 ? 'text-slate-300' : 'text-white'}`}>
+                    {s.label}
+                  </span>
+                  <span className="block text-[9px] uppercase tracking-widest text-slate-500 truncate">
+                    {s.framing}
+                    {count > 1 && ` • ${count} photos`}
+                  </span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
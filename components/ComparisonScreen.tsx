@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeftRight, FileDown, Loader2, X } from 'lucide-react';
+import { DamageDetection, Inspection, InspectionImage, InspectionSummary, RepairPriceTable } from '../types';
+import { listSessions, loadSession } from '../services/sessionStore';
+import { formatVehicleLabel } from '../services/inspection';
+import { panelLabel } from '../services/carPanels';
+import {
+  COMPARISON_STATUS_LABELS,
+  ComparisonEntry,
+  ComparisonStatus,
+  compareInspections,
+  summarizeNewDamageEstimate,
+  suggestCheckIn
+} from '../services/inspectionCompare';
+import { formatMoney } from '../services/repairEstimate';
+import { generateNewDamageReport } from '../services/comparisonReport';
+import { ReportFormat } from '../services/reportExport';
+
+interface ComparisonScreenProps {
+  // inspection ที่เปิดอยู่ (ใช้ state ปัจจุบัน ไม่ต้องรอ autosave)
+  current: Inspection;
+  priceTable: RepairPriceTable;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ComparisonStatus, string> = {
+  new: 'bg-red-500/15 text-red-400 border-red-500/40',
+  pre_existing: 'bg-slate-700/40 text-slate-300 border-slate-600',
+  not_visible: 'bg-blue-500/10 text-blue-300 border-blue-500/30'
+};
+
+const selectClass =
+  'w-full bg-slate-950/60 border border-slate-800 rounded-xl px-3 py-2 text-[11px] text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1 block';
+
+function sessionOptionLabel(s: Pick<InspectionSummary, 'title' | 'vehicle' | 'createdAt'>): string {
+  const vehicle = formatVehicleLabel(s.vehicle);
+  return [s.title, vehicle, new Date(s.createdAt).toLocaleDateString()].filter(Boolean).join(' • ');
+}
+
+function BoxedPhoto({ image, detection, caption }: { image?: InspectionImage; detection?: DamageDetection; caption: string }) {
+  return (
+    <figure className="min-w-0">
+      <figcaption className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1 truncate">{caption}</figcaption>
+      {image ? (
+        <div className="relative rounded-xl overflow-hidden border border-slate-800 bg-black">
+          <img src={image.url} alt={image.name} className="w-full h-auto block" />
+          {detection && (
+            <div
+              className={`absolute border-2 ${detection.isConfirmedDamage ? 'border-red-500' : 'border-yellow-400'}`}
+              style={{
+                top: `${detection.boundingBox[0] / 10}%`,
+                left: `${detection.boundingBox[1] / 10}%`,
+                height: `${(detection.boundingBox[2] - detection.boundingBox[0]) / 10}%`,
+                width: `${(detection.boundingBox[3] - detection.boundingBox[1]) / 10}%`
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="aspect-[4/3] rounded-xl border border-dashed border-slate-800 flex items-center justify-center text-[10px] text-slate-600 font-bold uppercase">
+          No matching photo
+        </div>
+      )}
+      {image && <p className="text-[10px] text-slate-400 font-mono mt-1 truncate">{image.name}</p>}
+    </figure>
+  );
+}
+
+function EntryCard({ entry }: { entry: ComparisonEntry }) {
+  const det = (entry.checkOut ?? entry.checkIn)!.detection;
+  const checkInImage = entry.checkIn?.image ?? entry.pairedCheckInImage;
+  return (
+    <div className="p-4 rounded-2xl border border-slate-800 bg-slate-800/30 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-black text-white text-xs uppercase tracking-wide">{det.type}</p>
+          <p className="text-[10px] text-slate-400 font-bold truncate">{panelLabel(det.panel)}</p>
+        </div>
+        <span className={`px-2 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest shrink-0 ${STATUS_STYLES[entry.status]}`}>
+          {COMPARISON_STATUS_LABELS[entry.status]}
+          {entry.score !== undefined && ` • ${Math.round(entry.score * 100)}%`}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <BoxedPhoto caption="Check-in" image={checkInImage} detection={entry.checkIn?.detection} />
+        <BoxedPhoto caption="Check-out" image={entry.checkOut?.image} detection={entry.checkOut?.detection} />
+      </div>
+      {det.description && <p className="text-[11px] text-slate-300 leading-relaxed">{det.description}</p>}
+    </div>
+  );
+}
+
+/**
+ * เทียบ check-in กับ check-out ของรถคันเดียวกัน → new damage report
+ */
+export default function ComparisonScreen({ current, priceTable, onClose }: ComparisonScreenProps) {
+  const [sessions, setSessions] = useState<InspectionSummary[] | null>(null);
+  const [checkInId, setCheckInId] = useState('');
+  const [checkOutId, setCheckOutId] = useState(current.id);
+  const [loaded, setLoaded] = useState<Record<string, Inspection>>({});
+  const [loading, setLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ComparisonStatus | 'all'>('new');
+  const [reportBusy, setReportBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        setCheckInId(prev => prev || suggestCheckIn(current, list)?.id || '');
+      })
+      .catch((err: any) => {
+        console.error('listSessions failed:', err);
+        setError(err?.message || 'Could not load history');
+        setSessions([]);
+      });
+  }, []);
+
+  // session ที่เลือกแต่ยังไม่ได้โหลดรูป → โหลดจาก IndexedDB
+  useEffect(() => {
+    const missing = [checkInId, checkOutId].filter(id => id && id !== current.id && !loaded[id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(missing.map(id => loadSession(id)))
+      .then(results => {
+        if (cancelled) return;
+        const next: Record<string, Inspection> = {};
+        results.forEach((s, i) => {
+          if (s) next[missing[i]] = s;
+          else setError(`Inspection ${missing[i]} not found`);
+        });
+        setLoaded(prev => ({ ...prev, ...next }));
+      })
+      .catch((err: any) => {
+        console.error('loadSession failed:', err);
+        if (!cancelled) setError(err?.message || 'Could not load inspection');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [checkInId, checkOutId]);
+
+  const resolve = (id: string) => (id === current.id ? current : loaded[id]);
+  const checkIn = checkInId ? resolve(checkInId) : undefined;
+  const checkOut = checkOutId ? resolve(checkOutId) : undefined;
+
+  const comparison = useMemo(
+    () => (checkIn && checkOut && checkIn !== checkOut ? compareInspections(checkIn, checkOut) : null),
+    [checkIn, checkOut]
+  );
+  const newEstimate = comparison ? summarizeNewDamageEstimate(comparison, priceTable) : null;
+  const entries = comparison?.entries.filter(e => statusFilter === 'all' || e.status === statusFilter) ?? [];
+
+  // รายการใน select: session ที่บันทึกแล้ว + ตัวที่เปิดอยู่ (อาจยังไม่ถูก autosave)
+  const options = sessions
+    ? [current, ...sessions.filter(s => s.id !== current.id)].sort((a, b) => b.createdAt - a.createdAt)
+    : [current];
+
+  const handleReport = async (format: ReportFormat) => {
+    if (!comparison) return;
+    setReportBusy(true);
+    try {
+      await generateNewDamageReport(comparison, format, priceTable);
+    } catch (err) {
+      console.error('generateNewDamageReport failed:', err);
+      window.alert('Report generation failed. See console for details.');
+    } finally {
+      setReportBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-7xl bg-slate-900 border border-slate-800 rounded-3xl shadow-2xl ring-1 ring-white/5">
+      <div className="p-5 border-b border-slate-800 flex items-center justify-between gap-4">
+        <h2 className="text-sm font-black text-white flex items-center gap-2 uppercase tracking-widest">
+          <ArrowLeftRight className="text-blue-500 w-4 h-4" />
+          Check-in vs Check-out
+        </h2>
+        <div className="flex items-center gap-2">
+          {(['html', 'pdf'] as ReportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleReport(format)}
+              disabled={!comparison || reportBusy}
+              className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-slate-300 text-[10px] font-black uppercase hover:bg-slate-700 transition-colors disabled:opacity-50"
+              title={`New damage report (${format.toUpperCase()})`}
+            >
+              {reportBusy ? <Loader2 size={12} className="animate-spin" /> : <FileDown size={12} />}
+              {format}
+            </button>
+          ))}
+          <button
+            onClick={onClose}
+            className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Back to inspection"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Check-in (pickup)</label>
+            <select value={checkInId} onChange={e => setCheckInId(e.target.value)} className={selectClass}>
+              <option value="">Select inspection...</option>
+              {options.map(s => (
+                <option key={s.id} value={s.id}>
+                  {sessionOptionLabel(s)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Check-out (return)</label>
+            <select value={checkOutId} onChange={e => setCheckOutId(e.target.value)} className={selectClass}>
+              <option value="">Select inspection...</option>
+              {options.map(s => (
+                <option key={s.id} value={s.id}>
+                  {sessionOptionLabel(s)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold uppercase tracking-tight text-red-400 bg-red-950/40 p-3 rounded-2xl border border-red-900/50">
+            {error}
+          </p>
+        )}
+
+        {sessions === null || loading ? (
+          <div className="flex items-center justify-center py-16 text-blue-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : !comparison ? (
+          <p className="text-center py-16 text-slate-500 text-[10px] font-black uppercase tracking-widest">
+            {checkInId && checkInId === checkOutId
+              ? 'Pick two different inspections'
+              : 'Pick a check-in and a check-out inspection of the same vehicle'}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-2">
+                {(['new', 'pre_existing', 'not_visible', 'all'] as const).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-colors ${
+                      statusFilter === status
+                        ? 'bg-blue-600 border-blue-500 text-white'
+                        : 'bg-slate-800/60 border-slate-700 text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {status === 'all' ? 'All' : COMPARISON_STATUS_LABELS[status]} (
+                    {status === 'all' ? comparison.entries.length : comparison.counts[status]})
+                  </button>
+                ))}
+              </div>
+              {newEstimate && comparison.counts.new > 0 && (
+                <p className="text-[10px] font-mono text-slate-300">
+                  New damage: {formatMoney(newEstimate.confirmedCost, priceTable.currency)} confirmed
+                  {newEstimate.suspectedCount > 0 &&
+                    ` • +${formatMoney(newEstimate.suspectedCost, priceTable.currency)} suspected`}
+                </p>
+              )}
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-center py-16 text-slate-500 text-[10px] font-black uppercase tracking-widest">
+                {statusFilter === 'new' ? 'No new damage since check-in' : 'Nothing in this category'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                {entries.map(entry => (
+                  <React.Fragment key={`${entry.checkIn?.detection.id ?? ''}:${entry.checkOut?.detection.id ?? ''}`}>
+                    <EntryCard entry={entry} />
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
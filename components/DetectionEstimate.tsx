@@ -0,0 +1,34 @@
+import React from 'react';
+import { RepairPriceTable, Severity } from '../types';
+import { REPAIR_METHOD_LABELS, DetectionAssessment, formatArea, formatMoney } from '../services/repairEstimate';
+
+const SEVERITY_BADGE: Record<Severity, string> = {
+  minor: 'bg-slate-800 border-slate-700 text-slate-300',
+  moderate: 'bg-orange-500/10 border-orange-500/40 text-orange-300',
+  severe: 'bg-red-500/10 border-red-500/40 text-red-300'
+};
+
+interface DetectionEstimateProps {
+  assessment: DetectionAssessment;
+  priceTable: RepairPriceTable;
+}
+
+// severity • พื้นที่ • วิธีซ่อม/ราคา ใต้การ์ด finding
+export default function DetectionEstimate({ assessment: a, priceTable }: DetectionEstimateProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mb-4 text-[9px] font-mono text-slate-500">
+      <span
+        className={`px-1.5 py-0.5 rounded-md border font-black uppercase tracking-widest ${SEVERITY_BADGE[a.severity]}`}
+        title={`Severity from ${a.severitySource}`}
+      >
+        {a.severity}
+      </span>
+      <span>{formatArea(a)}</span>
+      <span className="text-slate-300">
+        {a.method === 'none'
+          ? REPAIR_METHOD_LABELS.none
+          : `${REPAIR_METHOD_LABELS[a.method]} • ${a.laborHours}h • ${formatMoney(a.cost, priceTable.currency)}`}
+      </span>
+    </div>
+  );
+}
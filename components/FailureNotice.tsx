@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Camera, Clock, KeyRound, RefreshCw } from 'lucide-react';
+import { AnalysisFailure, RecoveryAction } from '../types';
+import { ANALYSIS_ERROR_LABELS, recoveryLabel } from '../services/analysisErrors';
+
+interface FailureNoticeProps {
+  failure: AnalysisFailure;
+  onRecover?: () => void; // ไม่มี = ไม่มีปุ่ม (เช่น ต้องตั้ง key ที่ server)
+  compact?: boolean; // ในการ์ด detection (verification ล้มเหลว)
+}
+
+const RECOVERY_ICONS: Record<RecoveryAction, typeof RefreshCw> = {
+  retry_at: Clock,
+  retry_now: RefreshCw,
+  replace_photo: Camera,
+  configure: KeyRound
+};
+
+/**
+ * error ของการวิเคราะห์: ชนิด + ข้อความ + ทางแก้ ("Retry at 07:00", "Replace photo", ...)
+ */
+export default function FailureNotice({ failure, onRecover, compact }: FailureNoticeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // นับถอยหลังบนปุ่มจนถึงเวลาที่ลองใหม่ได้
+  useEffect(() => {
+    if (!failure.retryAt || failure.retryAt <= Date.now()) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [failure.retryAt]);
+
+  const Icon = RECOVERY_ICONS[failure.recovery];
+  const label = recoveryLabel(failure, now);
+  const iconClass = compact ? 'w-4 h-4 text-amber-400' : 'w-5 h-5 text-red-400';
+  const titleClass = compact ? 'text-amber-300' : 'text-red-300';
+  const messageClass = compact ? 'text-amber-200/80' : 'text-red-200/80';
+
+  return (
+    <div
+      className={`${
+        compact ? 'p-3 rounded-xl bg-amber-950/30 border-amber-900/40' : 'p-4 rounded-2xl bg-red-950/40 border-red-900/50'
+      } border flex items-start gap-3`}
+    >
+      <AlertCircle className={`${iconClass} mt-0.5 shrink-0`} />
+      <div className="flex-1 min-w-0 space-y-2">
+        <div>
+          <p className={`text-[10px] font-black uppercase tracking-widest ${titleClass}`}>
+            {compact ? 'Verification failed: ' : ''}
+            {ANALYSIS_ERROR_LABELS[failure.kind]}
+          </p>
+          <p className={`text-[11px] leading-snug break-words ${messageClass}`}>{failure.message}</p>
+        </div>
+        {onRecover ? (
+          <button
+            onClick={onRecover}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+          >
+            <Icon size={12} />
+            {label}
+          </button>
+        ) : (
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <Icon size={12} />
+            {label}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
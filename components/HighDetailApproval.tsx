@@ -0,0 +1,72 @@
+import React from 'react';
+import { Grid3x3, Play, Minimize2 } from 'lucide-react';
+import { InspectionImage } from '../types';
+import { AnalysisCostEstimate, estimateStandardCost, estimateTiledCost } from '../services/tiling';
+
+interface HighDetailApprovalProps {
+  images: InspectionImage[]; // รูปที่ awaitingApproval
+  requestIntervalMs?: number;
+  onRunTiled: () => void;
+  onRunStandard: () => void;
+}
+
+const formatTokens = (n: number) => (n >= 10000 ? `${Math.round(n / 1000)}k` : n.toLocaleString());
+
+function formatDuration(ms: number): string {
+  const min = Math.round(ms / 60000);
+  return min < 1 ? '< 1 min' : `~${min} min`;
+}
+
+function EstimateLine({ label, estimate, intervalMs }: { label: string; estimate: AnalysisCostEstimate; intervalMs?: number }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-[10px] font-mono">
+      <span className="font-black uppercase tracking-widest text-slate-500">{label}</span>
+      <span className="text-slate-300">
+        {estimate.requests} req • ~{formatTokens(estimate.inputTokens)} in / ~{formatTokens(estimate.outputTokens)} out tokens
+        {intervalMs ? ` • ${formatDuration(estimate.requests * intervalMs)}` : ''}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * แสดง cost ของ high detail ก่อนรัน (tile เยอะ = request/token คูณหลายเท่า)
+ */
+export default function HighDetailApproval({ images, requestIntervalMs, onRunTiled, onRunStandard }: HighDetailApprovalProps) {
+  const sizes = images.flatMap(img => (img.originalSize ? [img.originalSize] : []));
+  const tiled = estimateTiledCost(sizes);
+  const standard = estimateStandardCost(sizes);
+
+  return (
+    <div className="w-full max-w-7xl mb-6 bg-slate-900 border border-blue-500/30 rounded-3xl p-5 shadow-2xl ring-1 ring-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <Grid3x3 className="w-5 h-5 text-blue-400 mt-0.5" />
+          <div className="space-y-2">
+            <p className="text-sm font-bold tracking-wide">
+              HIGH DETAIL: {images.length} PHOTO{images.length === 1 ? '' : 'S'} WAITING
+            </p>
+            <EstimateLine label="Tiled" estimate={tiled} intervalMs={requestIntervalMs} />
+            <EstimateLine label="Standard" estimate={standard} intervalMs={requestIntervalMs} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onRunStandard}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+          >
+            <Minimize2 size={12} />
+            Run Standard
+          </button>
+          <button
+            onClick={onRunTiled}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-blue-500 transition-colors"
+          >
+            <Play size={12} />
+            Run High Detail
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
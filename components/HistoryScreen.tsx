@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, FolderOpen, History, Loader2, Search, Trash2, X } from 'lucide-react';
+import { InspectionSummary } from '../types';
+import { createSessionId, deleteSession, duplicateSession, listSessions } from '../services/sessionStore';
+import { INSPECTION_STATUS_LABELS, formatVehicleLabel, inspectionSearchText } from '../services/inspection';
+
+interface HistoryScreenProps {
+  currentSessionId: string;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+  // เรียกเมื่อ session ปัจจุบันถูกลบ (App ต้องเริ่ม session ใหม่)
+  onCurrentDeleted: () => void;
+}
+
+export default function HistoryScreen({ currentSessionId, onOpen, onClose, onCurrentDeleted }: HistoryScreenProps) {
+  const [sessions, setSessions] = useState<InspectionSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err: any) {
+      console.error('listSessions failed:', err);
+      setError(err?.message || 'Could not load history');
+      setSessions([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => {
+    if (!sessions) return [];
+    const q = query.trim().toLowerCase();
+    if (!q) return sessions;
+    return sessions.filter(
+      s => inspectionSearchText(s).includes(q) || s.imageNames.some(name => name.toLowerCase().includes(q))
+    );
+  }, [sessions, query]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      console.error('history action failed:', err);
+      setError(err?.message || 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (s: InspectionSummary) => {
+    if (!window.confirm(`Delete "${s.title}"? This cannot be undone.`)) return;
+    runAction(s.id, async () => {
+      await deleteSession(s.id);
+      if (s.id === currentSessionId) onCurrentDeleted();
+    });
+  };
+
+  return (
+    <div className="w-full max-w-7xl bg-slate-900 border border-slate-800 rounded-3xl shadow-2xl ring-1 ring-white/5">
+      <div className="p-5 border-b border-slate-800 flex items-center justify-between gap-4">
+        <h2 className="text-sm font-black text-white flex items-center gap-2 uppercase tracking-widest">
+          <History className="text-blue-500 w-4 h-4" />
+          Inspection History
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          title="Back to inspection"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-5 space-y-4">
+        <div className="relative">
+          <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search by VIN, plate, vehicle, inspector or photo name..."
+            className="w-full bg-slate-950/60 border border-slate-800 rounded-2xl pl-10 pr-4 py-3 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60"
+          />
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold uppercase tracking-tight text-red-400 bg-red-950/40 p-3 rounded-2xl border border-red-900/50">
+            {error}
+          </p>
+        )}
+
+        {sessions === null ? (
+          <div className="flex items-center justify-center py-16 text-blue-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-center py-16 text-slate-500 text-[10px] font-black uppercase tracking-widest">
+            {sessions.length === 0 ? 'No saved inspections yet' : 'No inspections match your search'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {filtered.map(s => {
+              const isCurrent = s.id === currentSessionId;
+              const pending = s.imageCount - s.analyzedCount;
+              return (
+                <div
+                  key={s.id}
+                  className={`p-4 rounded-2xl border transition-all ${
+                    isCurrent ? 'border-blue-500/60 bg-blue-500/5' : 'border-slate-800 bg-slate-800/30 hover:border-slate-700'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3 mb-2">
+                    <h3 className="font-black text-white text-xs tracking-wide">{s.title}</h3>
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest shrink-0">
+                      {isCurrent && <span className="text-blue-400">Current • </span>}
+                      {INSPECTION_STATUS_LABELS[s.status]}
+                    </span>
+                  </div>
+                  {(formatVehicleLabel(s.vehicle) || s.vehicle.vin) && (
+                    <p className="text-[10px] text-slate-300 font-bold mb-1">
+                      {[formatVehicleLabel(s.vehicle), s.vehicle.vin && `VIN ${s.vehicle.vin}`].filter(Boolean).join(' • ')}
+                    </p>
+                  )}
+                  <p className="text-[10px] text-slate-500 font-mono">
+                    Updated {new Date(s.updatedAt).toLocaleString()}
+                  </p>
+                  <p className="text-[10px] text-slate-400 font-bold uppercase tracking-tight mt-1">
+                    {s.imageCount} photo(s) • {s.detectionCount} detection(s)
+                    {pending > 0 && <span className="text-yellow-400"> • {pending} pending</span>}
+                  </p>
+
+                  <div className="flex items-center gap-2 mt-3">
+                    <button
+                      onClick={() => onOpen(s.id)}
+                      disabled={busyId !== null}
+                      className="flex-1 flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase py-2 rounded-xl transition-colors disabled:opacity-50"
+                    >
+                      <FolderOpen size={12} />
+                      {isCurrent ? 'Return' : 'Reopen'}
+                    </button>
+                    <button
+                      onClick={() => runAction(s.id, () => duplicateSession(s.id, createSessionId()))}
+                      disabled={busyId !== null}
+                      className="p-2 rounded-xl bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors disabled:opacity-50"
+                      title="Duplicate"
+                    >
+                      {busyId === s.id ? <Loader2 size={12} className="animate-spin" /> : <Copy size={12} />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(s)}
+                      disabled={busyId !== null}
+                      className="p-2 rounded-xl bg-slate-800 text-red-400 hover:bg-red-950/60 transition-colors disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Maximize2, Minimize2, ZoomIn, ZoomOut, Scan } from 'lucide-react';
+import { DamageDetection } from '../types';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+// zoom to finding: ให้ box กินพื้นที่ราว ๆ นี้ของ viewer
+const FOCUS_FILL = 0.6;
+
+export interface ViewerFocusRequest {
+  box: DamageDetection['boundingBox'];
+  nonce: number; // เปลี่ยนทุกครั้งที่กด (กดการ์ดเดิมซ้ำก็ต้อง zoom ใหม่)
+}
+
+interface ImageViewerProps {
+  src: string;
+  alt: string;
+  className?: string;
+  // ปิด pan ด้วยคลิกซ้าย (ตอน edit mode ให้ AnnotationEditor ใช้ pointer แทน; pan ด้วยปุ่มกลางได้)
+  panWithPrimary?: boolean;
+  focusRequest?: ViewerFocusRequest | null;
+  // layer ที่อยู่บนรูปพอดี (พิกัด 0..1000 = ขอบรูปจริง) และ zoom/pan ไปพร้อมรูป
+  children?: React.ReactNode;
+  // layer ที่ทับ viewer ทั้งกรอบ ไม่ zoom ตาม (เช่น loading overlay)
+  overlay?: React.ReactNode;
+}
+
+interface Size {
+  w: number;
+  h: number;
+}
+
+interface Transform {
+  scale: number;
+  tx: number;
+  ty: number;
+}
+
+const IDENTITY: Transform = { scale: 1, tx: 0, ty: 0 };
+
+/**
+ * คำนวณ rect ของรูปหลัง object-contain (ใช้ map box 0..1000 ให้ตรงกับรูปจริง
+ * ไม่ใช่กรอบ container — รูปแนวตั้ง/ไม่ใช่ 16:9 จะได้ไม่เพี้ยน)
+ */
+export function computeContainRect(container: Size, natural: Size) {
+  if (!container.w || !container.h || !natural.w || !natural.h) {
+    return { left: 0, top: 0, width: container.w, height: container.h };
+  }
+  const fit = Math.min(container.w / natural.w, container.h / natural.h);
+  const width = natural.w * fit;
+  const height = natural.h * fit;
+  return { left: (container.w - width) / 2, top: (container.h - height) / 2, width, height };
+}
+
+function clampTransform(t: Transform, container: Size, rect: { left: number; top: number; width: number; height: number }): Transform {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, t.scale));
+  if (scale === 1) return IDENTITY;
+
+  // ห้าม pan จนรูปหลุดกรอบ (ถ้ารูปเล็กกว่ากรอบก็ล็อคไว้กลาง)
+  const clampAxis = (offset: number, base: number, size: number, view: number) => {
+    const scaled = size * scale;
+    if (scaled <= view) return (view - scaled) / 2 - base;
+    const min = view - scaled - base;
+    const max = -base;
+    return Math.min(max, Math.max(min, offset));
+  };
+
+  return {
+    scale,
+    tx: clampAxis(t.tx, rect.left, rect.width, container.w),
+    ty: clampAxis(t.ty, rect.top, rect.height, container.h)
+  };
+}
+
+export default function ImageViewer({
+  src,
+  alt,
+  className = '',
+  panWithPrimary = true,
+  focusRequest,
+  children,
+  overlay
+}: ImageViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [container, setContainer] = useState<Size>({ w: 0, h: 0 });
+  const [natural, setNatural] = useState<Size>({ w: 0, h: 0 });
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // pointer ที่กดอยู่ (สำหรับ pan + pinch)
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const gestureRef = useRef<{ dist: number; midX: number; midY: number } | null>(null);
+
+  const rect = computeContainRect(container, natural);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const update = () => setContainer({ w: el.clientWidth, h: el.clientHeight });
+    update();
+    const ro = new ResizeObserver(update);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setTransform(IDENTITY);
+  }, [src]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  // zoom โดยให้จุด (px, py) ใน container อยู่ที่เดิม
+  const zoomAt = (nextScale: number, px: number, py: number, base: Transform = transform) => {
+    const localX = (px - rect.left - base.tx) / base.scale;
+    const localY = (py - rect.top - base.ty) / base.scale;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, nextScale));
+    setTransform(
+      clampTransform(
+        { scale, tx: px - rect.left - localX * scale, ty: py - rect.top - localY * scale },
+        container,
+        rect
+      )
+    );
+  };
+
+  useEffect(() => {
+    if (!focusRequest || !rect.width || !rect.height) return;
+    const [ymin, xmin, ymax, xmax] = focusRequest.box;
+    const bw = ((xmax - xmin) / 1000) * rect.width;
+    const bh = ((ymax - ymin) / 1000) * rect.height;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.min((container.w * FOCUS_FILL) / bw, (container.h * FOCUS_FILL) / bh)));
+    const cx = ((xmin + xmax) / 2000) * rect.width;
+    const cy = ((ymin + ymax) / 2000) * rect.height;
+    setTransform(
+      clampTransform(
+        { scale, tx: container.w / 2 - rect.left - cx * scale, ty: container.h / 2 - rect.top - cy * scale },
+        container,
+        rect
+      )
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusRequest?.nonce]);
+
+  // wheel ต้อง passive: false ถึงจะ preventDefault (กันหน้าเลื่อน) ได้
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = el.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.0015);
+      zoomAt(transform.scale * factor, e.clientX - bounds.left, e.clientY - bounds.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  });
+
+  const localPoint = (e: React.PointerEvent) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest('[data-viewer-controls]')) return;
+    const isPrimary = e.pointerType !== 'mouse' || e.button === 0;
+    const isMiddle = e.pointerType === 'mouse' && e.button === 1;
+    // คลิกซ้าย/นิ้ว = pan (+ pinch 2 นิ้ว) ถ้าอนุญาต; ปุ่มกลาง pan ได้เสมอ
+    if (!isMiddle && !(isPrimary && panWithPrimary)) return;
+
+    pointersRef.current.set(e.pointerId, localPoint(e));
+    containerRef.current?.setPointerCapture(e.pointerId);
+    if (isMiddle) e.preventDefault();
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      gestureRef.current = { dist: Math.hypot(a.x - b.x, a.y - b.y), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const prev = pointersRef.current.get(e.pointerId);
+    if (!prev) return;
+    const next = localPoint(e);
+    pointersRef.current.set(e.pointerId, next);
+
+    if (pointersRef.current.size >= 2 && gestureRef.current) {
+      const [a, b] = [...pointersRef.current.values()];
+      const dist = Math.hypot(a.x - b.x, a.y - b.y);
+      const midX = (a.x + b.x) / 2;
+      const midY = (a.y + b.y) / 2;
+      const g = gestureRef.current;
+      const panned = { ...transform, tx: transform.tx + (midX - g.midX), ty: transform.ty + (midY - g.midY) };
+      zoomAt(transform.scale * (dist / Math.max(1, g.dist)), midX, midY, panned);
+      gestureRef.current = { dist, midX, midY };
+      return;
+    }
+
+    if (transform.scale > 1) {
+      setTransform(
+        clampTransform(
+          { ...transform, tx: transform.tx + (next.x - prev.x), ty: transform.ty + (next.y - prev.y) },
+          container,
+          rect
+        )
+      );
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) gestureRef.current = null;
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen?.();
+    }
+  };
+
+  const zoomCenter = (factor: number) => zoomAt(transform.scale * factor, container.w / 2, container.h / 2);
+
+  const controlClass =
+    'p-2 rounded-xl bg-slate-950/70 border border-slate-700 text-slate-200 hover:text-white hover:bg-slate-800 transition-colors backdrop-blur-sm';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden touch-none ${isFullscreen ? 'bg-slate-950' : ''} ${className}`}
+      onPointerDownCapture={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onAuxClick={e => e.preventDefault()}
+    >
+      <div
+        className="absolute"
+        style={{
+          left: rect.left,
+          top: rect.top,
+          width: rect.width,
+          height: rect.height,
+          transform: `translate(${transform.tx}px, ${transform.ty}px) scale(${transform.scale})`,
+          transformOrigin: '0 0',
+          cursor: transform.scale > 1 && panWithPrimary ? 'grab' : undefined
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          draggable={false}
+          onLoad={e => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+          className="w-full h-full select-none"
+        />
+        {children}
+      </div>
+
+      {overlay}
+
+      <div data-viewer-controls className="absolute top-4 right-4 flex items-center gap-2 z-10">
+        {transform.scale > 1 && (
+          <span className="text-[9px] font-mono font-bold text-slate-300 bg-slate-950/70 px-2 py-1 rounded-lg border border-slate-700">
+            {transform.scale.toFixed(1)}×
+          </span>
+        )}
+        <button onClick={() => zoomCenter(1.5)} className={controlClass} title="Zoom in">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={() => zoomCenter(1 / 1.5)} className={controlClass} title="Zoom out" disabled={transform.scale <= 1}>
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={() => setTransform(IDENTITY)} className={controlClass} title="Fit to view" disabled={transform.scale <= 1}>
+          <Scan size={14} />
+        </button>
+        <button onClick={toggleFullscreen} className={controlClass} title={isFullscreen ? 'Exit full screen' : 'Full screen'}>
+          {isFullscreen ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, ChevronDown, ClipboardList, Download, FileText, Loader2, Lock } from 'lucide-react';
+import { InspectionMeta, InspectionStatus, VehicleInfo } from '../types';
+import { validateVin, normalizeVin } from '../services/vin';
+import {
+  INSPECTION_STATUSES,
+  INSPECTION_STATUS_LABELS,
+  formatOdometer,
+  formatVehicleLabel
+} from '../services/inspection';
+import { ReportFormat } from '../services/reportExport';
+
+interface InspectionDetailsProps {
+  meta: InspectionMeta;
+  onChange: (updates: Partial<InspectionMeta>) => void;
+  onStatusChange: (status: InspectionStatus) => void;
+  onExportJson: () => void;
+  onGenerateReport: (format: ReportFormat) => void;
+  reportBusy: boolean;
+}
+
+const STATUS_STYLES: Record<InspectionStatus, string> = {
+  draft: 'bg-slate-800 text-slate-300 border-slate-700',
+  in_review: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/40',
+  finalized: 'bg-green-500/10 text-green-300 border-green-500/40'
+};
+
+const inputClass =
+  'w-full bg-slate-950/60 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60 disabled:opacity-60';
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1 block';
+
+export default function InspectionDetails({
+  meta,
+  onChange,
+  onStatusChange,
+  onExportJson,
+  onGenerateReport,
+  reportBusy
+}: InspectionDetailsProps) {
+  const [open, setOpen] = useState(false);
+  const locked = meta.status === 'finalized';
+  const vehicle = meta.vehicle;
+  const vinCheck = vehicle.vin ? validateVin(vehicle.vin) : null;
+
+  const setVehicle = (updates: Partial<VehicleInfo>) => onChange({ vehicle: { ...vehicle, ...updates } });
+  const text = (v: string) => (v.trim() === '' ? undefined : v);
+
+  const vehicleLabel = formatVehicleLabel(vehicle);
+  const odometer = formatOdometer(vehicle);
+
+  return (
+    <div className="w-full max-w-7xl mb-6 bg-slate-900/50 border border-slate-800 rounded-3xl shadow-xl">
+      <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <button onClick={() => setOpen(!open)} className="flex items-center gap-3 text-left min-w-0">
+          <ClipboardList className="w-5 h-5 text-blue-400 shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-black text-white tracking-wide truncate">
+              {vehicleLabel || 'Vehicle details not set'}
+            </p>
+            <p className="text-[10px] font-mono text-slate-500 truncate">
+              {[
+                vehicle.vin && `VIN ${vehicle.vin}`,
+                odometer,
+                meta.inspectorName && `Inspector: ${meta.inspectorName}`,
+                meta.location
+              ]
+                .filter(Boolean)
+                .join(' • ') || meta.title}
+            </p>
+          </div>
+          <ChevronDown size={14} className={`text-slate-500 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            value={meta.status}
+            onChange={e => onStatusChange(e.target.value as InspectionStatus)}
+            className={`text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border bg-transparent focus:outline-none ${STATUS_STYLES[meta.status]}`}
+          >
+            {INSPECTION_STATUSES.map(s => (
+              <option key={s} value={s} className="bg-slate-900 text-slate-200">
+                {INSPECTION_STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onExportJson}
+            className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-slate-300 hover:text-white transition-colors"
+          >
+            <Download size={12} />
+            JSON
+          </button>
+          {(['html', 'pdf'] as ReportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => onGenerateReport(format)}
+              disabled={reportBusy}
+              title="Generate Report"
+              className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full bg-blue-600 border border-blue-400/20 text-white hover:bg-blue-500 transition-colors disabled:opacity-50"
+            >
+              {reportBusy ? <Loader2 size={12} className="animate-spin" /> : <FileText size={12} />}
+              {format} Report
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {open && (
+        <div className="px-4 pb-4 border-t border-slate-800 pt-4">
+          {locked && (
+            <p className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-tight text-green-300 mb-3">
+              <Lock size={12} />
+              Finalized inspections are read-only. Move back to "In Review" to edit.
+            </p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Title</label>
+              <input
+                className={inputClass}
+                value={meta.title}
+                disabled={locked}
+                onChange={e => onChange({ title: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>VIN</label>
+              <div className="relative">
+                <input
+                  className={`${inputClass} font-mono pr-8`}
+                  value={vehicle.vin ?? ''}
+                  disabled={locked}
+                  maxLength={20}
+                  placeholder="17 characters"
+                  onChange={e => setVehicle({ vin: text(normalizeVin(e.target.value)) })}
+                />
+                {vinCheck && (
+                  <span className="absolute right-2 top-1/2 -translate-y-1/2">
+                    {vinCheck.valid ? (
+                      <CheckCircle2 size={14} className="text-green-400" />
+                    ) : (
+                      <AlertCircle size={14} className="text-red-400" />
+                    )}
+                  </span>
+                )}
+              </div>
+              {vinCheck && !vinCheck.valid && (
+                <p className="text-[9px] font-bold text-red-400 mt-1">{vinCheck.error}</p>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>License plate</label>
+              <input
+                className={inputClass}
+                value={vehicle.licensePlate ?? ''}
+                disabled={locked}
+                onChange={e => setVehicle({ licensePlate: text(e.target.value.toUpperCase()) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Make</label>
+              <input
+                className={inputClass}
+                value={vehicle.make ?? ''}
+                disabled={locked}
+                onChange={e => setVehicle({ make: text(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Model</label>
+              <input
+                className={inputClass}
+                value={vehicle.model ?? ''}
+                disabled={locked}
+                onChange={e => setVehicle({ model: text(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Color</label>
+              <input
+                className={inputClass}
+                value={vehicle.color ?? ''}
+                disabled={locked}
+                onChange={e => setVehicle({ color: text(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Odometer</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={vehicle.odometer ?? ''}
+                  disabled={locked}
+                  onChange={e =>
+                    setVehicle({ odometer: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })
+                  }
+                />
+                <select
+                  className={`${inputClass} w-16`}
+                  value={vehicle.odometerUnit ?? 'km'}
+                  disabled={locked}
+                  onChange={e => setVehicle({ odometerUnit: e.target.value as VehicleInfo['odometerUnit'] })}
+                >
+                  <option value="km">km</option>
+                  <option value="mi">mi</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Inspector</label>
+              <input
+                className={inputClass}
+                value={meta.inspectorName ?? ''}
+                disabled={locked}
+                onChange={e => onChange({ inspectorName: text(e.target.value) })}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Location</label>
+              <input
+                className={inputClass}
+                value={meta.location ?? ''}
+                disabled={locked}
+                onChange={e => onChange({ location: text(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className="text-[9px] font-mono text-slate-600 mt-3">
+            Created {new Date(meta.createdAt).toLocaleString()}
+            {meta.finalizedAt && ` • Finalized ${new Date(meta.finalizedAt).toLocaleString()}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
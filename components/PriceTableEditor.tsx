@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Download, RotateCcw, Save, Upload, Wrench, X } from 'lucide-react';
+import { DamageType, RepairMethod, RepairPriceEntry, RepairPriceTable, Severity } from '../types';
+import { DAMAGE_TYPES, SEVERITIES } from '../services/detectionSchema';
+import {
+  DEFAULT_PRICE_TABLE,
+  REPAIR_METHODS,
+  REPAIR_METHOD_LABELS,
+  downloadPriceTableJson,
+  formatMoney,
+  importPriceTableFile,
+  parsePriceTable
+} from '../services/repairEstimate';
+
+interface PriceTableEditorProps {
+  table: RepairPriceTable;
+  onSave: (table: RepairPriceTable) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-slate-950/60 border border-slate-800 rounded-xl px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 mb-1 block';
+
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+/**
+ * แก้ตารางราคาซ่อม (แก้ใน draft → Save ถึงจะมีผล)
+ */
+export default function PriceTableEditor({ table, onSave, onClose }: PriceTableEditorProps) {
+  const [draft, setDraft] = useState<RepairPriceTable>(table);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateEntry = (type: DamageType, severity: Severity, updates: Partial<RepairPriceEntry>) => {
+    setDraft(prev => ({
+      ...prev,
+      entries: {
+        ...prev.entries,
+        [type]: { ...prev.entries[type], [severity]: { ...prev.entries[type][severity], ...updates } }
+      }
+    }));
+  };
+
+  // validate ด้วย parser เดียวกับ import (ค่าว่าง/ติดลบ ไม่ให้ save)
+  const handleSave = () => {
+    const result = parsePriceTable(draft);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    onSave(result.table);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = await importPriceTableFile(file);
+    if ('error' in result) {
+      setError(`Import failed: ${result.error}`);
+      return;
+    }
+    setError(null);
+    setDraft(result.table);
+  };
+
+  return (
+    <div className="w-full max-w-7xl bg-slate-900 border border-slate-800 rounded-3xl shadow-2xl ring-1 ring-white/5">
+      <div className="p-5 border-b border-slate-800 flex items-center justify-between gap-4">
+        <h2 className="text-sm font-black text-white flex items-center gap-2 uppercase tracking-widest">
+          <Wrench className="text-blue-500 w-4 h-4" />
+          Repair Price Table
+        </h2>
+        <div className="flex items-center gap-2">
+          <label
+            className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-slate-300 text-[10px] font-black uppercase cursor-pointer hover:bg-slate-700 transition-colors"
+            title="Import JSON"
+          >
+            <Upload size={12} />
+            Import
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+          <button
+            onClick={() => downloadPriceTableJson(draft)}
+            className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-slate-300 text-[10px] font-black uppercase hover:bg-slate-700 transition-colors"
+            title="Export JSON"
+          >
+            <Download size={12} />
+            Export
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_PRICE_TABLE)}
+            className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Reset to defaults"
+          >
+            <RotateCcw size={14} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Back to inspection"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-5">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass}>Currency</label>
+            <input
+              value={draft.currency}
+              maxLength={3}
+              onChange={e => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Labor rate / hour</label>
+            <input
+              type="number"
+              min={0}
+              value={Number.isNaN(draft.laborRate) ? '' : draft.laborRate}
+              onChange={e => setDraft({ ...draft, laborRate: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass} title="Approximate real width covered by one photo, used to convert boxes to cm²">
+              Photo frame width (cm)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={Number.isNaN(draft.frameWidthCm) ? '' : draft.frameWidthCm}
+              onChange={e => setDraft({ ...draft, frameWidthCm: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                <th className="text-left p-2">Type</th>
+                {SEVERITIES.map(severity => (
+                  <th key={severity} className="text-left p-2">
+                    {severity}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {DAMAGE_TYPES.map(type => (
+                <tr key={type} className="border-t border-slate-800">
+                  <td className="p-2 font-black text-white capitalize">{type}</td>
+                  {SEVERITIES.map(severity => {
+                    const entry = draft.entries[type][severity];
+                    const cost = entry.laborHours * draft.laborRate + entry.materials;
+                    return (
+                      <td key={severity} className="p-2 align-top space-y-1 min-w-[180px]">
+                        <select
+                          value={entry.method}
+                          onChange={e => updateEntry(type, severity, { method: e.target.value as RepairMethod })}
+                          className={inputClass}
+                        >
+                          {REPAIR_METHODS.map(m => (
+                            <option key={m} value={m}>
+                              {REPAIR_METHOD_LABELS[m]}
+                            </option>
+                          ))}
+                        </select>
+                        <div className="flex gap-1">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={Number.isNaN(entry.laborHours) ? '' : entry.laborHours}
+                            onChange={e => updateEntry(type, severity, { laborHours: toNumber(e.target.value) })}
+                            className={inputClass}
+                            title="Labor hours"
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            value={Number.isNaN(entry.materials) ? '' : entry.materials}
+                            onChange={e => updateEntry(type, severity, { materials: toNumber(e.target.value) })}
+                            className={inputClass}
+                            title="Materials / parts"
+                          />
+                        </div>
+                        <p className="text-[9px] font-mono text-slate-500">
+                          {entry.laborHours}h + materials = {Number.isFinite(cost) ? formatMoney(cost, draft.currency) : '-'}
+                        </p>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold uppercase tracking-tight text-red-400 bg-red-950/40 p-3 rounded-2xl border border-red-900/50">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-2xl bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-blue-500 transition-colors"
+          >
+            <Save size={12} />
+            Save Price Table
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
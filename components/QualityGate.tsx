@@ -0,0 +1,88 @@
+import React from 'react';
+import { AlertTriangle, Camera, Send, Trash2 } from 'lucide-react';
+import { InspectionImage } from '../types';
+import { QUALITY_ISSUE_LABELS, qualityIssueReason, retakeTip } from '../services/photoQuality';
+
+interface QualityGateProps {
+  images: InspectionImage[]; // รูปที่ qualityHold
+  onSelect: (id: string) => void;
+  onSendAnyway: (ids: string[]) => void;
+  onRetake: (id: string) => void; // รูปจากกล้อง = ลบแล้วเปิดกล้องที่มุมเดิม, ไฟล์ = ลบให้ upload ใหม่
+}
+
+/**
+ * รูปที่ไม่ผ่าน quality gate: บอกเหตุผล + วิธีถ่ายใหม่ หรือกดส่งวิเคราะห์ทั้งอย่างนั้น
+ */
+export default function QualityGate({ images, onSelect, onSendAnyway, onRetake }: QualityGateProps) {
+  return (
+    <div className="w-full max-w-7xl mb-6 bg-slate-900 border border-amber-500/30 rounded-3xl p-5 shadow-2xl ring-1 ring-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-400" />
+          <div>
+            <p className="text-sm font-bold tracking-wide">
+              QUALITY CHECK: {images.length} PHOTO{images.length === 1 ? '' : 'S'} HELD BACK
+            </p>
+            <p className="text-[10px] text-slate-500">Not sent for analysis yet — retake for a reliable result, or send anyway.</p>
+          </div>
+        </div>
+        {images.length > 1 && (
+          <button
+            onClick={() => onSendAnyway(images.map(img => img.id))}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-2xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+          >
+            <Send size={12} />
+            Send All Anyway
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {images.map(img => {
+          const quality = img.quality;
+          if (!quality) return null;
+          return (
+            <div
+              key={img.id}
+              className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-2xl bg-slate-950/60 border border-slate-800"
+            >
+              <button onClick={() => onSelect(img.id)} className="flex items-center gap-3 min-w-0 text-left">
+                <img src={img.url} className="w-14 h-14 rounded-xl object-cover border border-slate-800" alt={img.name} />
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-slate-200 truncate">{img.shot?.label ?? img.name}</p>
+                  <p className="text-[10px] font-mono text-amber-400">score {quality.score}/100</p>
+                </div>
+              </button>
+              <ul className="flex-1 space-y-1">
+                {quality.issues.map(issue => (
+                  <li key={issue} className="text-[10px] leading-snug">
+                    <span className="font-black uppercase tracking-widest text-amber-300">{QUALITY_ISSUE_LABELS[issue]}</span>
+                    <span className="text-slate-400"> — {qualityIssueReason(issue, quality.metrics)}. </span>
+                    <span className="text-slate-500">{retakeTip(issue)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onRetake(img.id)}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-amber-500/10 border border-amber-500/40 text-amber-300 text-[10px] font-black uppercase tracking-widest hover:bg-amber-500/20 transition-colors"
+                  title={img.shot ? 'Remove this photo and retake the same angle' : 'Remove this photo, then upload a better one'}
+                >
+                  {img.shot ? <Camera size={12} /> : <Trash2 size={12} />}
+                  {img.shot ? 'Retake' : 'Remove'}
+                </button>
+                <button
+                  onClick={() => onSendAnyway([img.id])}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-colors"
+                >
+                  <Send size={12} />
+                  Send Anyway
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { QueueState, ThrottleQueue } from '../services/rateLimit';
+
+interface QueueStatusProps {
+  queue: ThrottleQueue;
+}
+
+/**
+ * สถานะคิว request ของ provider (รอ/กำลังยิง/เริ่มตัวถัดไปเมื่อไหร่) + ปุ่ม pause/resume
+ */
+export default function QueueStatus({ queue }: QueueStatusProps) {
+  const [state, setState] = useState<QueueState>(() => queue.getState());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => queue.subscribe(setState), [queue]);
+
+  // นับถอยหลังเฉพาะตอนมีงานรอเริ่ม
+  const waitMs = state.nextStartAt !== null ? Math.max(0, state.nextStartAt - now) : 0;
+  useEffect(() => {
+    if (state.nextStartAt === null) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [state.nextStartAt]);
+
+  const idle = state.pending === 0 && state.running === 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] font-mono uppercase text-slate-500 bg-slate-800 px-3 py-1 rounded-full border border-slate-700">
+        {idle ? (
+          'Queue idle'
+        ) : (
+          <>
+            {state.running} running • {state.pending} queued
+            {state.paused ? (
+              <span className="text-yellow-400"> • paused</span>
+            ) : (
+              waitMs > 0 && ` • next in ${Math.ceil(waitMs / 1000)}s`
+            )}
+          </>
+        )}
+      </span>
+      <button
+        onClick={() => (state.paused ? queue.resume() : queue.pause())}
+        className={`p-1.5 rounded-full border transition-colors ${
+          state.paused
+            ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400 hover:bg-yellow-500/20'
+            : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+        }`}
+        title={state.paused ? 'Resume requests' : 'Pause requests (running ones finish)'}
+      >
+        {state.paused ? <Play size={12} /> : <Pause size={12} />}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { QuotaBudget, QuotaSnapshot, formatResetIn } from '../services/quotaBudget';
+import { AnalysisCostEstimate } from '../services/tiling';
+
+interface QuotaMeterProps {
+  budget: QuotaBudget;
+  remaining: AnalysisCostEstimate; // batch ที่ยังไม่ได้รัน
+}
+
+const formatTokens = (n: number) => (n >= 10000 ? `${Math.round(n / 1000)}k` : n.toLocaleString());
+
+function formatDuration(ms: number): string {
+  const min = Math.round(ms / 60000);
+  return min < 1 ? '< 1 min' : `~${min} min`;
+}
+
+/**
+ * meter บน header: โควต้าวันนี้ / ต่อนาที, เวลา reset, และ batch ที่เหลือจะพอไหม
+ */
+export default function QuotaMeter({ budget, remaining }: QuotaMeterProps) {
+  const [snapshot, setSnapshot] = useState<QuotaSnapshot>(() => budget.getSnapshot());
+
+  useEffect(() => budget.subscribe(setSnapshot), [budget]);
+
+  // bucket ต่อนาทีเติมเองตามเวลา + นับถอยหลังเวลา reset
+  useEffect(() => {
+    const timer = window.setInterval(() => setSnapshot(budget.getSnapshot()), 1000);
+    return () => window.clearInterval(timer);
+  }, [budget]);
+
+  const { limits, today } = snapshot;
+  const usedRatio = limits.rpd ? Math.min(1, today.requests / limits.rpd) : 0;
+  const forecast = budget.forecast(remaining);
+  const barColor = snapshot.exhausted || usedRatio >= 0.9 ? 'bg-red-500' : usedRatio >= 0.7 ? 'bg-yellow-500' : 'bg-blue-500';
+
+  return (
+    <div className="inline-flex flex-wrap items-center justify-center gap-x-3 gap-y-1 px-4 py-1.5 rounded-2xl bg-slate-900 border border-slate-800 text-[10px] font-mono text-slate-400">
+      <span className="flex items-center gap-2">
+        <Gauge size={12} className={snapshot.exhausted ? 'text-red-400' : 'text-blue-400'} />
+        <span className={snapshot.exhausted ? 'text-red-400 font-bold' : 'text-slate-200'}>
+          {today.requests}
+          {limits.rpd ? `/${limits.rpd}` : ''} req today
+        </span>
+        {limits.rpd && (
+          <span className="w-16 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <span className={`block h-full ${barColor}`} style={{ width: `${usedRatio * 100}%` }} />
+          </span>
+        )}
+      </span>
+      <span>{formatTokens(today.inputTokens + today.outputTokens)} tokens</span>
+      {limits.rpm && (
+        <span>
+          {snapshot.requestsThisMinute}/{limits.rpm} rpm
+        </span>
+      )}
+      {limits.tpm && (
+        <span>
+          {formatTokens(snapshot.tokensThisMinute)}/{formatTokens(limits.tpm)} tpm
+        </span>
+      )}
+      <span>resets in {formatResetIn(snapshot.resetAt - Date.now())}</span>
+      {forecast.requests > 0 &&
+        (forecast.fitsToday ? (
+          <span className="text-green-400">
+            batch: {forecast.requests} req fits{forecast.durationMs > 0 ? ` (${formatDuration(forecast.durationMs)})` : ''}
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-yellow-400 font-bold">
+            <AlertTriangle size={11} />
+            batch needs {forecast.requests} req, {forecast.remainingRequests} left today
+          </span>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Car, X } from 'lucide-react';
+import { CarPanel } from '../types';
+import { CAR_PANEL_LABELS } from '../services/carPanels';
+
+interface VehicleDiagramProps {
+  counts: Partial<Record<CarPanel, number>>;
+  selected: CarPanel | null;
+  onSelect: (panel: CarPanel | null) => void;
+}
+
+// มุมมองจากด้านบน หน้ารถอยู่ซ้าย → ด้านซ้ายของรถอยู่ล่าง (viewBox 362 x 200)
+const PANEL_RECTS: Record<CarPanel, [number, number, number, number]> = {
+  front_bumper: [10, 40, 20, 120],
+  hood: [32, 50, 70, 100],
+  windshield: [104, 55, 26, 90],
+  roof: [132, 55, 110, 90],
+  rear_window: [244, 55, 24, 90],
+  trunk: [270, 50, 60, 100],
+  rear_bumper: [332, 40, 20, 120],
+  front_left_fender: [32, 152, 70, 20],
+  front_left_door: [104, 152, 70, 20],
+  rear_left_door: [176, 152, 70, 20],
+  rear_left_quarter: [248, 152, 82, 20],
+  left_mirror: [98, 174, 10, 18],
+  left_rocker: [112, 174, 134, 8],
+  front_left_wheel: [46, 174, 36, 14],
+  rear_left_wheel: [262, 174, 36, 14],
+  front_right_fender: [32, 28, 70, 20],
+  front_right_door: [104, 28, 70, 20],
+  rear_right_door: [176, 28, 70, 20],
+  rear_right_quarter: [248, 28, 82, 20],
+  right_mirror: [98, 8, 10, 18],
+  right_rocker: [112, 18, 134, 8],
+  front_right_wheel: [46, 12, 36, 14],
+  rear_right_wheel: [262, 12, 36, 14]
+};
+
+const PANELS = Object.keys(PANEL_RECTS) as CarPanel[];
+
+function panelFill(count: number, max: number): string {
+  if (count === 0) return 'rgba(51, 65, 85, 0.5)';
+  // ยิ่งเยอะยิ่งแดงเข้ม
+  const alpha = 0.35 + 0.55 * (count / Math.max(1, max));
+  return `rgba(239, 68, 68, ${alpha.toFixed(2)})`;
+}
+
+/**
+ * Diagram รถแบบ top-down: สีตามจำนวน damage ต่อ panel, คลิกเพื่อ filter (คลิกซ้ำ = ยกเลิก)
+ */
+export default function VehicleDiagram({ counts, selected, onSelect }: VehicleDiagramProps) {
+  const max = Math.max(0, ...PANELS.map(p => counts[p] ?? 0));
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-4 shadow-2xl">
+      <div className="flex items-center justify-between mb-3 px-2">
+        <h3 className="text-xs font-black uppercase tracking-widest text-slate-500 flex items-center gap-2">
+          <Car size={12} className="text-blue-500" />
+          Panels
+        </h3>
+        {selected && (
+          <button
+            onClick={() => onSelect(null)}
+            className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-blue-300 hover:text-white transition-colors"
+          >
+            {CAR_PANEL_LABELS[selected]}
+            <X size={10} />
+          </button>
+        )}
+      </div>
+      <svg viewBox="0 0 362 200" className="w-full h-auto select-none" role="img" aria-label="Vehicle damage diagram">
+        {PANELS.map(panel => {
+          const [x, y, w, h] = PANEL_RECTS[panel];
+          const count = counts[panel] ?? 0;
+          const isSelected = panel === selected;
+          return (
+            <g key={panel} onClick={() => onSelect(isSelected ? null : panel)} className="cursor-pointer">
+              <title>
+                {CAR_PANEL_LABELS[panel]}: {count} damage
+              </title>
+              <rect
+                x={x}
+                y={y}
+                width={w}
+                height={h}
+                rx={4}
+                fill={panelFill(count, max)}
+                stroke={isSelected ? '#60a5fa' : '#1e293b'}
+                strokeWidth={isSelected ? 2.5 : 1}
+                className="transition-colors hover:brightness-125"
+              />
+              {count > 0 && (
+                <text
+                  x={x + w / 2}
+                  y={y + h / 2}
+                  fontSize={Math.min(12, Math.max(7, Math.min(w, h) * 0.6))}
+                  fontWeight={900}
+                  fill="#fff"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  pointerEvents="none"
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-[9px] font-mono text-slate-600 text-center mt-1">Front ◀ • top view</p>
+    </div>
+  );
+}
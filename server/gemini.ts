@@ -0,0 +1,393 @@
+// server/gemini.ts
+// เรียก Gemini ฝั่ง server: key + throttle + quota กลางของทุก client อยู่ที่นี่ที่เดียว
+// GEMINI_BASE_URL ชี้ไป stub ได้ (server/geminiStub.ts) → ทดสอบครบ flow โดยไม่ใช้ quota จริง
+// model chain ต่องาน (GEMINI_MODELS_DETECT / GEMINI_MODELS_VERIFY): แต่ละ model มีคิว + quota ของตัวเอง
+import {
+  GoogleGenerativeAI,
+  type GenerateContentResult,
+  type GenerativeModel,
+  type Part,
+  type ResponseSchema,
+} from "@google/generative-ai";
+import { isAbortError, ThrottleQueue, withRetry, type JobOptions } from "../services/rateLimit";
+import { QuotaBudget, quotaEnvScope, quotaLimitsFromEnv, type QuotaSnapshot } from "../services/quotaBudget";
+import {
+  AnalysisError,
+  ImageDecodeError,
+  MissingKeyError,
+  ModelUnavailableError,
+  NetworkError,
+  QuotaExhaustedError,
+  RateLimitedError,
+  RequestTooLargeError,
+  SafetyBlockedError,
+} from "../services/analysisErrors";
+import {
+  detectionResponseSchema,
+  parseDetectionResponse,
+  parseZoomBatchResponse,
+  parseZoomVerdict,
+  zoomBatchResponseSchema,
+  zoomVerdictResponseSchema,
+  type DetectionParseResult,
+} from "../services/detectionSchema";
+import {
+  buildDetectionPrompt,
+  buildFingertipPrompt,
+  buildRegionVerifyPrompt,
+  buildZoomBatchPrompt,
+  buildZoomPrompt,
+  stripDataUrlPrefix,
+  zoomBatchImageLabel,
+} from "../services/prompts";
+import {
+  chunk,
+  splitOnTooLarge,
+  zoomBatchSizeFromEnv,
+  type ZoomBatchItem,
+  type ZoomBatchResult,
+} from "../services/zoomBatch";
+import { fallbackVerdict } from "../services/zoomVerdict";
+import {
+  MODEL_TASKS,
+  parseModelChain,
+  runWithFallback,
+  stampDetections,
+  stampVerdict,
+  type FailOverInfo,
+  type ModelChains,
+  type ModelTask,
+} from "../services/modelChain";
+import { GEMINI_MODEL, type ProxyModelStatus } from "../services/proxyApi";
+import type { DamageDetection, DamageType, ShotContext, ZoomVerdictResponse } from "../types";
+
+// เว้นระยะขั้นต่ำไว้นิดหน่อยกัน burst ติดกันเกินไป (RPM/RPD/TPM คุมด้วย budget)
+const MIN_REQUEST_GAP_MS = 1000;
+// finishReason ที่แปลว่าไม่ได้คำตอบเพราะ filter (ลองซ้ำก็โดนเหมือนเดิม)
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY"];
+
+export interface GeminiBackendConfig {
+  apiKey?: string;
+  baseUrl?: string; // ไม่ตั้ง = Google จริง
+  chains: ModelChains; // ลำดับ model ที่ลองต่องาน (ตัวแรก = หลัก)
+  zoomBatchSize: number; // crop สูงสุดต่อ request ของ zoom batch
+}
+
+/**
+ * GEMINI_MODELS_DETECT / GEMINI_MODELS_VERIFY = รายชื่อคั่นด้วย comma
+ * ไม่ตั้ง → GEMINI_MODEL ตัวเดียว (ไม่ตั้งอีก = GEMINI_MODEL ของ proxyApi)
+ */
+export function geminiConfigFromEnv(env: Record<string, string | undefined> = process.env): GeminiBackendConfig {
+  const fallback = env.GEMINI_MODEL || GEMINI_MODEL;
+  const chain = (value?: string) => {
+    const models = parseModelChain(value);
+    return models.length > 0 ? models : [fallback];
+  };
+  return {
+    apiKey: env.GEMINI_API_KEY || undefined,
+    baseUrl: env.GEMINI_BASE_URL || undefined,
+    chains: { detect: chain(env.GEMINI_MODELS_DETECT), verify: chain(env.GEMINI_MODELS_VERIFY) },
+    zoomBatchSize: zoomBatchSizeFromEnv(env, ""),
+  };
+}
+
+// ส่วนของ error จาก SDK (GoogleGenerativeAIFetchError) ที่เราอ่าน — field ไหนก็อาจไม่มี
+interface GeminiSdkError {
+  status?: number;
+  message?: string;
+  errorDetails?: unknown[];
+}
+
+// google.rpc.QuotaFailure ใน errorDetails
+interface QuotaFailureDetail {
+  violations?: Array<{ quotaId?: string; quotaMetric?: string }>;
+}
+
+const sdkError = (err: unknown): GeminiSdkError => (err && typeof err === "object" ? err : {});
+
+/**
+ * 429 แบบโควต้ารายวันหมด (retry ก็ไม่ช่วย)
+ * ดูจาก QuotaFailure ใน errorDetails ก่อน (quotaId เช่น GenerateRequestsPerDayPerProjectPerModel-FreeTier)
+ */
+function isDailyQuotaExceeded(err: unknown): boolean {
+  const { errorDetails, message } = sdkError(err);
+  const details = (Array.isArray(errorDetails) ? errorDetails : []) as Array<QuotaFailureDetail | null>;
+  const violations = details.flatMap((d) => (Array.isArray(d?.violations) ? d.violations : []));
+  if (violations.length > 0) {
+    return violations.some((v) => /PerDay/i.test(String(v?.quotaId ?? v?.quotaMetric ?? "")));
+  }
+  return /RequestsPerDay|per day/i.test(String(message ?? ""));
+}
+
+export type GeminiBackend = ReturnType<typeof createGeminiBackend>;
+
+interface ModelSlot {
+  model: string;
+  budget: QuotaBudget;
+  queue: ThrottleQueue;
+  client: GenerativeModel | null;
+  unavailable: ModelUnavailableError | null; // เคยตอบ 404 → ข้ามไปเลยจน restart server
+}
+
+export function createGeminiBackend(config: GeminiBackendConfig, env: Record<string, string | undefined> = process.env) {
+  const { chains } = config;
+  // ✅ quota กลาง: server ตัวเดียวนับให้ทุก client, แยกต่อ model (Google คิด quota ต่อ model)
+  // ตัวนับอยู่ใน memory → restart แล้วเริ่มใหม่; limit ต่อ model = QUOTA_<MODEL>_RPD ฯลฯ
+  const slots = new Map<string, ModelSlot>();
+  for (const model of new Set([...chains.detect, ...chains.verify])) {
+    const budget = new QuotaBudget("gemini", quotaLimitsFromEnv("gemini", env, "", quotaEnvScope(model)), null);
+    slots.set(model, { model, budget, queue: new ThrottleQueue(1, MIN_REQUEST_GAP_MS, budget), client: null, unavailable: null });
+  }
+  const slot = (model: string) => slots.get(model)!;
+
+  // model แรกใน chain ที่ quota ยังไม่หมด (หมดทุกตัว = ตัวสุดท้าย) → ใช้แสดง quota/ประมาณเวลารอ
+  function activeSlot(task: ModelTask): ModelSlot {
+    const chain = chains[task].map(slot);
+    return chain.find((s) => !s.unavailable && !s.budget.getSnapshot().exhausted) ?? chain[chain.length - 1];
+  }
+
+  function getModel(s: ModelSlot): GenerativeModel {
+    if (s.client) return s.client;
+    if (!config.apiKey) {
+      throw new MissingKeyError("Server is missing GEMINI_API_KEY (set it in .env.local on the server).");
+    }
+    const ai = new GoogleGenerativeAI(config.apiKey);
+    s.client = ai.getGenerativeModel({ model: s.model }, config.baseUrl ? { baseUrl: config.baseUrl } : undefined);
+    return s.client;
+  }
+
+  // error ของ SDK/budget → AnalysisError (server แปลงเป็น code ส่งกลับ client, CLI ใช้ตรง ๆ)
+  function toGeminiError(err: unknown, s: ModelSlot): unknown {
+    if (err instanceof AnalysisError || isAbortError(err)) return err;
+    const { status, message: sdkMessage } = sdkError(err);
+    const message = String(sdkMessage ?? err);
+    if (status === 429) {
+      return isDailyQuotaExceeded(err)
+        ? new QuotaExhaustedError(`Gemini daily quota for ${s.model} is exhausted.`, s.budget.getSnapshot().resetAt)
+        : new RateLimitedError(`Gemini is rate limiting requests to ${s.model}.`, s.budget.requestIntervalMs ?? 15_000);
+    }
+    if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid/i.test(message)) {
+      return new MissingKeyError("Gemini rejected the server's API key.", err);
+    }
+    if (status === 404) {
+      s.unavailable = new ModelUnavailableError(`Gemini model ${s.model} is not available: ${message}`, err);
+      return s.unavailable;
+    }
+    // request ใหญ่เกิน (payload / จำนวนรูป / token) → zoom batch แบ่งครึ่งแล้วลองใหม่
+    if (status === 413 || (status === 400 && /too large|exceeds|too many|token count|payload size/i.test(message))) {
+      return new RequestTooLargeError(`Gemini request to ${s.model} is too large: ${message}`);
+    }
+    if (status === 400 && /image|inline_data|mime/i.test(message)) {
+      return new ImageDecodeError(`Gemini could not read the photo: ${message}`);
+    }
+    if (status === undefined || status === 408 || status >= 500) {
+      return new NetworkError(`Gemini request failed: ${message}`, err);
+    }
+    return new AnalysisError("unknown", `Gemini request failed: ${message}`, { cause: err });
+  }
+
+  /**
+   * helper: run a Gemini call via throttle + budget + retry (ของ model นั้น)
+   * - ทุก attempt นับเข้า budget, token จริงจาก usageMetadata
+   * - signal = client ตัดการเชื่อมต่อ → ไม่ยิง/ยกเลิก request ที่ค้าง
+   */
+  async function runGemini(
+    s: ModelSlot,
+    call: (signal?: AbortSignal) => Promise<GenerateContentResult>,
+    opts?: JobOptions
+  ): Promise<GenerateContentResult> {
+    try {
+      return await s.queue.schedule(async (signal) => {
+        const result = await withRetry(() => call(signal), {
+          signal,
+          // ✅ ลด retry เพราะ retry ทำให้กิน RPD/RPM ไว
+          maxRetries: 2,
+          baseDelayMs: 1500,
+          maxDelayMs: 15000,
+          jitterRatio: 0.25,
+          onRetry: ({ attempt, delayMs, err }) => {
+            // ✅ ถ้าเป็นโควต้าต่อวันหมด ไม่ต้อง retry (และไม่ต้องยิงอีกจนถึงเวลา reset)
+            if (isDailyQuotaExceeded(err)) {
+              s.budget.markDailyExhausted();
+              throw err;
+            }
+            s.budget.recordRequest();
+            console.warn(`[Gemini retry] model=${s.model} attempt=${attempt} delayMs=${delayMs} err=`, err);
+          },
+        });
+        const usage = result.response.usageMetadata;
+        s.budget.recordUsage(
+          usage ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 } : null
+        );
+        return result;
+      }, opts);
+    } catch (err) {
+      throw toGeminiError(err, s);
+    }
+  }
+
+  const imagePart = (image: string): Part => ({ inlineData: { data: stripDataUrlPrefix(image), mimeType: "image/jpeg" } });
+
+  // parts = prompt + รูป (zoom batch = หลายรูปสลับกับ label ใน request เดียว)
+  async function generateJson(s: ModelSlot, parts: Part[], responseSchema: ResponseSchema, opts?: JobOptions) {
+    if (s.unavailable) throw s.unavailable;
+    const m = getModel(s);
+    const result = await runGemini(
+      s,
+      (signal) =>
+        m.generateContent(
+          {
+            contents: [{ role: "user", parts }],
+            generationConfig: {
+              responseMimeType: "application/json",
+              responseSchema,
+            },
+          },
+          { signal }
+        ),
+      opts
+    );
+    // โดน safety filter → SDK โยน error ไม่มีชนิดตอน text() → เช็คเองก่อน
+    const blockReason =
+      result.response.promptFeedback?.blockReason ??
+      BLOCKED_FINISH_REASONS.find((reason) => result.response.candidates?.[0]?.finishReason === reason);
+    if (blockReason || !result.response.candidates?.length) {
+      throw new SafetyBlockedError(`Gemini blocked this photo (${blockReason ?? "no answer"}).`);
+    }
+    return result.response.text();
+  }
+
+  const logFailOver = ({ task, from, to, err }: FailOverInfo) =>
+    console.warn(`[Gemini ${task}] ${from} → ${to}: ${err.message}`);
+
+  // ส่ง crop + prompt → verdict (ใช้ schema + verify chain เดียวกันทั้ง zoom และ fingertip)
+  function verifyCrop(prompt: string, crop: string, fallbackType: DamageType, opts?: JobOptions) {
+    return runWithFallback(
+      "verify",
+      chains.verify,
+      async (model) => {
+        const text = await generateJson(slot(model), [{ text: prompt }, imagePart(crop)], zoomVerdictResponseSchema, opts);
+        return stampVerdict(parseZoomVerdict(text, fallbackType) ?? fallbackVerdict(text, fallbackType), model);
+      },
+      logFailOver
+    );
+  }
+
+  // 1 request = crop หลายชิ้น + label "Close-up N" นำหน้าแต่ละรูป
+  function verifyBatch(items: ZoomBatchItem[], opts?: JobOptions): Promise<ZoomBatchResult> {
+    return runWithFallback(
+      "verify",
+      chains.verify,
+      async (model) => {
+        const parts: Part[] = [
+          { text: buildZoomBatchPrompt(items.map((item) => item.detection)) },
+          ...items.flatMap((item, i) => [{ text: zoomBatchImageLabel(i) }, imagePart(item.image)]),
+        ];
+        const text = await generateJson(slot(model), parts, zoomBatchResponseSchema, opts);
+        const verdicts = parseZoomBatchResponse(text, items.map((item) => item.detection.type));
+        return verdicts.map((verdict) => verdict && stampVerdict(verdict, model));
+      },
+      logFailOver
+    );
+  }
+
+  return {
+    chains,
+    zoomBatchSize: config.zoomBatchSize,
+    // model หลักของการสแกน (ส่วนของ key ใน analysis cache / resume ของ CLI)
+    model: chains.detect[0],
+
+    // quota ของ model ที่ detect จะใช้ตอนนี้ (ไว้โชว์ meter ฝั่ง client)
+    quota(): QuotaSnapshot {
+      return activeSlot("detect").budget.getSnapshot();
+    },
+
+    requestIntervalMs(): number | undefined {
+      return activeSlot("detect").budget.requestIntervalMs;
+    },
+
+    // งานในคิวของทุก model รวมกัน
+    queueState(): { pending: number; running: number } {
+      let pending = 0;
+      let running = 0;
+      for (const s of slots.values()) {
+        const state = s.queue.getState();
+        pending += state.pending;
+        running += state.running;
+      }
+      return { pending, running };
+    },
+
+    models(): ProxyModelStatus[] {
+      return [...slots.values()].map((s) => {
+        const { pending, running } = s.queue.getState();
+        return {
+          model: s.model,
+          tasks: MODEL_TASKS.filter((task) => chains[task].includes(s.model)),
+          available: !s.unavailable,
+          quota: s.budget.getSnapshot(),
+          queue: { pending, running },
+        };
+      });
+    },
+
+    // ✅ structured output: บังคับ shape ด้วย responseSchema (แต่ยัง validate ซ้ำฝั่งเรา)
+    analyzeImage(image: string, shot?: ShotContext, opts?: JobOptions): Promise<DetectionParseResult> {
+      return runWithFallback(
+        "detect",
+        chains.detect,
+        async (model) => {
+          const parts = [{ text: buildDetectionPrompt(shot) }, imagePart(image)];
+          const text = await generateJson(slot(model), parts, detectionResponseSchema, opts);
+          return stampDetections(parseDetectionResponse(text), model);
+        },
+        logFailOver
+      );
+    },
+
+    zoomAnalysis(
+      image: string,
+      detection: Pick<DamageDetection, "type" | "description">,
+      opts?: JobOptions
+    ): Promise<ZoomVerdictResponse> {
+      return verifyCrop(buildZoomPrompt(detection), image, detection.type, opts);
+    },
+
+    // แบ่งทีละ zoomBatchSize crop, ใหญ่เกิน (413 / token limit) → แบ่งครึ่งต่อเอง
+    async zoomAnalysisBatch(items: ZoomBatchItem[], opts?: JobOptions): Promise<ZoomBatchResult> {
+      const verdicts: ZoomBatchResult = [];
+      for (const group of chunk(items, config.zoomBatchSize)) {
+        verdicts.push(...(await splitOnTooLarge(group, (part) => verifyBatch(part, opts))));
+      }
+      return verdicts;
+    },
+
+    // รูปเต็มส่งครั้งเดียว + box ของทุกจุดใน prompt (CLI) → refinedBox เทียบกับทั้งรูป
+    async verifyRegions(
+      image: string,
+      detections: Array<Pick<DamageDetection, "type" | "description" | "boundingBox">>,
+      opts?: JobOptions
+    ): Promise<ZoomBatchResult> {
+      const verdicts: ZoomBatchResult = [];
+      for (const group of chunk(detections, config.zoomBatchSize)) {
+        const result = await runWithFallback(
+          "verify",
+          chains.verify,
+          async (model) => {
+            const parts = [{ text: buildRegionVerifyPrompt(group) }, imagePart(image)];
+            const text = await generateJson(slot(model), parts, zoomBatchResponseSchema, opts);
+            const parsed = parseZoomBatchResponse(text, group.map((det) => det.type));
+            return parsed.map((verdict) => verdict && stampVerdict(verdict, model));
+          },
+          logFailOver
+        );
+        verdicts.push(...result);
+      }
+      return verdicts;
+    },
+
+    fingertipAnalysis(image: string, opts?: JobOptions): Promise<ZoomVerdictResponse> {
+      return verifyCrop(buildFingertipPrompt(), image, "other", opts);
+    },
+  };
+}
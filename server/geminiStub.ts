@@ -0,0 +1,139 @@
+// server/geminiStub.ts
+// Gemini ปลอมสำหรับทดสอบ proxy (ไม่ใช้ key/quota จริง): npm run stub:gemini
+// แล้วรัน proxy ด้วย GEMINI_BASE_URL=http://localhost:8788 GEMINI_API_KEY=stub
+// STUB_MODE = ok (default) | rate_limit | quota | error | safety | garbage | missing
+// → จำลอง 429 ต่อนาที / 429 รายวัน / 500 / โดน safety filter / คำตอบที่ไม่ใช่ JSON / 404 ไม่มี model
+// STUB_MODEL_MODES = mode แยกต่อ model เช่น "gemini-a=quota,gemini-b=missing" (ทดสอบ failover ใน chain)
+// STUB_MAX_IMAGES = รูปต่อ request เกินนี้ → 400 payload exceeds (ทดสอบการแบ่ง zoom batch)
+import { createServer, type ServerResponse } from "node:http";
+
+const PORT = Number(process.env.STUB_PORT) || 8788;
+const MODE = process.env.STUB_MODE || "ok";
+const LATENCY_MS = Number(process.env.STUB_LATENCY_MS) || 300;
+const MAX_IMAGES = Number(process.env.STUB_MAX_IMAGES) || Infinity;
+const MODEL_MODES = new Map(
+  (process.env.STUB_MODEL_MODES ?? "")
+    .split(",")
+    .map((pair) => pair.split("=").map((s) => s.trim()))
+    .filter(([model, mode]) => model && mode) as Array<[string, string]>
+);
+
+// รูปแบบเดียวกับที่ model ตอบ → proxy ผ่าน validation path เดียวกับของจริง
+const DETECTIONS = {
+  detections: [
+    {
+      type: "scratch",
+      description: "Stub: linear scratch along the lower door edge.",
+      confidence: 0.82,
+      isConfirmedDamage: true,
+      panel: "front_left_door",
+      boundingBox: [540, 220, 610, 480],
+    },
+    {
+      type: "dent",
+      description: "Stub: shallow dent on the rear quarter panel.",
+      confidence: 0.64,
+      isConfirmedDamage: false,
+      panel: "rear_left_quarter",
+      boundingBox: [420, 380, 560, 540],
+    },
+  ],
+};
+
+const VERDICT = {
+  verdict: "confirmed",
+  revisedType: "scratch",
+  severity: "minor",
+  refinedBox: [300, 300, 700, 700],
+  rationale: "Stub verification: close-up shows a break in the clear coat.",
+};
+
+function googleError(res: ServerResponse, code: number, status: string, message: string, details: unknown[] = []) {
+  res.writeHead(code, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: { code, status, message, details } }));
+}
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    if (req.method !== "POST" || !/:generateContent$/.test(req.url ?? "")) {
+      googleError(res, 404, "NOT_FOUND", `Stub has no route for ${req.method} ${req.url}`);
+      return;
+    }
+
+    // /v1beta/models/<model>:generateContent
+    const model = decodeURIComponent(/models\/([^/:]+):/.exec(req.url ?? "")?.[1] ?? "");
+    const mode = MODEL_MODES.get(model) ?? MODE;
+
+    setTimeout(() => {
+      if (mode === "missing") {
+        googleError(res, 404, "NOT_FOUND", `Stub: models/${model} is not found for API version v1beta.`);
+        return;
+      }
+      if (mode === "rate_limit") {
+        googleError(res, 429, "RESOURCE_EXHAUSTED", "Stub: per-minute quota exceeded.", [
+          {
+            "@type": "type.googleapis.com/google.rpc.QuotaFailure",
+            violations: [{ quotaId: "GenerateRequestsPerMinutePerProjectPerModel-FreeTier" }],
+          },
+        ]);
+        return;
+      }
+      if (mode === "quota") {
+        googleError(res, 429, "RESOURCE_EXHAUSTED", "Stub: daily quota exceeded.", [
+          {
+            "@type": "type.googleapis.com/google.rpc.QuotaFailure",
+            violations: [{ quotaId: "GenerateRequestsPerDayPerProjectPerModel-FreeTier" }],
+          },
+        ]);
+        return;
+      }
+      if (mode === "error") {
+        googleError(res, 500, "INTERNAL", "Stub: internal error.");
+        return;
+      }
+
+      if (mode === "safety") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ promptFeedback: { blockReason: "SAFETY" }, candidates: [] }));
+        return;
+      }
+
+      let body: any = null;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        googleError(res, 400, "INVALID_ARGUMENT", "Stub: body is not JSON.");
+        return;
+      }
+      const parts: any[] = body?.contents?.[0]?.parts ?? [];
+      const images = parts.filter((part) => part?.inlineData).length;
+      if (images > MAX_IMAGES) {
+        googleError(res, 400, "INVALID_ARGUMENT", `Stub: request payload size exceeds the limit (${images} images).`);
+        return;
+      }
+      // schema มี detections = detection pass, verdicts = zoom batch (1 verdict ต่อจุดในรายการ "N. flagged as"),
+      // ไม่มี = zoom/fingertip verdict
+      const schema = body?.generationConfig?.responseSchema?.properties;
+      const flagged = (String(parts[0]?.text ?? "").match(/^\d+\. flagged as/gm) ?? []).length;
+      const answer = schema?.detections
+        ? DETECTIONS
+        : schema?.verdicts
+          ? { verdicts: Array.from({ length: flagged }, (_, i) => ({ index: i + 1, ...VERDICT })) }
+          : VERDICT;
+      const text = mode === "garbage" ? "Sorry, I can't tell from this photo." : JSON.stringify(answer);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          candidates: [{ content: { role: "model", parts: [{ text }] }, finishReason: "STOP", index: 0 }],
+          usageMetadata: { promptTokenCount: 1290, candidatesTokenCount: Math.ceil(text.length / 4) },
+        })
+      );
+    }, LATENCY_MS);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[gemini stub] listening on http://localhost:${PORT} (mode ${MODE})`);
+});
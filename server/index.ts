@@ -0,0 +1,224 @@
+// server/index.ts
+// proxy เล็ก ๆ ระหว่าง browser กับ Gemini: key อยู่ที่นี่, คิว/quota กลางของทุก client
+// npm run server (dev: vite proxy /api → PORT นี้)
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { isAbortError, JOB_PRIORITY } from "../services/rateLimit";
+import { AnalysisError } from "../services/analysisErrors";
+import {
+  PROXY_ROUTES,
+  ProxyApiError,
+  proxyErrorFrom,
+  type AnalyzeRequest,
+  type FingertipRequest,
+  type ProxyErrorBody,
+  type ProxyResponse,
+  type ProxyStatus,
+  type ZoomBatchRequest,
+  type ZoomRequest,
+} from "../services/proxyApi";
+import { MAX_ZOOM_BATCH_SIZE } from "../services/zoomBatch";
+import { DAMAGE_TYPES } from "../services/detectionSchema";
+import { formatModelChain } from "../services/modelChain";
+import { createGeminiBackend, geminiConfigFromEnv } from "./gemini";
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // ไม่มีไฟล์ → ใช้ env ของ process อย่างเดียว
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_BODY_BYTES = 8 * 1024 * 1024; // high detail ส่งเป็น tile ทีละชิ้น (ไม่มีรูปเต็มขนาด)
+// rate limit ฝั่งรับ: คิวกลางยาวเกินนี้ / client เดียวค้างเกินนี้ → 429 (ไม่ให้คนเดียวจองคิวทั้งหมด)
+const MAX_QUEUED = Number(process.env.PROXY_MAX_QUEUED) || 40;
+const MAX_PENDING_PER_CLIENT = Number(process.env.PROXY_MAX_PER_CLIENT) || 8;
+const MAX_ZOOM_BATCH_ITEMS = 4 * MAX_ZOOM_BATCH_SIZE;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN; // ไม่ตั้ง = same origin เท่านั้น (dev ผ่าน vite proxy)
+// อยู่หลัง reverse proxy ของเราเอง → เชื่อ X-Forwarded-For (ไม่งั้น client ปลอม header หลบ limit ต่อ client ได้)
+const TRUST_PROXY = ["1", "true"].includes((process.env.TRUST_PROXY ?? "").toLowerCase());
+
+const gemini = createGeminiBackend(geminiConfigFromEnv());
+const pendingByClient = new Map<string, number>();
+
+// ----------------------------
+// helpers
+// ----------------------------
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  if (res.writableEnded || res.destroyed) return;
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, err: ProxyApiError) {
+  const body: ProxyErrorBody = err.toBody(gemini.quota());
+  if (err.retryAfterMs) res.setHeader("Retry-After", String(Math.ceil(err.retryAfterMs / 1000)));
+  sendJson(res, err.status, body);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ProxyApiError("payload_too_large", `Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new ProxyApiError("bad_request", "Request body is not valid JSON.");
+  }
+}
+
+function requireImage(body: any): string {
+  if (typeof body?.image !== "string" || body.image.length < 16) {
+    throw new ProxyApiError("bad_request", "Field `image` (JPEG data URL or base64) is required.");
+  }
+  return body.image;
+}
+
+function parseZoomRequest(body: any): ZoomRequest {
+  const detection = body?.detection;
+  if (!DAMAGE_TYPES.includes(detection?.type) || typeof detection?.description !== "string") {
+    throw new ProxyApiError("bad_request", "Field `detection` needs a valid `type` and a `description`.");
+  }
+  return { image: requireImage(body), detection: { type: detection.type, description: detection.description } };
+}
+
+// server แบ่ง batch ตาม ZOOM_BATCH_SIZE เอง → ที่นี่กันแค่ request ที่ใหญ่ผิดปกติ
+function parseZoomBatchRequest(body: any): ZoomBatchRequest {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ZOOM_BATCH_ITEMS) {
+    throw new ProxyApiError("bad_request", `Field \`items\` needs 1-${MAX_ZOOM_BATCH_ITEMS} zoom requests.`);
+  }
+  return { items: items.map(parseZoomRequest) };
+}
+
+// ค่าขวาสุด = IP ที่ proxy ของเราเห็น (ค่าทางซ้าย client ใส่มาเองได้)
+function clientKey(req: IncomingMessage): string {
+  const forwarded = TRUST_PROXY ? String(req.headers["x-forwarded-for"] ?? "").split(",").pop()?.trim() : "";
+  return forwarded || req.socket.remoteAddress || "unknown";
+}
+
+// client ตัดการเชื่อมต่อ (abort ฝั่ง browser) → ยกเลิกงานที่ยังรอคิว/ยิงอยู่
+function disconnectSignal(req: IncomingMessage, res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  req.on("aborted", () => controller.abort());
+  return controller.signal;
+}
+
+// ----------------------------
+// routes
+// ----------------------------
+async function runJob<T>(
+  req: IncomingMessage,
+  res: ServerResponse,
+  job: (signal: AbortSignal) => Promise<T>
+): Promise<void> {
+  const key = clientKey(req);
+  const pending = pendingByClient.get(key) ?? 0;
+  const state = gemini.queueState();
+  if (pending >= MAX_PENDING_PER_CLIENT || state.pending >= MAX_QUEUED) {
+    throw new ProxyApiError(
+      "rate_limited",
+      pending >= MAX_PENDING_PER_CLIENT ? "Too many requests in flight from this client." : "Server queue is full.",
+      Math.max(gemini.requestIntervalMs() ?? 0, 5_000)
+    );
+  }
+
+  pendingByClient.set(key, pending + 1);
+  try {
+    const result = await job(disconnectSignal(req, res));
+    const body: ProxyResponse<T> = { result, model: gemini.model, quota: gemini.quota() };
+    sendJson(res, 200, body);
+  } finally {
+    const left = (pendingByClient.get(key) ?? 1) - 1;
+    if (left > 0) pendingByClient.set(key, left);
+    else pendingByClient.delete(key);
+  }
+}
+
+async function route(req: IncomingMessage, res: ServerResponse) {
+  const path = (req.url ?? "/").split("?")[0];
+
+  if (req.method === "GET" && path === PROXY_ROUTES.status) {
+    const status: ProxyStatus = {
+      model: gemini.model,
+      chains: gemini.chains,
+      models: gemini.models(),
+      quota: gemini.quota(),
+      queue: gemini.queueState(),
+    };
+    return sendJson(res, 200, status);
+  }
+  if (req.method !== "POST") throw new ProxyApiError("not_found", `No route for ${req.method} ${path}.`);
+
+  // priority จาก client (รูปที่เปิดดู/ผู้ใช้สั่ง) ใช้ในคิวกลางด้วย
+  const priority = Math.min(JOB_PRIORITY.user, Math.max(0, Number(req.headers["x-job-priority"]) || 0));
+
+  switch (path) {
+    case PROXY_ROUTES.analyze: {
+      const body = (await readJson(req)) as AnalyzeRequest;
+      const image = requireImage(body);
+      return runJob(req, res, (signal) => gemini.analyzeImage(image, body.shot, { signal, priority }));
+    }
+    case PROXY_ROUTES.zoom: {
+      const { image, detection } = parseZoomRequest(await readJson(req));
+      return runJob(req, res, (signal) => gemini.zoomAnalysis(image, detection, { signal, priority }));
+    }
+    case PROXY_ROUTES.zoomBatch: {
+      const { items } = parseZoomBatchRequest(await readJson(req));
+      return runJob(req, res, (signal) => gemini.zoomAnalysisBatch(items, { signal, priority }));
+    }
+    case PROXY_ROUTES.fingertip: {
+      const image = requireImage((await readJson(req)) as FingertipRequest);
+      return runJob(req, res, (signal) => gemini.fingertipAnalysis(image, { signal, priority }));
+    }
+    default:
+      throw new ProxyApiError("not_found", `No route for POST ${path}.`);
+  }
+}
+
+const server = createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Job-Priority");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+  }
+
+  try {
+    await route(req, res);
+  } catch (err) {
+    if (isAbortError(err)) {
+      // client ไปแล้ว ไม่มีใครรอคำตอบ
+      res.destroy();
+      return;
+    }
+    if (err instanceof ProxyApiError) {
+      sendError(res, err);
+      return;
+    }
+    if (err instanceof AnalysisError) {
+      sendError(res, proxyErrorFrom(err));
+      return;
+    }
+    console.error("[proxy] unexpected error:", err);
+    sendError(res, new ProxyApiError("internal", "Unexpected server error."));
+  }
+});
+
+server.listen(PORT, () => {
+  const target = process.env.GEMINI_BASE_URL ? ` via ${process.env.GEMINI_BASE_URL}` : "";
+  const { detect, verify } = gemini.chains;
+  console.log(
+    `[proxy] listening on http://localhost:${PORT} (detect ${formatModelChain(detect)}, verify ${formatModelChain(verify)}${target})`
+  );
+});
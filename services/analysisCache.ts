@@ -0,0 +1,202 @@
+// services/analysisCache.ts
+// cache ผลวิเคราะห์ตาม hash ของรูป: รูปซ้ำ/เกือบซ้ำ (upload ซ้ำ, re-scan) ไม่ต้องยิง model ใหม่
+// key = content hash + prompt version + model + โหมด (standard/tiled) + มุมกล้อง
+import type { AnalysisState, CacheMatch } from "../types";
+import { createDetectionId } from "./detectionSchema";
+import { loadImage } from "./imageCrop";
+import { withoutMultiAngle } from "./reflectionCheck";
+import { ANALYSIS_CACHE, openDb, promisify, txDone } from "./sessionStore";
+import { STANDARD_MAX_SIZE } from "./tiling";
+
+export const CACHE_MAX_ENTRIES = 300;
+export const CACHE_MAX_BYTES = 4 * 1024 * 1024;
+// dHash 64 bit: ต่างกันไม่เกินนี้ = รูปเดียวกัน (encode ใหม่/ย่อ/ปรับ exposure เล็กน้อย)
+export const SIMILAR_MAX_DISTANCE = 4;
+
+export interface ImageFingerprint {
+  contentHash: string; // SHA-256 ของ pixel หลังย่อเหลือขนาดโหมดปกติ
+  perceptualHash: string; // dHash 16 hex
+}
+
+export interface AnalysisCacheContext {
+  promptVersion: number;
+  model: string;
+  mode: "standard" | "tiled";
+  shotId?: string; // prompt ต่างกันตามมุมกล้อง
+}
+
+export type CachedAnalysis = Pick<AnalysisState, "detections" | "rejected" | "fingertip">;
+
+export interface CacheHit {
+  analysis: CachedAnalysis;
+  analyzedAt: number;
+  match: CacheMatch;
+}
+
+interface CacheEntry {
+  key: string; // group + content hash
+  group: string;
+  perceptualHash: string;
+  analysis: CachedAnalysis;
+  analyzedAt: number;
+  lastUsedAt: number;
+  size: number; // ขนาด JSON โดยประมาณ (ใช้คุม CACHE_MAX_BYTES)
+}
+
+// ----------------------------
+// fingerprint
+// ----------------------------
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function drawPixels(img: HTMLImageElement, width: number, height: number): Uint8ClampedArray | null {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+// difference hash: เทียบความสว่างช่องติดกันบนรูป 9x8
+function dHash(img: HTMLImageElement): string {
+  const data = drawPixels(img, 9, 8);
+  if (!data) return "";
+  const luma = (i: number) => data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  const bytes = new Uint8Array(8);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      if (luma(y * 9 + x) > luma(y * 9 + x + 1)) bytes[y] |= 1 << x;
+    }
+  }
+  return toHex(bytes);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let bits = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let x = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (x) {
+      bits += x & 1;
+      x >>= 1;
+    }
+  }
+  return bits;
+}
+
+/**
+ * hash จาก pixel หลังย่อเป็นขนาดโหมดปกติ (ชื่อไฟล์/EXIF/ขนาดไฟล์ต่างกันไม่มีผล)
+ */
+export async function fingerprintImage(url: string): Promise<ImageFingerprint | null> {
+  const img = await loadImage(url);
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
+  if (!w || !h) return null;
+
+  const scale = Math.min(1, STANDARD_MAX_SIZE / Math.max(w, h));
+  const pixels = drawPixels(img, Math.max(1, Math.round(w * scale)), Math.max(1, Math.round(h * scale)));
+  if (!pixels) return null;
+
+  const digest = await crypto.subtle.digest("SHA-256", pixels);
+  return { contentHash: toHex(new Uint8Array(digest)), perceptualHash: dHash(img) };
+}
+
+// เก็บเฉพาะผลของ AI (detection ที่คนแก้/เพิ่มระหว่างรอ zoom ไม่ใช่ผลของ model)
+// ผลตรวจข้ามรูปขึ้นกับรูปอื่นใน inspection → ตัดออก
+export function toCachedAnalysis(analysis: AnalysisState): CachedAnalysis {
+  return {
+    detections: analysis.detections.filter((det) => !det.provenance).map(withoutMultiAngle),
+    rejected: analysis.rejected,
+    fingertip: analysis.fingertip,
+  };
+}
+
+// id ใหม่ทุกครั้ง (รูปเดียวกันอยู่หลายที่ได้ เช่น upload ซ้ำใน session เดียว)
+export function fromCachedAnalysis(cached: CachedAnalysis): CachedAnalysis {
+  return { ...cached, detections: cached.detections.map((det) => ({ ...det, id: createDetectionId() })) };
+}
+
+const cacheGroup = (ctx: AnalysisCacheContext) =>
+  [`p${ctx.promptVersion}`, ctx.model, ctx.mode, ctx.shotId ?? "-"].join("|");
+
+// ----------------------------
+// lookup / save
+// ----------------------------
+/**
+ * หา content hash ตรงกันก่อน → ไม่เจอค่อยหารูปที่ perceptual hash ใกล้สุด (prompt/model/โหมดเดียวกัน)
+ */
+export async function lookupCachedAnalysis(
+  fingerprint: ImageFingerprint,
+  ctx: AnalysisCacheContext
+): Promise<CacheHit | null> {
+  const group = cacheGroup(ctx);
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_CACHE, "readwrite");
+  const store = tx.objectStore(ANALYSIS_CACHE);
+
+  let entry = (await promisify(store.get(`${group}:${fingerprint.contentHash}`))) as CacheEntry | undefined;
+  let match: CacheMatch = "exact";
+
+  if (!entry && fingerprint.perceptualHash) {
+    const all = (await promisify(store.getAll())) as CacheEntry[];
+    let best = SIMILAR_MAX_DISTANCE + 1;
+    for (const candidate of all) {
+      if (candidate.group !== group) continue;
+      const d = hammingDistance(candidate.perceptualHash, fingerprint.perceptualHash);
+      if (d < best) {
+        best = d;
+        entry = candidate;
+      }
+    }
+    match = "similar";
+  }
+
+  if (entry) store.put({ ...entry, lastUsedAt: Date.now() }); // LRU
+  await txDone(tx);
+  return entry ? { analysis: entry.analysis, analyzedAt: entry.analyzedAt, match } : null;
+}
+
+export async function saveCachedAnalysis(
+  fingerprint: ImageFingerprint,
+  ctx: AnalysisCacheContext,
+  analysis: CachedAnalysis
+): Promise<void> {
+  const group = cacheGroup(ctx);
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key: `${group}:${fingerprint.contentHash}`,
+    group,
+    perceptualHash: fingerprint.perceptualHash,
+    analysis,
+    analyzedAt: now,
+    lastUsedAt: now,
+    size: JSON.stringify(analysis).length,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_CACHE, "readwrite");
+  tx.objectStore(ANALYSIS_CACHE).put(entry);
+  await txDone(tx);
+  await pruneAnalysisCache();
+}
+
+/**
+ * ตัด entry ที่ใช้ล่าสุดนานสุดออกจนอยู่ในขนาดที่กำหนด
+ */
+export async function pruneAnalysisCache(maxEntries = CACHE_MAX_ENTRIES, maxBytes = CACHE_MAX_BYTES): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_CACHE, "readwrite");
+  const store = tx.objectStore(ANALYSIS_CACHE);
+  const entries = (await promisify(store.index("lastUsedAt").getAll())) as CacheEntry[]; // เก่า → ใหม่
+
+  let count = entries.length;
+  let bytes = entries.reduce((n, e) => n + e.size, 0);
+  for (const e of entries) {
+    if (count <= maxEntries && bytes <= maxBytes) break;
+    store.delete(e.key);
+    count--;
+    bytes -= e.size;
+  }
+  await txDone(tx);
+}
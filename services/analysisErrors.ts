@@ -0,0 +1,179 @@
+// services/analysisErrors.ts
+// error ของการวิเคราะห์แบบมีชนิด: queue/UI ตัดสินใจจาก kind + retryAt (ไม่ต้องเดาจากข้อความ)
+import type { AnalysisErrorKind, AnalysisFailure, RecoveryAction } from "../types";
+
+export const RECOVERY_ACTIONS: Record<AnalysisErrorKind, RecoveryAction> = {
+  missing_key: "configure",
+  model_unavailable: "configure",
+  quota_exhausted: "retry_at",
+  rate_limited: "retry_at",
+  network: "retry_now",
+  safety_blocked: "replace_photo",
+  unparseable_response: "retry_now",
+  image_decode: "replace_photo",
+  request_too_large: "retry_now",
+  unknown: "retry_now",
+};
+
+export const ANALYSIS_ERROR_LABELS: Record<AnalysisErrorKind, string> = {
+  missing_key: "API key missing",
+  model_unavailable: "Model unavailable",
+  quota_exhausted: "Daily quota used up",
+  rate_limited: "Rate limited",
+  network: "Connection problem",
+  safety_blocked: "Blocked by safety filter",
+  unparseable_response: "Unreadable model answer",
+  image_decode: "Photo can't be read",
+  request_too_large: "Request too large",
+  unknown: "Analysis failed",
+};
+
+// withRetry ลองซ้ำเองได้เฉพาะชนิดนี้ (ที่เหลือลองซ้ำก็ได้ผลเดิม หรือเปลือง quota เปล่า ๆ)
+const RETRYABLE: AnalysisErrorKind[] = ["rate_limited", "network"];
+
+export class AnalysisError extends Error {
+  readonly retryAt?: number; // ms epoch ที่ควรลองใหม่ (quota reset / Retry-After)
+
+  constructor(
+    readonly kind: AnalysisErrorKind,
+    message: string,
+    opts: { retryAfterMs?: number; retryAt?: number; cause?: unknown } = {}
+  ) {
+    super(message, opts.cause !== undefined ? { cause: opts.cause } : undefined);
+    this.name = "AnalysisError";
+    this.retryAt = opts.retryAt ?? (opts.retryAfterMs ? Date.now() + opts.retryAfterMs : undefined);
+  }
+
+  get retryAfterMs(): number | undefined {
+    return this.retryAt !== undefined ? Math.max(0, this.retryAt - Date.now()) : undefined;
+  }
+
+  get recovery(): RecoveryAction {
+    return RECOVERY_ACTIONS[this.kind];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  toFailure(): AnalysisFailure {
+    return {
+      kind: this.kind,
+      message: this.message,
+      recovery: this.recovery,
+      retryAt: this.retryAt,
+      failedAt: Date.now(),
+    };
+  }
+}
+
+export class MissingKeyError extends AnalysisError {
+  constructor(message = "No API key is configured for the detector.", cause?: unknown) {
+    super("missing_key", message, { cause });
+    this.name = "MissingKeyError";
+  }
+}
+
+// model ใน chain ไม่มีอยู่/ปิดให้บริการ (404) → ข้ามไป model ถัดไป, หมดทุกตัว = ต้องแก้ config
+export class ModelUnavailableError extends AnalysisError {
+  constructor(message: string, cause?: unknown) {
+    super("model_unavailable", message, { cause });
+    this.name = "ModelUnavailableError";
+  }
+}
+
+export class QuotaExhaustedError extends AnalysisError {
+  constructor(message: string, readonly resetAt: number) {
+    super("quota_exhausted", message, { retryAt: resetAt });
+    this.name = "QuotaExhaustedError";
+  }
+}
+
+export class RateLimitedError extends AnalysisError {
+  constructor(message: string, retryAfterMs?: number) {
+    super("rate_limited", message, { retryAfterMs });
+    this.name = "RateLimitedError";
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(message: string, cause?: unknown) {
+    super("network", message, { cause });
+    this.name = "NetworkError";
+  }
+}
+
+export class SafetyBlockedError extends AnalysisError {
+  constructor(message: string) {
+    super("safety_blocked", message);
+    this.name = "SafetyBlockedError";
+  }
+}
+
+export class UnparseableResponseError extends AnalysisError {
+  constructor(message: string, readonly raw?: string) {
+    super("unparseable_response", message);
+    this.name = "UnparseableResponseError";
+  }
+}
+
+export class ImageDecodeError extends AnalysisError {
+  constructor(message = "The photo could not be decoded.") {
+    super("image_decode", message);
+    this.name = "ImageDecodeError";
+  }
+}
+
+// request ใหญ่เกิน (body / จำนวนรูป / token) → batch ของ zoom แบ่งครึ่งแล้วลองใหม่ (services/zoomBatch.ts)
+// ไม่ใช่ความผิดของรูป → ลองใหม่ได้ (เหลือ crop เดียวแล้วยังใหญ่เกินถึงจะมาถึง UI)
+export class RequestTooLargeError extends AnalysisError {
+  constructor(message = "The request is too large for the detector.") {
+    super("request_too_large", message);
+    this.name = "RequestTooLargeError";
+  }
+}
+
+// HTTP status จาก endpoint ใด ๆ → ชนิด (ใช้กับ provider ที่ไม่มี error format ของตัวเอง)
+export function errorForStatus(status: number, message: string, retryAfterMs?: number): AnalysisError {
+  if (status === 401 || status === 403) return new MissingKeyError(message);
+  if (status === 429) return new RateLimitedError(message, retryAfterMs);
+  if (status === 408 || status >= 500) return new NetworkError(message);
+  if (status === 413) return new RequestTooLargeError(message);
+  if (status === 415) return new ImageDecodeError(message);
+  return new AnalysisError("unknown", message);
+}
+
+/**
+ * error อะไรก็ได้ → AnalysisError (ที่มีชนิดแล้วคืนตัวเดิม)
+ * fetch พัง (TypeError) = network, มี status = ตาม errorForStatus
+ */
+export function toAnalysisError(err: unknown): AnalysisError {
+  if (err instanceof AnalysisError) return err;
+  const message = String((err as any)?.message ?? err ?? "Unknown error");
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError(`Could not reach the detector: ${message}`, err);
+  }
+  const status = (err as any)?.status;
+  if (typeof status === "number") return errorForStatus(status, message);
+  return new AnalysisError("unknown", message, { cause: err });
+}
+
+// "Retry at 07:00" / "Retry in 40s" / "Retry now" / ... (ข้อความบนปุ่ม)
+export function recoveryLabel(failure: Pick<AnalysisFailure, "kind" | "recovery" | "retryAt">, now = Date.now()): string {
+  switch (failure.recovery) {
+    case "retry_at": {
+      if (!failure.retryAt || failure.retryAt <= now) return "Retry now";
+      const waitMs = failure.retryAt - now;
+      if (waitMs < 120_000) return `Retry in ${Math.ceil(waitMs / 1000)}s`;
+      const time = new Date(failure.retryAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+      return `Retry at ${time}`;
+    }
+    case "replace_photo":
+      return "Replace photo";
+    case "configure":
+      return failure.kind === "model_unavailable" ? "Check model setup" : "Check API key setup";
+    case "retry_now":
+    default:
+      return "Retry now";
+  }
+}
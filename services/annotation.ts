@@ -0,0 +1,104 @@
+// services/annotation.ts
+// manual annotation: provenance (human vs AI) + undo/redo history ต่อรูป
+import type { DamageDetection, DamageType } from "../types";
+import { createDetectionId } from "./detectionSchema";
+
+export const MAX_HISTORY = 50;
+
+// box เล็กกว่านี้ (0..1000) ถือว่าเป็นการคลิกพลาด ไม่สร้าง box
+export const MIN_BOX_SIZE = 8;
+
+export interface AnnotationHistory {
+  past: DamageDetection[][];
+  future: DamageDetection[][];
+}
+
+export const emptyHistory = (): AnnotationHistory => ({ past: [], future: [] });
+
+export function pushHistory(history: AnnotationHistory, current: DamageDetection[]): AnnotationHistory {
+  return {
+    past: [...history.past, current].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+export function undoHistory(
+  history: AnnotationHistory,
+  current: DamageDetection[]
+): { history: AnnotationHistory; detections: DamageDetection[] } | null {
+  const prev = history.past[history.past.length - 1];
+  if (!prev) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    detections: prev,
+  };
+}
+
+export function redoHistory(
+  history: AnnotationHistory,
+  current: DamageDetection[]
+): { history: AnnotationHistory; detections: DamageDetection[] } | null {
+  const next = history.future[0];
+  if (!next) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    detections: next,
+  };
+}
+
+export function isHumanVerified(det: DamageDetection): boolean {
+  return det.provenance?.humanVerified ?? false;
+}
+
+export function detectionOrigin(det: DamageDetection): "ai" | "human" {
+  return det.provenance?.origin ?? "ai";
+}
+
+// แก้ detection โดยคน → origin เดิม + humanVerified
+export function applyHumanEdit(det: DamageDetection, updates: Partial<DamageDetection>): DamageDetection {
+  return {
+    ...det,
+    ...updates,
+    provenance: {
+      origin: detectionOrigin(det),
+      humanVerified: true,
+      editedAt: Date.now(),
+    },
+  };
+}
+
+export function createHumanDetection(
+  box: DamageDetection["boundingBox"],
+  type: DamageType = "scratch"
+): DamageDetection {
+  return {
+    id: createDetectionId(),
+    type,
+    confidence: 1,
+    boundingBox: box,
+    description: "Added by inspector",
+    isConfirmedDamage: true,
+    provenance: { origin: "human", humanVerified: true, editedAt: Date.now() },
+  };
+}
+
+const clamp1000 = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+
+// box จากจุดสองจุด (ลากได้ทุกทิศ) → [ymin, xmin, ymax, xmax]
+export function boxFromPoints(
+  y1: number,
+  x1: number,
+  y2: number,
+  x2: number
+): DamageDetection["boundingBox"] {
+  return [
+    clamp1000(Math.min(y1, y2)),
+    clamp1000(Math.min(x1, x2)),
+    clamp1000(Math.max(y1, y2)),
+    clamp1000(Math.max(x1, x2)),
+  ];
+}
+
+export function isBoxTooSmall(box: DamageDetection["boundingBox"]): boolean {
+  return box[2] - box[0] < MIN_BOX_SIZE || box[3] - box[1] < MIN_BOX_SIZE;
+}
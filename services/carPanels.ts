@@ -0,0 +1,52 @@
+// services/carPanels.ts
+// label + นับ damage ต่อ panel (ใช้กับ diagram, filter และ export)
+import type { CarPanel, DamageDetection, InspectionImage } from "../types";
+import { isRejectedByVerdict } from "./zoomVerdict";
+
+export const CAR_PANEL_LABELS: Record<CarPanel, string> = {
+  front_bumper: "Front bumper",
+  hood: "Hood",
+  windshield: "Windshield",
+  roof: "Roof",
+  rear_window: "Rear window",
+  trunk: "Trunk / tailgate",
+  rear_bumper: "Rear bumper",
+  front_left_fender: "Front left fender",
+  front_right_fender: "Front right fender",
+  front_left_door: "Front left door",
+  front_right_door: "Front right door",
+  rear_left_door: "Rear left door",
+  rear_right_door: "Rear right door",
+  rear_left_quarter: "Rear left quarter panel",
+  rear_right_quarter: "Rear right quarter panel",
+  left_mirror: "Left mirror",
+  right_mirror: "Right mirror",
+  left_rocker: "Left rocker panel",
+  right_rocker: "Right rocker panel",
+  front_left_wheel: "Front left wheel",
+  front_right_wheel: "Front right wheel",
+  rear_left_wheel: "Rear left wheel",
+  rear_right_wheel: "Rear right wheel",
+};
+
+export const panelLabel = (panel?: CarPanel) => (panel ? CAR_PANEL_LABELS[panel] : "Unassigned panel");
+
+// reflection / Finger Focus ปฏิเสธแล้ว ไม่นับเป็น damage บน diagram
+export function countsAsDamage(det: DamageDetection): boolean {
+  return det.type !== "reflection" && !isRejectedByVerdict(det);
+}
+
+export function countDamageByPanel(images: Pick<InspectionImage, "analysis">[]): Partial<Record<CarPanel, number>> {
+  const counts: Partial<Record<CarPanel, number>> = {};
+  for (const img of images) {
+    for (const det of img.analysis.detections) {
+      if (!det.panel || !countsAsDamage(det)) continue;
+      counts[det.panel] = (counts[det.panel] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+export function imageHasPanel(img: Pick<InspectionImage, "analysis">, panel: CarPanel): boolean {
+  return img.analysis.detections.some((det) => det.panel === panel);
+}
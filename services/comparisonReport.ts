@@ -0,0 +1,312 @@
+// services/comparisonReport.ts
+// "New Damage Report": เฉพาะ damage ที่เพิ่มมาหลัง check-in + รูป check-in/check-out วางคู่กัน (HTML / PDF)
+import { jsPDF } from "jspdf";
+import type { DamageDetection, InspectionImage, RepairPriceTable } from "../types";
+import { cropDetection, loadImage, renderAnnotatedImage } from "./imageCrop";
+import { formatVehicleLabel } from "./inspection";
+import { downloadBlob, exportFileBaseName } from "./inspectionExport";
+import { panelLabel } from "./carPanels";
+import {
+  newDamageEntries,
+  summarizeNewDamageEstimate,
+  type InspectionComparison,
+} from "./inspectionCompare";
+import {
+  assessDetection,
+  formatMoney,
+  formatMoneyCode,
+  imageAspect,
+  loadPriceTable,
+  type DetectionAssessment,
+  type RepairEstimateSummary,
+} from "./repairEstimate";
+import {
+  PAGE_MARGIN,
+  REPORT_CSS,
+  assessmentText,
+  escapeHtml,
+  estimateText,
+  imageSize,
+  pct,
+  vehicleFields,
+  type ReportFormat,
+} from "./reportExport";
+
+interface NewDamageFinding {
+  detection: DamageDetection;
+  assessment: DetectionAssessment;
+  checkOutName: string;
+  checkOutUrl: string | null; // รูป check-out ตีกรอบเฉพาะ damage ใหม่
+  checkOutCropUrl: string | null;
+  checkInName?: string;
+  checkInUrl: string | null; // รูป check-in ที่คู่กัน (กรอบ = damage ที่มีตอนรับรถ)
+  checkInCropUrl: string | null; // ตำแหน่งเดียวกันบนรูป check-in
+}
+
+interface NewDamageReportData {
+  comparison: InspectionComparison;
+  generatedAt: Date;
+  findings: NewDamageFinding[];
+  priceTable: RepairPriceTable;
+  estimate: RepairEstimateSummary;
+}
+
+async function buildNewDamageData(
+  comparison: InspectionComparison,
+  priceTable: RepairPriceTable
+): Promise<NewDamageReportData> {
+  // รูปเดียวกันถูกใช้หลาย finding → decode ครั้งเดียว
+  const loaded = new Map<InspectionImage, HTMLImageElement>();
+  const load = async (item: InspectionImage) => {
+    let img = loaded.get(item);
+    if (!img) {
+      img = await loadImage(item.url);
+      loaded.set(item, img);
+    }
+    return img;
+  };
+
+  const findings: NewDamageFinding[] = [];
+  for (const entry of newDamageEntries(comparison)) {
+    const { image, detection } = entry.checkOut!;
+    const after = await load(image);
+    const paired = entry.pairedCheckInImage;
+    const before = paired ? await load(paired) : null;
+
+    findings.push({
+      detection,
+      assessment: assessDetection(detection, priceTable, imageAspect(image)),
+      checkOutName: image.name,
+      checkOutUrl: renderAnnotatedImage(after, [detection]),
+      checkOutCropUrl: cropDetection(after, detection.boundingBox)?.dataUrl ?? null,
+      checkInName: paired?.name,
+      checkInUrl: before && paired ? renderAnnotatedImage(before, paired.analysis.detections) : null,
+      checkInCropUrl: before ? (cropDetection(before, detection.boundingBox)?.dataUrl ?? null) : null,
+    });
+  }
+
+  return {
+    comparison,
+    generatedAt: new Date(),
+    findings,
+    priceTable,
+    estimate: summarizeNewDamageEstimate(comparison, priceTable),
+  };
+}
+
+function countsText(c: InspectionComparison): string {
+  return `${c.counts.new} new • ${c.counts.pre_existing} pre-existing • ${c.counts.not_visible} no longer visible`;
+}
+
+function findingTitle(f: NewDamageFinding, i: number): string {
+  const status = f.detection.isConfirmedDamage ? "CONFIRMED" : "SUSPECTED";
+  return `#${i + 1} ${f.detection.type.toUpperCase()} • ${status} • ${panelLabel(f.detection.panel)} • ${pct(f.detection.confidence)}`;
+}
+
+// ----------------------------
+// HTML
+// ----------------------------
+const COMPARISON_CSS = `
+.pair { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; margin-top: 8px; }
+.pair figure { margin: 0; }
+.pair img { width: 100%; border-radius: 6px; }
+.pair img.crop { width: 160px; height: 160px; object-fit: cover; border: 3px solid #facc15; margin-top: 6px; }
+.confirmed .pair img.crop { border-color: #ef4444; }
+.pair figcaption { font-size: 12px; font-weight: bold; color: #475569; margin-bottom: 4px; }
+`.trim();
+
+function renderNewDamageHtml(data: NewDamageReportData): string {
+  const { checkIn, checkOut } = data.comparison;
+  const money = (n: number) => formatMoney(n, data.priceTable.currency);
+  const title = formatVehicleLabel(checkOut.vehicle) || checkOut.title;
+
+  const vehicleRows = vehicleFields(checkOut)
+    .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+    .join("");
+
+  const figure = (caption: string, url: string | null, cropUrl: string | null) => `
+  <figure>
+    <figcaption>${escapeHtml(caption)}</figcaption>
+    ${url ? `<img src="${url}" alt="${escapeHtml(caption)}" />` : `<p class="muted">No matching photo.</p>`}
+    ${cropUrl ? `<img class="crop" src="${cropUrl}" alt="${escapeHtml(caption)} detail" />` : ""}
+  </figure>`;
+
+  const findings = data.findings
+    .map(
+      (f, i) => `
+<div class="photo${f.detection.isConfirmedDamage ? " confirmed" : ""}">
+  <h2>${escapeHtml(findingTitle(f, i))}</h2>
+  <div>${escapeHtml(f.detection.description || "-")}</div>
+  <div class="muted">${escapeHtml(assessmentText(f.assessment, money))}</div>
+  <div class="pair">
+    ${figure(`Check-in: ${f.checkInName ?? "-"}`, f.checkInUrl, f.checkInCropUrl)}
+    ${figure(`Check-out: ${f.checkOutName}`, f.checkOutUrl, f.checkOutCropUrl)}
+  </div>
+</div>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>New Damage Report - ${escapeHtml(title)}</title>
+<style>${REPORT_CSS}
+${COMPARISON_CSS}</style>
+</head>
+<body>
+<h1>New Damage Report</h1>
+<p class="muted">${escapeHtml(title)} • Generated ${escapeHtml(data.generatedAt.toLocaleString())}</p>
+
+<h2>Vehicle</h2>
+<table>${vehicleRows}</table>
+
+<h2>Inspections Compared</h2>
+<table>
+<tr><th>Check-in</th><td>${escapeHtml(checkIn.title)} • ${escapeHtml(new Date(checkIn.createdAt).toLocaleString())} • ${checkIn.images.length} photo(s)</td></tr>
+<tr><th>Check-out</th><td>${escapeHtml(checkOut.title)} • ${escapeHtml(new Date(checkOut.createdAt).toLocaleString())} • ${checkOut.images.length} photo(s)</td></tr>
+</table>
+<p>${escapeHtml(countsText(data.comparison))}</p>
+
+<h2>New Damage Repair Estimate</h2>
+<p>${escapeHtml(estimateText(data.estimate, money))}</p>
+<p class="muted">Labor rate ${escapeHtml(money(data.priceTable.laborRate))}/h • rough estimate from photos, not a binding quote.</p>
+
+${data.findings.length === 0 ? `<p class="muted">No new damage found since check-in.</p>` : findings}
+</body>
+</html>`;
+}
+
+// ----------------------------
+// PDF
+// ----------------------------
+async function renderNewDamagePdf(data: NewDamageReportData): Promise<Blob> {
+  const { checkIn, checkOut } = data.comparison;
+  const money = (n: number) => formatMoneyCode(n, data.priceTable.currency);
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const contentW = pageW - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageH - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const writeLines = (text: string, size: number, color: [number, number, number] = [15, 23, 42]) => {
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lines = doc.splitTextToSize(text, contentW) as string[];
+    for (const line of lines) {
+      ensureSpace(size + 4);
+      doc.text(line, PAGE_MARGIN, y + size);
+      y += size + 4;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 12;
+    doc.setFont("helvetica", "bold");
+    writeLines(text, 14);
+    doc.setFont("helvetica", "normal");
+    doc.setDrawColor(226, 232, 240);
+    doc.line(PAGE_MARGIN, y + 2, pageW - PAGE_MARGIN, y + 2);
+    y += 8;
+  };
+
+  doc.setFont("helvetica", "bold");
+  writeLines("New Damage Report", 20);
+  doc.setFont("helvetica", "normal");
+  writeLines(
+    `${formatVehicleLabel(checkOut.vehicle) || checkOut.title} • Generated ${data.generatedAt.toLocaleString()}`,
+    10,
+    [100, 116, 139]
+  );
+
+  heading("Vehicle");
+  for (const [k, v] of vehicleFields(checkOut)) writeLines(`${k}: ${v}`, 10);
+
+  heading("Inspections Compared");
+  writeLines(`Check-in: ${checkIn.title} • ${new Date(checkIn.createdAt).toLocaleString()} • ${checkIn.images.length} photo(s)`, 10);
+  writeLines(`Check-out: ${checkOut.title} • ${new Date(checkOut.createdAt).toLocaleString()} • ${checkOut.images.length} photo(s)`, 10);
+  writeLines(countsText(data.comparison), 10);
+
+  heading("New Damage Repair Estimate");
+  writeLines(estimateText(data.estimate, money), 10);
+  writeLines(
+    `Labor rate ${money(data.priceTable.laborRate)}/h • rough estimate from photos, not a binding quote.`,
+    9,
+    [100, 116, 139]
+  );
+
+  if (data.findings.length === 0) writeLines("No new damage found since check-in.", 10, [100, 116, 139]);
+
+  // 2 คอลัมน์: check-in | check-out
+  const gap = 12;
+  const colW = (contentW - gap) / 2;
+  const drawColumn = async (x: number, top: number, caption: string, url: string | null): Promise<number> => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor(71, 85, 105);
+    doc.text(doc.splitTextToSize(caption, colW)[0] as string, x, top + 9);
+    doc.setFont("helvetica", "normal");
+    if (!url) {
+      doc.setTextColor(100, 116, 139);
+      doc.text("No matching photo.", x, top + 24);
+      return 30;
+    }
+    const { w, h } = await imageSize(url);
+    const drawW = Math.min(colW, ((pageH - PAGE_MARGIN * 2) * 0.35 * w) / h);
+    const drawH = (drawW * h) / w;
+    doc.addImage(url, "JPEG", x, top + 14, drawW, drawH);
+    return drawH + 14;
+  };
+
+  for (let i = 0; i < data.findings.length; i++) {
+    const f = data.findings[i];
+    heading(findingTitle(f, i));
+    writeLines(f.detection.description || "-", 9);
+    writeLines(assessmentText(f.assessment, money), 9, [100, 116, 139]);
+
+    ensureSpace((pageH - PAGE_MARGIN * 2) * 0.35 + 24);
+    const top = y + 4;
+    const left = await drawColumn(PAGE_MARGIN, top, `Check-in: ${f.checkInName ?? "-"}`, f.checkInUrl);
+    const right = await drawColumn(PAGE_MARGIN + colW + gap, top, `Check-out: ${f.checkOutName}`, f.checkOutUrl);
+    y = top + Math.max(left, right) + 8;
+
+    const thumb = 96;
+    if (f.checkInCropUrl || f.checkOutCropUrl) {
+      ensureSpace(thumb + 8);
+      if (f.checkInCropUrl) doc.addImage(f.checkInCropUrl, "JPEG", PAGE_MARGIN, y, thumb, thumb);
+      if (f.checkOutCropUrl) {
+        doc.addImage(f.checkOutCropUrl, "JPEG", PAGE_MARGIN + colW + gap, y, thumb, thumb);
+        doc.setDrawColor(...((f.detection.isConfirmedDamage ? [239, 68, 68] : [250, 204, 21]) as [number, number, number]));
+        doc.setLineWidth(2);
+        doc.rect(PAGE_MARGIN + colW + gap, y, thumb, thumb);
+        doc.setLineWidth(1);
+      }
+      y += thumb + 8;
+    }
+  }
+
+  return doc.output("blob");
+}
+
+export async function generateNewDamageReport(
+  comparison: InspectionComparison,
+  format: ReportFormat,
+  priceTable: RepairPriceTable = loadPriceTable()
+): Promise<void> {
+  const data = await buildNewDamageData(comparison, priceTable);
+  const baseName = `${exportFileBaseName(comparison.checkOut)}-new-damage`;
+
+  if (format === "html") {
+    downloadBlob(new Blob([renderNewDamageHtml(data)], { type: "text/html" }), `${baseName}.html`);
+  } else {
+    downloadBlob(await renderNewDamagePdf(data), `${baseName}.pdf`);
+  }
+}
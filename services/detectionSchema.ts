@@ -0,0 +1,489 @@
+// services/detectionSchema.ts
+import { SchemaType, type ResponseSchema } from "@google/generative-ai";
+import type {
+  CarPanel,
+  DamageDetection,
+  DamageType,
+  FingertipLocation,
+  RejectedDetection,
+  Severity,
+  VerdictOutcome,
+  ZoomVerdictResponse,
+} from "../types";
+import { UnparseableResponseError } from "./analysisErrors";
+
+export const DAMAGE_TYPES: DamageType[] = [
+  "scratch",
+  "dent",
+  "crack",
+  "paint",
+  "reflection",
+  "other",
+];
+
+export const CAR_PANELS: CarPanel[] = [
+  "front_bumper",
+  "hood",
+  "windshield",
+  "roof",
+  "rear_window",
+  "trunk",
+  "rear_bumper",
+  "front_left_fender",
+  "front_right_fender",
+  "front_left_door",
+  "front_right_door",
+  "rear_left_door",
+  "rear_right_door",
+  "rear_left_quarter",
+  "rear_right_quarter",
+  "left_mirror",
+  "right_mirror",
+  "left_rocker",
+  "right_rocker",
+  "front_left_wheel",
+  "front_right_wheel",
+  "rear_left_wheel",
+  "rear_right_wheel",
+];
+
+export const VERDICT_OUTCOMES: VerdictOutcome[] = ["confirmed", "rejected", "uncertain"];
+export const SEVERITIES: Severity[] = ["minor", "moderate", "severe"];
+
+export interface DetectionParseResult {
+  detections: DamageDetection[];
+  rejected: RejectedDetection[];
+  fingertip?: FingertipLocation; // มีนิ้ว inspector ชี้อยู่ในรูป
+}
+
+const detectionItemSchema: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      type: {
+        type: SchemaType.STRING,
+        format: "enum",
+        enum: DAMAGE_TYPES,
+      },
+      description: { type: SchemaType.STRING },
+      confidence: {
+        type: SchemaType.NUMBER,
+        description: "0..1",
+      },
+      isConfirmedDamage: { type: SchemaType.BOOLEAN },
+      panel: {
+        type: SchemaType.STRING,
+        format: "enum",
+        enum: CAR_PANELS,
+        nullable: true,
+      },
+      boundingBox: {
+        type: SchemaType.ARRAY,
+        description: "[ymin, xmin, ymax, xmax] normalized 0..1000",
+        items: { type: SchemaType.INTEGER },
+        minItems: 4,
+        maxItems: 4,
+      },
+    },
+    required: ["type", "description", "confidence", "isConfirmedDamage", "boundingBox"],
+  },
+};
+
+/**
+ * Response schema สำหรับ structured output (responseMimeType = application/json)
+ * → model ถูกบังคับให้ตอบ { detections: [...], fingertip } ตาม shape นี้
+ */
+export const detectionResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    detections: detectionItemSchema,
+    fingertip: {
+      type: SchemaType.OBJECT,
+      nullable: true,
+      properties: {
+        point: {
+          type: SchemaType.ARRAY,
+          description: "[y, x] of the fingertip normalized 0..1000",
+          items: { type: SchemaType.INTEGER },
+          minItems: 2,
+          maxItems: 2,
+        },
+        handBox: {
+          type: SchemaType.ARRAY,
+          description: "[ymin, xmin, ymax, xmax] of the finger/hand normalized 0..1000",
+          items: { type: SchemaType.INTEGER },
+          minItems: 4,
+          maxItems: 4,
+          nullable: true,
+        },
+        confidence: { type: SchemaType.NUMBER, description: "0..1" },
+      },
+      required: ["point", "confidence"],
+    },
+  },
+  required: ["detections"],
+};
+
+export const zoomVerdictResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    verdict: { type: SchemaType.STRING, format: "enum", enum: VERDICT_OUTCOMES },
+    revisedType: { type: SchemaType.STRING, format: "enum", enum: DAMAGE_TYPES },
+    severity: { type: SchemaType.STRING, format: "enum", enum: SEVERITIES },
+    refinedBox: {
+      type: SchemaType.ARRAY,
+      description: "[ymin, xmin, ymax, xmax] normalized 0..1000 within the close-up image",
+      items: { type: SchemaType.INTEGER },
+      minItems: 4,
+      maxItems: 4,
+      nullable: true,
+    },
+    rationale: { type: SchemaType.STRING },
+  },
+  required: ["verdict", "revisedType", "severity", "rationale"],
+};
+
+// หลาย close-up ใน request เดียว → verdict ต่อรูป อ้างด้วย index (1 = รูปแรก)
+export const zoomBatchResponseSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    verdicts: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          index: { type: SchemaType.INTEGER, description: "1-based number of the close-up" },
+          ...zoomVerdictResponseSchema.properties,
+        },
+        required: ["index", ...(zoomVerdictResponseSchema.required ?? [])],
+      },
+    },
+  },
+  required: ["verdicts"],
+};
+
+// ชื่อที่ model ชอบตอบมา → type ของเรา
+const TYPE_ALIASES: Record<string, DamageType> = {
+  scratch: "scratch",
+  scratches: "scratch",
+  scuff: "scratch",
+  scrape: "scratch",
+  dent: "dent",
+  dents: "dent",
+  ding: "dent",
+  crack: "crack",
+  cracks: "crack",
+  chip: "crack",
+  paint: "paint",
+  paintdamage: "paint",
+  paintchip: "paint",
+  peeling: "paint",
+  rust: "paint",
+  reflection: "reflection",
+  glare: "reflection",
+  other: "other",
+};
+
+export function normalizeDamageType(raw: unknown): DamageType | null {
+  if (typeof raw !== "string") return null;
+  const key = raw.toLowerCase().replace(/[^a-z]/g, "");
+  return TYPE_ALIASES[key] ?? null;
+}
+
+// คำที่ model ชอบใช้ → token ของ enum (ลำดับคำไม่สำคัญ: "left front door" = front_left_door)
+const PANEL_TOKEN_ALIASES: Record<string, string> = {
+  bonnet: "hood",
+  boot: "trunk",
+  tailgate: "trunk",
+  liftgate: "trunk",
+  decklid: "trunk",
+  windscreen: "windshield",
+  sill: "rocker",
+  rim: "wheel",
+  tire: "wheel",
+  tyre: "wheel",
+  lh: "left",
+  rh: "right",
+  back: "rear",
+  quarterpanel: "quarter",
+};
+const PANEL_FILLER = new Set(["panel", "lid", "cover", "side", "the", "of"]);
+
+const panelKey = (tokens: string[]) => [...tokens].sort().join(" ");
+const PANEL_BY_KEY = new Map<string, CarPanel>(CAR_PANELS.map((p) => [panelKey(p.split("_")), p]));
+
+export function normalizeCarPanel(raw: unknown): CarPanel | null {
+  if (typeof raw !== "string") return null;
+  const tokens = raw
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .map((t) => PANEL_TOKEN_ALIASES[t] ?? t)
+    .filter((t) => t && !PANEL_FILLER.has(t));
+  if (tokens.length === 0) return null;
+  return PANEL_BY_KEY.get(panelKey(tokens)) ?? null;
+}
+
+function toNumber(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw === "string" && raw.trim() !== "") {
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+const clamp1000 = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+
+/**
+ * รับ box ได้ทั้ง [ymin, xmin, ymax, xmax] และ { ymin, xmin, ymax, xmax }
+ * - ถ้าทุกค่าอยู่ใน 0..1 (มีทศนิยม) ถือว่าเป็นสเกล 0..1 → คูณ 1000
+ * - clamp 0..1000 และสลับ min/max ถ้ามาผิดลำดับ
+ */
+export function normalizeBoundingBox(
+  raw: unknown
+): { box: DamageDetection["boundingBox"] } | { error: string } {
+  let values: unknown[];
+  if (Array.isArray(raw)) {
+    values = raw;
+  } else if (raw && typeof raw === "object") {
+    const o = raw as Record<string, unknown>;
+    values = [o.ymin, o.xmin, o.ymax, o.xmax];
+  } else {
+    return { error: "boundingBox missing" };
+  }
+
+  if (values.length !== 4) return { error: `boundingBox must have 4 values (got ${values.length})` };
+
+  const nums = values.map(toNumber);
+  if (nums.some((n) => n === null)) return { error: "boundingBox contains non-numeric values" };
+
+  let [y1, x1, y2, x2] = nums as number[];
+  const isUnitScale = [y1, x1, y2, x2].every((n) => n >= 0 && n <= 1) && [y1, x1, y2, x2].some((n) => n % 1 !== 0);
+  if (isUnitScale) {
+    [y1, x1, y2, x2] = [y1, x1, y2, x2].map((n) => n * 1000);
+  }
+
+  const ymin = clamp1000(Math.min(y1, y2));
+  const ymax = clamp1000(Math.max(y1, y2));
+  const xmin = clamp1000(Math.min(x1, x2));
+  const xmax = clamp1000(Math.max(x1, x2));
+
+  if (ymax - ymin < 1 || xmax - xmin < 1) return { error: "boundingBox has zero area after clamping" };
+
+  return { box: [ymin, xmin, ymax, xmax] };
+}
+
+function normalizeConfidence(raw: unknown): number | null {
+  const n = toNumber(raw);
+  if (n === null || n < 0) return null;
+  // บาง model ตอบเป็นเปอร์เซ็นต์ (เช่น 85)
+  if (n > 1 && n <= 100) return n / 100;
+  if (n > 100) return null;
+  return n;
+}
+
+function normalizeBoolean(raw: unknown): boolean | null {
+  if (typeof raw === "boolean") return raw;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  return null;
+}
+
+// ✅ id ที่ unique ทั้ง session (ไม่เชื่อ id จาก model)
+let idSeq = 0;
+export function createDetectionId(): string {
+  idSeq = (idSeq + 1) % Number.MAX_SAFE_INTEGER;
+  return `det-${Date.now().toString(36)}-${idSeq.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function snippet(raw: unknown, max = 300): string {
+  let text: string;
+  try {
+    text = typeof raw === "string" ? raw : JSON.stringify(raw);
+  } catch {
+    text = String(raw);
+  }
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/**
+ * Validate + repair item ทีละตัว
+ * item ที่ซ่อมไม่ได้จะไปอยู่ใน `rejected` พร้อมเหตุผล
+ */
+export function validateDetections(items: unknown[]): DetectionParseResult {
+  const detections: DamageDetection[] = [];
+  const rejected: RejectedDetection[] = [];
+
+  for (const item of items) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      rejected.push({ raw: snippet(item), reasons: ["item is not an object"] });
+      continue;
+    }
+
+    const o = item as Record<string, unknown>;
+    const reasons: string[] = [];
+
+    const type = normalizeDamageType(o.type);
+    if (!type) reasons.push(`unknown type "${snippet(o.type, 40)}"`);
+
+    const boxResult = normalizeBoundingBox(o.boundingBox ?? o.box_2d ?? o.bbox);
+    if ("error" in boxResult) reasons.push(boxResult.error);
+
+    const confidence = normalizeConfidence(o.confidence);
+    if (confidence === null) reasons.push("confidence must be a number in 0..1");
+
+    if (o.description !== undefined && typeof o.description !== "string") {
+      reasons.push("description must be a string");
+    }
+
+    const confirmed = o.isConfirmedDamage === undefined ? false : normalizeBoolean(o.isConfirmedDamage);
+    if (confirmed === null) reasons.push("isConfirmedDamage must be a boolean");
+
+    if (reasons.length > 0 || !type || "error" in boxResult || confidence === null || confirmed === null) {
+      rejected.push({ raw: snippet(item), reasons });
+      continue;
+    }
+
+    detections.push({
+      id: createDetectionId(),
+      type,
+      confidence,
+      boundingBox: boxResult.box,
+      description: typeof o.description === "string" ? o.description.trim() : "",
+      isConfirmedDamage: confirmed,
+      // panel ผิด/ไม่รู้ → ปล่อยว่างให้คนระบุ (ไม่ reject ทั้ง item)
+      panel: normalizeCarPanel(o.panel) ?? undefined,
+    });
+  }
+
+  return { detections, rejected };
+}
+
+/**
+ * ตำแหน่งปลายนิ้ว (ไม่ถูกต้อง/ไม่มี → null, ไม่กระทบ detections)
+ */
+export function parseFingertip(raw: unknown): FingertipLocation | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const o = raw as Record<string, unknown>;
+
+  if (!Array.isArray(o.point) || o.point.length !== 2) return null;
+  const nums = o.point.map(toNumber);
+  if (nums.some((n) => n === null)) return null;
+  let [y, x] = nums as number[];
+  if ([y, x].every((n) => n >= 0 && n <= 1) && [y, x].some((n) => n % 1 !== 0)) {
+    [y, x] = [y * 1000, x * 1000];
+  }
+
+  const confidence = normalizeConfidence(o.confidence ?? 1);
+  if (confidence === null) return null;
+
+  const hand = o.handBox == null ? null : normalizeBoundingBox(o.handBox);
+  return {
+    point: [clamp1000(y), clamp1000(x)],
+    handBox: hand && "box" in hand ? hand.box : undefined,
+    confidence,
+  };
+}
+
+/**
+ * Parse raw text จาก model → validated detections (+ fingertip ถ้ามี)
+ * รองรับทั้ง { detections, fingertip } (structured output), array ล้วน และข้อความที่มี JSON ฝังอยู่
+ */
+export function parseDetectionResponse(raw: string): DetectionParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    const match = raw.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    try {
+      parsed = match ? JSON.parse(match[0]) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+  }
+
+  let fingertip: FingertipLocation | null = null;
+  if (parsed && !Array.isArray(parsed) && typeof parsed === "object") {
+    const o = parsed as Record<string, unknown>;
+    fingertip = parseFingertip(o.fingertip);
+    if (Array.isArray(o.detections)) parsed = o.detections;
+  }
+
+  // ไม่ใช่ "ไม่พบ damage" แต่อ่านคำตอบไม่ได้ → error (ไม่งั้นรูปนี้ดูเหมือนไม่มีความเสียหาย)
+  if (!Array.isArray(parsed)) {
+    throw new UnparseableResponseError("The model's answer was not a detection list.", snippet(raw));
+  }
+
+  const result = validateDetections(parsed);
+  return fingertip ? { ...result, fingertip } : result;
+}
+
+function extractJsonObject(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return undefined;
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Parse verdict ของ Finger Focus
+ * - verdict / rationale ต้องมี ไม่งั้น return null (ให้ caller fallback เป็น uncertain)
+ * - revisedType ไม่รู้จัก → ใช้ type เดิม, refinedBox เสีย → ทิ้งเฉพาะ box
+ */
+export function parseZoomVerdict(raw: string, fallbackType: DamageType): ZoomVerdictResponse | null {
+  return verdictFromObject(extractJsonObject(raw), fallbackType);
+}
+
+function verdictFromObject(parsed: unknown, fallbackType: DamageType): ZoomVerdictResponse | null {
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+  const o = parsed as Record<string, unknown>;
+
+  const verdict = typeof o.verdict === "string" ? (o.verdict.toLowerCase() as VerdictOutcome) : null;
+  if (!verdict || !VERDICT_OUTCOMES.includes(verdict)) return null;
+  if (typeof o.rationale !== "string" || !o.rationale.trim()) return null;
+
+  const severity =
+    typeof o.severity === "string" && SEVERITIES.includes(o.severity.toLowerCase() as Severity)
+      ? (o.severity.toLowerCase() as Severity)
+      : undefined;
+
+  const box = o.refinedBox == null ? null : normalizeBoundingBox(o.refinedBox);
+
+  return {
+    verdict,
+    revisedType: normalizeDamageType(o.revisedType) ?? fallbackType,
+    severity,
+    refinedBox: box && "box" in box ? box.box : undefined,
+    rationale: o.rationale.trim(),
+  };
+}
+
+/**
+ * Parse verdict ของ zoom batch → เรียงตามลำดับ close-up ที่ส่งไป
+ * - อ้างด้วย index (1-based) ไม่ใช่ลำดับใน array (model ข้าม/สลับได้)
+ * - index ที่ไม่มีคำตอบ / ตอบเสีย → null (caller ตัดสินใจเองว่าจะทำอะไรกับ crop นั้น)
+ * - ไม่มี array verdicts เลย → UnparseableResponseError ทั้ง batch
+ */
+export function parseZoomBatchResponse(raw: string, fallbackTypes: DamageType[]): Array<ZoomVerdictResponse | null> {
+  const parsed = extractJsonObject(raw);
+  const items = Array.isArray(parsed) ? parsed : (parsed as Record<string, unknown> | undefined)?.verdicts;
+  if (!Array.isArray(items)) {
+    throw new UnparseableResponseError("The model's answer was not a verdict list.", snippet(raw));
+  }
+
+  const verdicts: Array<ZoomVerdictResponse | null> = fallbackTypes.map(() => null);
+  for (const item of items) {
+    const index = Number((item as Record<string, unknown> | null)?.index) - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= verdicts.length || verdicts[index]) continue;
+    verdicts[index] = verdictFromObject(item, fallbackTypes[index]);
+  }
+  return verdicts;
+}
@@ -0,0 +1,96 @@
+// services/detectorProvider.ts
+import type { DamageDetection, ShotContext, ZoomVerdictResponse } from "../types";
+import type { DetectionParseResult } from "./detectionSchema";
+import type { JobOptions, ThrottleQueue } from "./rateLimit";
+import type { QuotaBudget } from "./quotaBudget";
+import type { ZoomBatchResult, ZoomBatchSource } from "./zoomBatch";
+import { geminiProvider, syncProxyStatus } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { createOpenAiCompatProvider } from "./openAiCompatProvider";
+
+export type DetectorProviderId = "gemini" | "mock" | "openai";
+
+/**
+ * Backend ที่ใช้ตรวจ damage + zoom verification
+ * App เรียกผ่าน interface นี้เท่านั้น (ไม่ผูกกับ Gemini SDK)
+ */
+export interface DamageDetectorProvider {
+  readonly id: DetectorProviderId;
+  readonly label: string;
+  readonly model: string; // ชื่อ model (ใช้เป็นส่วนหนึ่งของ key ใน analysis cache)
+  readonly minRequestIntervalMs?: number; // ระยะห่างขั้นต่ำระหว่าง request (ใช้ประมาณเวลา)
+  // คิวของ provider นี้ (UI อ่าน state + pause/resume)
+  readonly queue: ThrottleQueue;
+  // quota RPM/RPD/TPM + การใช้งานวันนี้ (ไม่มี = ไม่มี quota เช่น mock)
+  readonly budget?: QuotaBudget;
+  // opts = priority/signal ของงานในคิว (abort → ไม่ยิง request ที่ยังไม่เริ่ม)
+  // shot = มุมกล้องจากโหมดถ่ายรูป (ใส่ใน prompt เป็น panel context)
+  analyzeImage(base64Image: string, shot?: ShotContext, opts?: JobOptions): Promise<DetectionParseResult>;
+  // verdict ของ crop (refinedBox อยู่ในพิกัดของ crop — caller map กลับเอง)
+  zoomAnalysis(
+    zoomedBase64: string,
+    detection: Pick<DamageDetection, "type" | "description">,
+    opts?: JobOptions
+  ): Promise<ZoomVerdictResponse>;
+  // หลาย crop ใน request เดียว → verdict ตามลำดับ item (services/zoomBatch.ts)
+  // source เป็นฟังก์ชันได้: เรียกตอนงานได้คิวจริง (ZoomBatcher ใช้รวม crop ที่มาระหว่างรอ)
+  zoomAnalysisBatch(source: ZoomBatchSource, opts?: JobOptions): Promise<ZoomBatchResult>;
+  // close-up รอบปลายนิ้วที่ inspector ชี้ (refinedBox อยู่ในพิกัดของ crop เหมือนกัน)
+  fingertipAnalysis(cropBase64: string, opts?: JobOptions): Promise<ZoomVerdictResponse>;
+}
+
+export interface DetectorConfig {
+  provider: DetectorProviderId;
+  openai: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+  };
+}
+
+const PROVIDER_IDS: DetectorProviderId[] = ["gemini", "mock", "openai"];
+
+/**
+ * อ่าน config จาก env (.env.local):
+ * - VITE_DETECTOR_PROVIDER = gemini | mock | openai (default: gemini)
+ * - gemini ยิงผ่าน server proxy (VITE_API_BASE_URL ถ้า server อยู่คนละ origin; key ตั้งที่ server)
+ * - VITE_OPENAI_BASE_URL / VITE_OPENAI_API_KEY / VITE_OPENAI_MODEL สำหรับ openai
+ */
+export function getDetectorConfig(): DetectorConfig {
+  const env = import.meta.env;
+  const requested = (env.VITE_DETECTOR_PROVIDER || "gemini").toLowerCase() as DetectorProviderId;
+  const provider = PROVIDER_IDS.includes(requested) ? requested : "gemini";
+  if (provider !== requested) {
+    console.warn(`Unknown VITE_DETECTOR_PROVIDER "${requested}", falling back to gemini`);
+  }
+
+  return {
+    provider,
+    openai: {
+      baseUrl: env.VITE_OPENAI_BASE_URL || "http://localhost:8000/v1",
+      apiKey: env.VITE_OPENAI_API_KEY || undefined,
+      model: env.VITE_OPENAI_MODEL || "local-vision",
+    },
+  };
+}
+
+export function createDetectorProvider(config: DetectorConfig): DamageDetectorProvider {
+  switch (config.provider) {
+    case "mock":
+      return mockProvider;
+    case "openai":
+      return createOpenAiCompatProvider(config.openai);
+    case "gemini":
+    default:
+      void syncProxyStatus();
+      return geminiProvider;
+  }
+}
+
+let cachedProvider: DamageDetectorProvider | null = null;
+
+export function getDetectorProvider(): DamageDetectorProvider {
+  if (cachedProvider) return cachedProvider;
+  cachedProvider = createDetectorProvider(getDetectorConfig());
+  return cachedProvider;
+}
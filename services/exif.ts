@@ -0,0 +1,295 @@
+// services/exif.ts
+// อ่าน EXIF ของ JPEG ก่อนย่อ (canvas re-encode ทิ้ง EXIF หมด)
+// - orientation: หมุนให้ตั้งตรงก่อนย่อ (browser เก่าไม่หมุนให้ตอนวาดลง canvas)
+// - เวลา/GPS/รุ่นกล้อง: เก็บเป็นหลักฐานใน InspectionImage.metadata
+import type { CaptureTimeFlag, GpsLocation, ImageMetadata, InspectionMeta } from "../types";
+import { loadImage } from "./imageCrop";
+
+export interface ExifData {
+  orientation?: number;
+  make?: string;
+  model?: string;
+  dateTimeOriginal?: string; // "YYYY:MM:DD HH:MM:SS"
+  offsetTimeOriginal?: string; // "+07:00"
+  gps?: GpsLocation;
+  pixelWidth?: number;
+  pixelHeight?: number;
+}
+
+// ยอมให้นาฬิกากล้องคลาด/ถ่ายก่อนเปิดงานเล็กน้อย
+export const CAPTURE_TIME_GRACE_MS = 2 * 60 * 60 * 1000;
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  pixelWidth: 0xa002,
+  pixelHeight: 0xa003,
+  gpsLatRef: 0x0001,
+  gpsLat: 0x0002,
+  gpsLonRef: 0x0003,
+  gpsLon: 0x0004,
+  gpsAltRef: 0x0005,
+  gpsAlt: 0x0006,
+};
+
+// byte ของ type ใน IFD entry (1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL, 7 UNDEFINED, 9 SLONG, 10 SRATIONAL)
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type IfdValue = number | string | number[];
+
+function dataUrlBytes(dataUrl: string): Uint8Array | null {
+  const match = /^data:image\/jpe?g;base64,/i.exec(dataUrl);
+  if (!match) return null;
+  // EXIF อยู่ใน APP1 ต้นไฟล์ (≤ 64KB) → decode แค่ส่วนหัวพอ
+  const head = dataUrl.slice(match[0].length, match[0].length + 96 * 1024);
+  const bin = atob(head.slice(0, head.length - (head.length % 4)));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, IfdValue> {
+  const tags = new Map<number, IfdValue>();
+  if (tiff + offset + 2 > view.byteLength) return tags;
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZE[type];
+    if (!size) continue;
+    // ≤ 4 byte อยู่ใน entry เลย, เกินนั้นเป็น offset จากต้น TIFF header
+    const at = size * n <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (at + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = "";
+      for (let k = 0; k < n; k++) {
+        const c = view.getUint8(at + k);
+        if (c === 0) break;
+        text += String.fromCharCode(c);
+      }
+      tags.set(tag, text.trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = at + k * size;
+      if (type === 3) values.push(view.getUint16(p, little));
+      else if (type === 4) values.push(view.getUint32(p, little));
+      else if (type === 9) values.push(view.getInt32(p, little));
+      else if (type === 5) values.push(view.getUint32(p, little) / (view.getUint32(p + 4, little) || 1));
+      else if (type === 10) values.push(view.getInt32(p, little) / (view.getInt32(p + 4, little) || 1));
+      else values.push(view.getUint8(p));
+    }
+    tags.set(tag, n === 1 ? values[0] : values);
+  }
+  return tags;
+}
+
+const asNumber = (v: IfdValue | undefined) => (typeof v === "number" ? v : undefined);
+const asString = (v: IfdValue | undefined) => (typeof v === "string" && v ? v : undefined);
+
+// [deg, min, sec] → decimal degrees
+function toDegrees(v: IfdValue | undefined, ref: IfdValue | undefined, negativeRef: string): number | undefined {
+  if (!Array.isArray(v) || v.length < 3 || v.some((x) => !Number.isFinite(x))) return undefined;
+  const deg = v[0] + v[1] / 60 + v[2] / 3600;
+  return ref === negativeRef ? -deg : deg;
+}
+
+function readGps(gps: Map<number, IfdValue>): GpsLocation | undefined {
+  const latitude = toDegrees(gps.get(TAG.gpsLat), gps.get(TAG.gpsLatRef), "S");
+  const longitude = toDegrees(gps.get(TAG.gpsLon), gps.get(TAG.gpsLonRef), "W");
+  if (latitude === undefined || longitude === undefined) return undefined;
+  // 0,0 = กล้องเขียน tag แต่ไม่มี fix
+  if (latitude === 0 && longitude === 0) return undefined;
+  const alt = asNumber(gps.get(TAG.gpsAlt));
+  return {
+    latitude: Math.round(latitude * 1e6) / 1e6,
+    longitude: Math.round(longitude * 1e6) / 1e6,
+    altitude: alt === undefined ? undefined : Math.round(gps.get(TAG.gpsAltRef) === 1 ? -alt : alt),
+  };
+}
+
+/**
+ * อ่าน EXIF จาก data URL ของ JPEG (ไม่ใช่ JPEG / ไม่มี EXIF → null)
+ */
+export function readExif(dataUrl: string): ExifData | null {
+  const bytes = dataUrlBytes(dataUrl);
+  if (!bytes || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer);
+
+  let pos = 2;
+  // marker + length + "Exif" ต้องอยู่ในส่วนที่ decode มาครบ (ไฟล์ถูกตัดที่ 96KB base64)
+  while (pos + 10 <= bytes.length) {
+    if (bytes[pos] !== 0xff) return null;
+    const marker = bytes[pos + 1];
+    const length = view.getUint16(pos + 2);
+    // APP1 + "Exif\0\0"
+    if (marker === 0xe1 && view.getUint32(pos + 4) === 0x45786966) {
+      const tiff = pos + 10;
+      if (tiff + 8 > bytes.length) return null;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const exifOffset = asNumber(ifd0.get(TAG.exifIfd));
+      const gpsOffset = asNumber(ifd0.get(TAG.gpsIfd));
+      const exif = exifOffset ? readIfd(view, tiff, exifOffset, little) : new Map<number, IfdValue>();
+      const gps = gpsOffset ? readIfd(view, tiff, gpsOffset, little) : undefined;
+      return {
+        orientation: asNumber(ifd0.get(TAG.orientation)),
+        make: asString(ifd0.get(TAG.make)),
+        model: asString(ifd0.get(TAG.model)),
+        dateTimeOriginal: asString(exif.get(TAG.dateTimeOriginal)),
+        offsetTimeOriginal: asString(exif.get(TAG.offsetTimeOriginal)),
+        gps: gps && readGps(gps),
+        pixelWidth: asNumber(exif.get(TAG.pixelWidth)),
+        pixelHeight: asNumber(exif.get(TAG.pixelHeight)),
+      };
+    }
+    // SOS = เริ่ม image data แล้ว ไม่มี EXIF
+    if (marker === 0xda) return null;
+    pos += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * "2024:05:01 14:03:22" (+ "+07:00") → epoch ms
+ * ไม่มี offset → ถือเป็นเวลาท้องถิ่นของเครื่องที่เปิดแอป (กล้องส่วนใหญ่ตั้งตามเวลาท้องถิ่น)
+ */
+export function parseExifDateTime(value: string, offset?: string): number | undefined {
+  const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m) return undefined;
+  const iso = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+  const time = new Date(offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${iso}${offset}` : iso).getTime();
+  return Number.isFinite(time) ? time : undefined;
+}
+
+// ----------------------------
+// orientation
+// ----------------------------
+const swapsAxes = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+/**
+ * วาดรูปให้ตั้งตรงตาม EXIF orientation (browser ที่หมุนให้เองแล้วไม่ต้องทำซ้ำ)
+ * คืน url เดิมถ้าไม่ต้องหมุน
+ */
+export async function applyExifOrientation(
+  dataUrl: string,
+  exif: ExifData | null
+): Promise<{ url: string; width: number; height: number }> {
+  const img = await loadImage(dataUrl);
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
+  const orientation = exif?.orientation ?? 1;
+  if (orientation <= 1 || orientation > 8 || !w || !h) return { url: dataUrl, width: w, height: h };
+
+  // browser ใหม่หมุนตาม EXIF ตอน decode แล้ว: รู้จากขนาดที่สลับแกนเทียบกับ EXIF
+  // ไม่มีขนาดใน EXIF → ดูว่ารองรับ image-orientation ไหม
+  const alreadyApplied =
+    exif?.pixelWidth && exif?.pixelHeight && exif.pixelWidth !== exif.pixelHeight && swapsAxes(orientation)
+      ? w === exif.pixelHeight && h === exif.pixelWidth
+      : typeof CSS !== "undefined" && CSS.supports?.("image-orientation", "from-image");
+  if (alreadyApplied) return { url: dataUrl, width: w, height: h };
+
+  const [outW, outH] = swapsAxes(orientation) ? [h, w] : [w, h];
+  const canvas = document.createElement("canvas");
+  canvas.width = outW;
+  canvas.height = outH;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { url: dataUrl, width: w, height: h };
+
+  // transform ตามตาราง EXIF (2..8)
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, w, 0],
+    3: [-1, 0, 0, -1, w, h],
+    4: [1, 0, 0, -1, 0, h],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, h, 0],
+    7: [0, -1, -1, 0, h, w],
+    8: [0, -1, 1, 0, 0, w],
+  };
+  ctx.setTransform(...transforms[orientation]);
+  ctx.drawImage(img, 0, 0);
+  return { url: canvas.toDataURL("image/jpeg", 0.95), width: outW, height: outH };
+}
+
+// ----------------------------
+// metadata
+// ----------------------------
+/**
+ * EXIF → metadata + รูปที่หมุนตั้งตรงแล้ว (ใช้ url นี้ต่อทั้ง quality gate / downscale / high detail)
+ */
+export async function ingestUpload(dataUrl: string): Promise<{ url: string; metadata: ImageMetadata }> {
+  const exif = readExif(dataUrl);
+  const upright = await applyExifOrientation(dataUrl, exif);
+  return {
+    url: upright.url,
+    metadata: {
+      source: "upload",
+      capturedAt: exif?.dateTimeOriginal ? parseExifDateTime(exif.dateTimeOriginal, exif.offsetTimeOriginal) : undefined,
+      capturedAtText: exif?.dateTimeOriginal,
+      gps: exif?.gps,
+      make: exif?.make,
+      model: exif?.model,
+      orientation: exif?.orientation,
+      originalSize: { width: upright.width, height: upright.height },
+    },
+  };
+}
+
+// รูปจากกล้องในแอป: ไม่มี EXIF แต่รู้เวลาถ่ายแน่นอน
+export async function cameraMetadata(dataUrl: string, capturedAt = Date.now()): Promise<ImageMetadata> {
+  const img = await loadImage(dataUrl);
+  return { source: "camera", capturedAt, originalSize: { width: img.naturalWidth, height: img.naturalHeight } };
+}
+
+/**
+ * ช่วง inspection = createdAt .. finalizedAt (ยังไม่ปิดงาน = ถึงตอนนี้) ± CAPTURE_TIME_GRACE_MS
+ * null = อยู่ในช่วง หรือรูปเก่าที่ไม่มี metadata
+ */
+export function captureTimeFlag(
+  metadata: ImageMetadata | undefined,
+  inspection: Pick<InspectionMeta, "createdAt" | "finalizedAt">,
+  now = Date.now()
+): CaptureTimeFlag | null {
+  if (!metadata) return null;
+  if (metadata.capturedAt === undefined) return "unknown";
+  if (metadata.capturedAt < inspection.createdAt - CAPTURE_TIME_GRACE_MS) return "before_inspection";
+  if (metadata.capturedAt > (inspection.finalizedAt ?? now) + CAPTURE_TIME_GRACE_MS) return "after_inspection";
+  return null;
+}
+
+export const CAPTURE_TIME_FLAG_LABELS: Record<CaptureTimeFlag, string> = {
+  before_inspection: "Taken before this inspection",
+  after_inspection: "Taken after this inspection",
+  unknown: "No capture time",
+};
+
+export const formatGps = (gps: GpsLocation) => `${gps.latitude.toFixed(5)}, ${gps.longitude.toFixed(5)}`;
+
+export const mapLink = (gps: GpsLocation) =>
+  `https://www.openstreetmap.org/?mlat=${gps.latitude}&mlon=${gps.longitude}#map=18/${gps.latitude}/${gps.longitude}`;
+
+export const deviceLabel = (metadata: ImageMetadata) => {
+  // model มักมียี่ห้อนำหน้าอยู่แล้ว ("Apple" + "iPhone 14" vs "samsung" + "SM-S911B")
+  if (metadata.make && metadata.model?.toLowerCase().startsWith(metadata.make.toLowerCase())) return metadata.model;
+  return [metadata.make, metadata.model].filter(Boolean).join(" ") || undefined;
+};
+
+// 1 บรรทัดสำหรับ report: "Taken 5/1/2024, 2:03 PM • iPhone 14 • GPS 13.75630, 100.50180"
+export function captureSummary(metadata: ImageMetadata): string {
+  const when =
+    metadata.capturedAt !== undefined
+      ? `${metadata.source === "camera" ? "Captured in app" : "Taken"} ${new Date(metadata.capturedAt).toLocaleString()}`
+      : "Capture time unknown";
+  return [when, deviceLabel(metadata), metadata.gps && `GPS ${formatGps(metadata.gps)}`].filter(Boolean).join(" • ");
+}
@@ -0,0 +1,146 @@
+// services/fingerFocus.ts
+// Finger Focus จริง: หาปลายนิ้วที่ inspector ชี้ → zoom pass ความละเอียดสูงรอบปลายนิ้วก่อน detection อื่น
+// นิ้ว/มือเองห้ามกลายเป็น damage
+import type { DamageDetection, FingertipLocation, ZoomVerdictResponse } from "../types";
+import { createDetectionId, type DetectionParseResult } from "./detectionSchema";
+import { mapCropBoxToImage, type CropResult, type PixelRect } from "./imageCrop";
+import { boxIoU } from "./tiling";
+import { applyZoomVerdict } from "./zoomVerdict";
+import { isHumanVerified } from "./annotation";
+import { PROMPT_VERSION } from "./prompts";
+
+// ต่ำกว่านี้ถือว่าไม่ได้ชี้ (มือที่ติดมาในรูปเฉย ๆ)
+export const FINGERTIP_MIN_CONFIDENCE = 0.5;
+// ด้านของ crop = สัดส่วนของด้านสั้นของรูป (ขั้นต่ำเป็น pixel)
+export const FINGERTIP_CROP_FRACTION = 0.3;
+export const FINGERTIP_CROP_MIN_PX = 256;
+// ละเอียดกว่า zoom ปกติ (ZOOM_CROP_SIZE = 512) เพราะ damage ที่ต้องชี้มักเล็กมาก
+export const FINGERTIP_CROP_SIZE = 1024;
+export const FINGERTIP_CROP_QUALITY = 0.9;
+// detection ที่ถูกมือบังเกินสัดส่วนนี้ = นิ้ว/มือ ไม่ใช่ damage
+export const HAND_OVERLAP_THRESHOLD = 0.6;
+// box เล็ก ๆ ที่ปลายนิ้วพอดี = เล็บ/ปลายนิ้ว
+const FINGERTIP_RADIUS = 25;
+const FINGERTIP_MAX_AREA = 0.005;
+
+export const INSPECTOR_INDICATED_LABEL = "Inspector-indicated";
+
+export const isPointing = (fingertip?: FingertipLocation | null): fingertip is FingertipLocation =>
+  Boolean(fingertip && fingertip.confidence >= FINGERTIP_MIN_CONFIDENCE);
+
+/**
+ * crop สี่เหลี่ยมจัตุรัสรอบปลายนิ้ว (ชิดขอบรูปถ้าปลายนิ้วอยู่ใกล้ขอบ)
+ */
+export function computeFingertipCropRect(
+  point: FingertipLocation["point"],
+  naturalWidth: number,
+  naturalHeight: number
+): PixelRect {
+  const w = naturalWidth || 1;
+  const h = naturalHeight || 1;
+  const side = Math.min(w, h, Math.max(FINGERTIP_CROP_MIN_PX, Math.min(w, h) * FINGERTIP_CROP_FRACTION));
+  const cx = (point[1] / 1000) * w;
+  const cy = (point[0] / 1000) * h;
+  const sx = Math.min(Math.max(0, cx - side / 2), w - side);
+  const sy = Math.min(Math.max(0, cy - side / 2), h - side);
+  return { sx, sy, sw: side, sh: side };
+}
+
+export function cropFingertip(img: HTMLImageElement, fingertip: FingertipLocation): CropResult | null {
+  const rect = computeFingertipCropRect(fingertip.point, img.naturalWidth, img.naturalHeight);
+  // ไม่ขยายเกินต้นฉบับ (รูปโหมดปกติมีแค่ 1280px)
+  const size = Math.max(1, Math.round(Math.min(FINGERTIP_CROP_SIZE, rect.sw)));
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  canvas.width = size;
+  canvas.height = size;
+  ctx.drawImage(img, rect.sx, rect.sy, rect.sw, rect.sh, 0, 0, size, size);
+  return { dataUrl: canvas.toDataURL("image/jpeg", FINGERTIP_CROP_QUALITY), rect };
+}
+
+function coveredFraction(box: DamageDetection["boundingBox"], cover: DamageDetection["boundingBox"]): number {
+  const iy = Math.max(0, Math.min(box[2], cover[2]) - Math.max(box[0], cover[0]));
+  const ix = Math.max(0, Math.min(box[3], cover[3]) - Math.max(box[1], cover[1]));
+  const area = (box[2] - box[0]) * (box[3] - box[1]);
+  return area > 0 ? (iy * ix) / area : 0;
+}
+
+export function isFingerRegion(det: DamageDetection, fingertip: FingertipLocation): boolean {
+  if (fingertip.handBox && coveredFraction(det.boundingBox, fingertip.handBox) >= HAND_OVERLAP_THRESHOLD) return true;
+  const [ymin, xmin, ymax, xmax] = det.boundingBox;
+  const [py, px] = fingertip.point;
+  const atTip = Math.hypot((ymin + ymax) / 2 - py, (xmin + xmax) / 2 - px) <= FINGERTIP_RADIUS;
+  return atTip && ((ymax - ymin) * (xmax - xmin)) / 1_000_000 < FINGERTIP_MAX_AREA;
+}
+
+/**
+ * ตัด detection ที่เป็นนิ้ว/มือออก → ไปอยู่ใน rejected พร้อมเหตุผล
+ */
+export function excludeFingerRegion(result: DetectionParseResult): DetectionParseResult {
+  const fingertip = result.fingertip;
+  if (!isPointing(fingertip)) return result;
+  const finger = result.detections.filter((det) => isFingerRegion(det, fingertip));
+  if (finger.length === 0) return result;
+  return {
+    ...result,
+    detections: result.detections.filter((det) => !finger.includes(det)),
+    rejected: [
+      ...result.rejected,
+      ...finger.map((det) => ({
+        raw: `${det.type} ${det.boundingBox.join(",")}`,
+        reasons: ["inspector's finger/hand, not damage"],
+      })),
+    ],
+  };
+}
+
+// ไม่มี refinedBox → box เล็ก ๆ กลาง crop (ปลายนิ้วอยู่กลาง crop)
+const DEFAULT_CROP_BOX: DamageDetection["boundingBox"] = [400, 400, 600, 600];
+
+/**
+ * เอาผล zoom pass ของปลายนิ้วมาใส่ใน detections
+ * - rejected → ไม่เพิ่มอะไร (ชี้แล้วไม่เจอ damage)
+ * - ทับกับ detection เดิม (ที่คนยังไม่แก้) → อัปเดตตัวนั้นด้วย verdict + flag
+ * - ไม่งั้น → เพิ่ม detection ใหม่ที่ flag ว่า inspector ชี้
+ * คืน id ของ detection ที่ถูก flag (ไม่มี = null)
+ * newId ส่งมาจาก caller ได้ (ให้ผลเหมือนเดิมถ้าถูกเรียกซ้ำใน setState updater)
+ */
+export function applyFingertipVerdict(
+  detections: DamageDetection[],
+  response: ZoomVerdictResponse,
+  crop: CropResult,
+  naturalWidth: number,
+  naturalHeight: number,
+  newId = createDetectionId()
+): { detections: DamageDetection[]; indicatedId: string | null } {
+  if (response.verdict === "rejected") return { detections, indicatedId: null };
+
+  const box = mapCropBoxToImage(response.refinedBox ?? DEFAULT_CROP_BOX, crop.rect, naturalWidth, naturalHeight);
+  const match = detections
+    .filter((det) => !isHumanVerified(det))
+    .map((det) => ({ det, iou: boxIoU(det.boundingBox, box) }))
+    .filter(({ det, iou }) => iou >= 0.3 || coveredFraction(box, det.boundingBox) >= 0.8)
+    .sort((a, b) => b.iou - a.iou)[0]?.det;
+
+  if (match) {
+    const updated = { ...applyZoomVerdict(match, response, crop.rect, naturalWidth, naturalHeight), inspectorIndicated: true };
+    return { detections: detections.map((d) => (d.id === match.id ? updated : d)), indicatedId: match.id };
+  }
+
+  const base: DamageDetection = {
+    id: newId,
+    type: response.revisedType,
+    confidence: response.verdict === "confirmed" ? 0.9 : 0.6,
+    boundingBox: box,
+    description: response.rationale,
+    isConfirmedDamage: false,
+    inspectorIndicated: true,
+    model: response.model,
+    promptVersion: PROMPT_VERSION,
+  };
+  return {
+    detections: [...detections, applyZoomVerdict(base, response, crop.rect, naturalWidth, naturalHeight)],
+    indicatedId: newId,
+  };
+}
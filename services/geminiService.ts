@@ -1,157 +1,146 @@
 // services/geminiService.ts
-import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
-import { ThrottleQueue, withRetry } from "./rateLimit";
-import type { DamageDetection } from "../types";
-
-// ✅ Free tier RPM=5 → เว้นอย่างน้อย ~12s ต่อ 1 request (กัน 429)
-const limiter = new ThrottleQueue(1, 13000);
-
-// --- config ---
-const MODEL_NAME = "gemini-3-flash-preview";
-
-function getApiKey(): string {
-  const key = (import.meta.env.VITE_GEMINI_API_KEY as string) || "";
-  if (!key) {
-    throw new Error(
-      "Missing VITE_GEMINI_API_KEY. Please set it in .env.local (local) and Vercel Environment Variables (prod)."
-    );
+// Gemini ผ่าน server proxy (server/index.ts): key ไม่อยู่ใน bundle ของ browser
+// คิว/quota จริงอยู่ที่ server (รวมทุก client) — ฝั่งนี้ sync ตัวเลขจาก response มาแสดง + กันยิงเกิน
+import { resolvePriority, ThrottleQueue, withRetry, type JobOptions } from "./rateLimit";
+import { QuotaBudget, quotaLimitsFromEnv } from "./quotaBudget";
+import type { DetectionParseResult } from "./detectionSchema";
+import type { DamageDetectorProvider } from "./detectorProvider";
+import { NetworkError } from "./analysisErrors";
+import { formatModelChain, type ModelChains } from "./modelChain";
+import {
+  GEMINI_MODEL,
+  PROXY_ROUTES,
+  analysisErrorFromProxy,
+  parseProxyError,
+  type AnalyzeRequest,
+  type FingertipRequest,
+  type ProxyResponse,
+  type ProxyStatus,
+  type ZoomBatchRequest,
+  type ZoomRequest,
+} from "./proxyApi";
+import { resolveZoomBatch, type ZoomBatchResult, type ZoomBatchSource } from "./zoomBatch";
+import type { DamageDetection, ShotContext, ZoomVerdictResponse } from "../types";
+
+// ไม่ตั้ง = same origin (dev: vite proxy /api → server)
+const API_BASE = (import.meta.env.VITE_API_BASE_URL || "").replace(/\/+$/, "");
+
+// limit เริ่มต้นจาก env จนกว่าจะได้ค่าจริงจาก server (sync ทุก response)
+const budget = new QuotaBudget("gemini", quotaLimitsFromEnv("gemini"));
+const limiter = new ThrottleQueue(1, 0, budget);
+// chain จริงอยู่ที่ server (GEMINI_MODELS_*) — ได้มาตอน sync status, ก่อนนั้นใช้ model ตั้งต้น
+let chains: ModelChains = { detect: [GEMINI_MODEL], verify: [GEMINI_MODEL] };
+
+async function postProxy<T>(path: string, body: unknown, signal?: AbortSignal, priority?: number): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(priority !== undefined ? { "X-Job-Priority": String(priority) } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new NetworkError("Could not reach the analysis server.", err);
   }
-  return key;
-}
-
-// ✅ cache model (ไม่สร้าง client/model ใหม่ทุกครั้ง)
-let cachedModel: GenerativeModel | null = null;
-
-function getModel(): GenerativeModel {
-  if (cachedModel) return cachedModel;
-  const apiKey = getApiKey();
-  const ai = new GoogleGenerativeAI(apiKey);
-  cachedModel = ai.getGenerativeModel({ model: MODEL_NAME });
-  return cachedModel;
-}
-
-function isDailyQuotaExceeded(err: unknown): boolean {
-  const msg = String((err as any)?.message ?? "");
-  // เจอคำพวกนี้ใน error 429 แบบ "quota per day" → retry ก็ไม่ช่วย
-  return (
-    msg.includes("GenerateRequestsPerDay") ||
-    msg.includes("quota") ||
-    msg.includes("Quota exceeded")
-  );
+  const json = await res.json().catch(() => null);
+  if (json?.quota) budget.sync(json.quota);
+  if (!res.ok) {
+    const err = analysisErrorFromProxy(parseProxyError(res.status, json));
+    if (err.kind === "quota_exhausted") budget.markDailyExhausted();
+    throw err;
+  }
+  return (json as ProxyResponse<T>).result;
 }
 
 /**
- * helper: run a Gemini call via throttle + retry
+ * helper: ส่งงานผ่านคิวของ browser → proxy
+ * - server retry กับ Gemini ให้แล้ว → ฝั่งนี้ retry แค่ rate_limited (รอตาม retryAfter) กับ network หลุด
+ * - error ที่เหลือ (quota หมด, key, safety ...) ส่งต่อให้ App ตัดสินใจตามชนิด
+ * - body เป็นฟังก์ชันได้: สร้างตอนงานได้คิว (ครั้งเดียว ไม่สร้างใหม่ตอน retry)
  */
-async function runGemini<T>(call: () => Promise<T>): Promise<T> {
-  return limiter.schedule(() =>
-    withRetry(call, {
-      // ✅ ลด retry เพราะ retry ทำให้กิน RPD/RPM ไว
+function runProxy<T>(path: string, body: unknown | (() => unknown), opts?: JobOptions): Promise<T> {
+  return limiter.schedule((signal) => {
+    const payload = typeof body === "function" ? body() : body;
+    return withRetry(() => postProxy<T>(path, payload, signal, resolvePriority(opts?.priority)), {
+      signal,
       maxRetries: 2,
       baseDelayMs: 1500,
-      maxDelayMs: 15000,
+      maxDelayMs: 30000,
       jitterRatio: 0.25,
       onRetry: ({ attempt, delayMs, err }) => {
-        // ✅ ถ้าเป็นโควต้าต่อวันหมด ไม่ต้อง retry
-        if (isDailyQuotaExceeded(err)) {
-          throw err;
-        }
-        console.warn(
-          `[Gemini retry] attempt=${attempt} delayMs=${delayMs} err=`,
-          err
-        );
+        console.warn(`[Gemini proxy retry] attempt=${attempt} delayMs=${delayMs} err=`, err);
       },
-    })
-  );
+    });
+  }, opts);
 }
 
-// ----------------------------
-// analyzeImage
-// ----------------------------
-export async function analyzeImage(
-  base64Image: string
-): Promise<DamageDetection[]> {
-  const model = getModel();
-
-  const prompt = `
-Analyze this car image for scratches, dents, or paint damage.
-Return JSON array with:
-[
-  {
-    "id": "unique",
-    "type": "Scratch|Dent|Crack|PaintDamage|Other",
-    "description": "...",
-    "confidence": 0-1,
-    "isConfirmedDamage": true|false,
-    "boundingBox": [ymin, xmin, ymax, xmax] // 0..1000
+// quota ปัจจุบันของ server (เรียกตอนเลือก provider นี้ → meter ถูกตั้งแต่ก่อนยิง request แรก)
+export async function syncProxyStatus(): Promise<void> {
+  try {
+    const res = await fetch(`${API_BASE}${PROXY_ROUTES.status}`);
+    if (!res.ok) return;
+    const status = (await res.json()) as ProxyStatus;
+    budget.sync(status.quota);
+    if (status.chains?.detect?.length) chains = status.chains;
+  } catch (err) {
+    console.warn("Gemini proxy status unavailable:", err);
   }
-]
-No markdown. JSON only.
-`.trim();
-
-  const imageData = base64Image.replace(/^data:image\/\w+;base64,/, "");
-
-  const result = await runGemini(() =>
-    model.generateContent([
-      { text: prompt },
-      {
-        inlineData: {
-          data: imageData,
-          mimeType: "image/jpeg",
-        },
-      },
-    ])
-  );
+}
 
-  const text = result.response.text();
-  return safeParseJsonArray<DamageDetection>(text);
+export function analyzeImage(base64Image: string, shot?: ShotContext, opts?: JobOptions): Promise<DetectionParseResult> {
+  const body: AnalyzeRequest = { image: base64Image, shot };
+  return runProxy(PROXY_ROUTES.analyze, body, opts);
 }
 
-// ----------------------------
-// zoomAnalysis
-// ----------------------------
-export async function zoomAnalysis(
-  originalBase64: string,
+export function zoomAnalysis(
   zoomedBase64: string,
-  hint: string
-): Promise<string> {
-  const model = getModel();
-
-  const prompt = `
-You are verifying whether the highlighted area is real damage.
-Hint: ${hint}
-Return a short sentence report (no JSON).
-`.trim();
-
-  const zoomed = zoomedBase64.replace(/^data:image\/\w+;base64,/, "");
+  detection: Pick<DamageDetection, "type" | "description">,
+  opts?: JobOptions
+): Promise<ZoomVerdictResponse> {
+  const body: ZoomRequest = { image: zoomedBase64, detection: { type: detection.type, description: detection.description } };
+  return runProxy(PROXY_ROUTES.zoom, body, opts);
+}
 
-  const result = await runGemini(() =>
-    model.generateContent([
-      { text: prompt },
-      {
-        inlineData: {
-          data: zoomed,
-          mimeType: "image/jpeg",
-        },
-      },
-    ])
+export function zoomAnalysisBatch(source: ZoomBatchSource, opts?: JobOptions): Promise<ZoomBatchResult> {
+  return runProxy(
+    PROXY_ROUTES.zoomBatch,
+    (): ZoomBatchRequest => ({
+      items: resolveZoomBatch(source).map(({ image, detection }) => ({
+        image,
+        detection: { type: detection.type, description: detection.description },
+      })),
+    }),
+    opts
   );
-
-  return result.response.text().trim();
 }
 
-// ----------------------------
-// Utilities
-// ----------------------------
-function safeParseJsonArray<T>(raw: string): T[] {
-  const match = raw.match(/\[[\s\S]*\]/);
-  const jsonText = match ? match[0] : raw;
-
-  try {
-    const parsed = JSON.parse(jsonText);
-    return Array.isArray(parsed) ? (parsed as T[]) : [];
-  } catch (e) {
-    console.error("JSON parse failed:", e, { raw });
-    return [];
-  }
+export function fingertipAnalysis(cropBase64: string, opts?: JobOptions): Promise<ZoomVerdictResponse> {
+  const body: FingertipRequest = { image: cropBase64 };
+  return runProxy(PROXY_ROUTES.fingertip, body, opts);
 }
+
+export const geminiProvider: DamageDetectorProvider = {
+  id: "gemini",
+  get label() {
+    return `Gemini (${formatModelChain(chains.detect)}) via server`;
+  },
+  // model หลักของ detect chain (key ของ analysis cache)
+  get model() {
+    return chains.detect[0];
+  },
+  // getter: limit เปลี่ยนได้ทุกครั้งที่ sync กับ server
+  get minRequestIntervalMs() {
+    return budget.requestIntervalMs;
+  },
+  queue: limiter,
+  budget,
+  analyzeImage,
+  zoomAnalysis,
+  zoomAnalysisBatch,
+  fingertipAnalysis,
+};
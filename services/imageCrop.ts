@@ -0,0 +1,150 @@
+// services/imageCrop.ts
+// crop / วาด overlay บน canvas (ใช้ร่วมกันระหว่าง zoom verification กับ report)
+import type { DamageDetection } from "../types";
+import { ImageDecodeError } from "./analysisErrors";
+
+export const ZOOM_CROP_SIZE = 512;
+export const ZOOM_CROP_QUALITY = 0.78;
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.src = url;
+  return new Promise<HTMLImageElement>((resolve) => {
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(img);
+  });
+}
+
+// แบบเข้ม: รูปเสีย/ไม่ใช่รูป → ImageDecodeError (ใช้ก่อนส่งวิเคราะห์; report ใช้ loadImage ที่ไม่ throw)
+export async function decodeImage(url: string): Promise<HTMLImageElement> {
+  const img = await loadImage(url);
+  if (!img.naturalWidth || !img.naturalHeight) throw new ImageDecodeError();
+  return img;
+}
+
+export interface PixelRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+/**
+ * box 0..1000 → pixel rect บนรูปจริง + padding 70% ของด้านที่สั้นกว่า
+ * (logic เดียวกับ Finger Focus เดิม)
+ */
+export function computeZoomCropRect(
+  box: DamageDetection["boundingBox"],
+  naturalWidth: number,
+  naturalHeight: number
+): PixelRect {
+  const w = naturalWidth || 1;
+  const h = naturalHeight || 1;
+  const [ymin, xmin, ymax, xmax] = box;
+
+  const sx = (xmin / 1000) * w;
+  const sy = (ymin / 1000) * h;
+  const sw = ((xmax - xmin) / 1000) * w;
+  const sh = ((ymax - ymin) / 1000) * h;
+
+  const padding = Math.min(sw, sh) * 0.7;
+  const finalSx = Math.max(0, sx - padding);
+  const finalSy = Math.max(0, sy - padding);
+  const finalSw = Math.min(w - finalSx, sw + padding * 2);
+  const finalSh = Math.min(h - finalSy, sh + padding * 2);
+
+  return { sx: finalSx, sy: finalSy, sw: finalSw, sh: finalSh };
+}
+
+export interface CropResult {
+  dataUrl: string;
+  rect: PixelRect; // ส่วนของรูปจริงที่ถูก crop (ใช้ map box ใน crop กลับ)
+}
+
+export function cropDetection(
+  img: HTMLImageElement,
+  box: DamageDetection["boundingBox"],
+  size = ZOOM_CROP_SIZE,
+  quality = ZOOM_CROP_QUALITY
+): CropResult | null {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const rect = computeZoomCropRect(box, img.naturalWidth, img.naturalHeight);
+
+  canvas.width = size;
+  canvas.height = size;
+  ctx.drawImage(img, rect.sx, rect.sy, rect.sw, rect.sh, 0, 0, size, size);
+
+  return { dataUrl: canvas.toDataURL("image/jpeg", quality), rect };
+}
+
+/**
+ * box ใน crop (0..1000 ของรูป 512x512 ที่ถูกยืด) → box ในรูปเต็ม (0..1000)
+ */
+export function mapCropBoxToImage(
+  cropBox: DamageDetection["boundingBox"],
+  rect: PixelRect,
+  naturalWidth: number,
+  naturalHeight: number
+): DamageDetection["boundingBox"] {
+  const w = naturalWidth || 1;
+  const h = naturalHeight || 1;
+  const [ymin, xmin, ymax, xmax] = cropBox;
+  const toY = (v: number) => Math.round(((rect.sy + (v / 1000) * rect.sh) / h) * 1000);
+  const toX = (v: number) => Math.round(((rect.sx + (v / 1000) * rect.sw) / w) * 1000);
+  const clamp = (v: number) => Math.min(1000, Math.max(0, v));
+  return [clamp(toY(ymin)), clamp(toX(xmin)), clamp(toY(ymax)), clamp(toX(xmax))];
+}
+
+export const CONFIRMED_COLOR = "#ef4444";
+export const SUSPECTED_COLOR = "#facc15";
+
+// วาดรูป + กรอบ detection ทั้งหมด (สีเดียวกับ viewer)
+export function renderAnnotatedImage(
+  img: HTMLImageElement,
+  detections: DamageDetection[],
+  maxSize = 1280,
+  quality = 0.85
+): string | null {
+  const w = img.naturalWidth || 1;
+  const h = img.naturalHeight || 1;
+  const scale = Math.min(1, maxSize / Math.max(w, h));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(w * scale));
+  canvas.height = Math.max(1, Math.round(h * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const lineWidth = Math.max(2, Math.round(canvas.width / 320));
+  const fontSize = Math.max(12, Math.round(canvas.width / 60));
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textBaseline = "bottom";
+
+  detections.forEach((det, i) => {
+    const [ymin, xmin, ymax, xmax] = det.boundingBox;
+    const x = (xmin / 1000) * canvas.width;
+    const y = (ymin / 1000) * canvas.height;
+    const bw = ((xmax - xmin) / 1000) * canvas.width;
+    const bh = ((ymax - ymin) / 1000) * canvas.height;
+    const color = det.isConfirmedDamage ? CONFIRMED_COLOR : SUSPECTED_COLOR;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(x, y, bw, bh);
+
+    const label = `#${i + 1} ${det.type.toUpperCase()}`;
+    const labelW = ctx.measureText(label).width + 8;
+    const labelY = y - fontSize - 4 < 0 ? y + fontSize + 4 : y;
+    ctx.fillStyle = color;
+    ctx.fillRect(x, labelY - fontSize - 4, labelW, fontSize + 4);
+    ctx.fillStyle = "#000";
+    ctx.fillText(label, x + 4, labelY - 2);
+  });
+
+  return canvas.toDataURL("image/jpeg", quality);
+}
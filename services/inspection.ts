@@ -0,0 +1,55 @@
+// services/inspection.ts
+import type { Inspection, InspectionMeta, InspectionStatus, VehicleInfo } from "../types";
+import { createSessionId } from "./sessionStore";
+
+export const INSPECTION_STATUSES: InspectionStatus[] = ["draft", "in_review", "finalized"];
+
+export const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  finalized: "Finalized",
+};
+
+export function createInspectionMeta(): InspectionMeta {
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    title: `Inspection ${new Date(now).toLocaleString()}`,
+    status: "draft",
+    vehicle: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// "Toyota Camry • Silver • ABC-1234" (ว่างถ้ายังไม่กรอกอะไร)
+export function formatVehicleLabel(vehicle: VehicleInfo): string {
+  const makeModel = [vehicle.make, vehicle.model].filter(Boolean).join(" ");
+  return [makeModel, vehicle.color, vehicle.licensePlate].filter(Boolean).join(" • ");
+}
+
+export function formatOdometer(vehicle: VehicleInfo): string {
+  if (vehicle.odometer === undefined) return "";
+  return `${vehicle.odometer.toLocaleString()} ${vehicle.odometerUnit ?? "km"}`;
+}
+
+// ข้อความสำหรับค้นหาใน History
+export function inspectionSearchText(meta: InspectionMeta): string {
+  const v = meta.vehicle;
+  return [meta.title, v.vin, v.licensePlate, v.make, v.model, v.color, meta.inspectorName, meta.location]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+export function withStatus<T extends InspectionMeta>(meta: T, status: InspectionStatus): T {
+  return {
+    ...meta,
+    status,
+    finalizedAt: status === "finalized" ? Date.now() : undefined,
+  };
+}
+
+export function isInspectionLocked(meta: Pick<Inspection, "status">): boolean {
+  return meta.status === "finalized";
+}
@@ -0,0 +1,219 @@
+// services/inspectionCompare.ts
+// เทียบ check-in (รับรถ) กับ check-out (คืนรถ) ของรถคันเดียวกัน → damage ไหนมีอยู่แล้ว / ใหม่ / มองไม่เห็นแล้ว
+import type {
+  CarPanel,
+  DamageDetection,
+  DamageType,
+  Inspection,
+  InspectionImage,
+  InspectionSummary,
+  RepairPriceTable,
+} from "../types";
+import { countsAsDamage } from "./carPanels";
+import { summarizeInspectionEstimate, type RepairEstimateSummary } from "./repairEstimate";
+
+export type ComparisonStatus = "pre_existing" | "new" | "not_visible";
+
+export const COMPARISON_STATUS_LABELS: Record<ComparisonStatus, string> = {
+  pre_existing: "Pre-existing",
+  new: "New",
+  not_visible: "No longer visible",
+};
+
+export interface DetectionRef {
+  image: InspectionImage;
+  detection: DamageDetection;
+}
+
+export interface ComparisonEntry {
+  status: ComparisonStatus;
+  checkIn?: DetectionRef;
+  checkOut?: DetectionRef;
+  // new → รูป check-in ที่น่าจะถ่ายมุมเดียวกัน (ไว้วางเทียบข้างกัน)
+  pairedCheckInImage?: InspectionImage;
+  score?: number; // เฉพาะคู่ที่ match กัน (0..1)
+}
+
+export interface InspectionComparison {
+  checkIn: Inspection;
+  checkOut: Inspection;
+  entries: ComparisonEntry[];
+  counts: Record<ComparisonStatus, number>;
+}
+
+// ถ่ายคนละครั้ง มุมไม่ตรงกันเป๊ะ → เทียบระยะจุดกึ่งกลาง box (สัดส่วนของรูป) แทน IoU
+export const MAX_CENTER_DISTANCE = 0.2;
+// panel เดียวกันยืนยันแล้ว → ยอมให้ตำแหน่งคลาดได้มากกว่า (มุมกล้องต่างกัน)
+export const MAX_CENTER_DISTANCE_SAME_PANEL = 0.4;
+export const MIN_MATCH_SCORE = 0.35;
+
+// AI เรียก damage เดียวกันคนละชื่อได้ (รอยขีดข่วนลึก = scratch หรือ paint)
+const RELATED_TYPES: Array<[DamageType, DamageType]> = [
+  ["scratch", "paint"],
+  ["dent", "crack"],
+];
+
+function typeScore(a: DamageType, b: DamageType): number {
+  if (a === b) return 1;
+  if (a === "other" || b === "other") return 0.5;
+  return RELATED_TYPES.some(([x, y]) => (a === x && b === y) || (a === y && b === x)) ? 0.5 : 0;
+}
+
+function boxCenter(box: DamageDetection["boundingBox"]): [number, number] {
+  return [(box[1] + box[3]) / 2000, (box[0] + box[2]) / 2000];
+}
+
+/**
+ * คะแนนว่า 2 detection (check-in / check-out) เป็น damage จุดเดียวกันแค่ไหน
+ * - panel ต่างกัน (รู้ทั้งคู่) หรือ type ไม่เกี่ยวกัน → null (ไม่ match)
+ * - score = type 40% + ตำแหน่ง 40% + panel 20% (ไม่รู้ panel ฝั่งใดฝั่งหนึ่ง = ครึ่งเดียว)
+ */
+export function matchScore(a: DamageDetection, b: DamageDetection): number | null {
+  if (a.panel && b.panel && a.panel !== b.panel) return null;
+  const samePanel = Boolean(a.panel && a.panel === b.panel);
+
+  const t = typeScore(a.type, b.type);
+  if (t === 0) return null;
+
+  const [ax, ay] = boxCenter(a.boundingBox);
+  const [bx, by] = boxCenter(b.boundingBox);
+  const limit = samePanel ? MAX_CENTER_DISTANCE_SAME_PANEL : MAX_CENTER_DISTANCE;
+  const distance = Math.hypot(ax - bx, ay - by);
+  if (distance > limit) return null;
+
+  const score = 0.4 * t + 0.4 * (1 - distance / limit) + 0.2 * (samePanel ? 1 : 0.5);
+  return score >= MIN_MATCH_SCORE ? score : null;
+}
+
+function damageRefs(inspection: Pick<Inspection, "images">): DetectionRef[] {
+  return inspection.images.flatMap((image) =>
+    image.analysis.detections.filter(countsAsDamage).map((detection) => ({ image, detection }))
+  );
+}
+
+// ชื่อรูปไม่มีนามสกุล/ตัวเลขท้าย ("Front left 2.jpg" → "front left")
+function shotKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, "")
+    .replace(/[\s_-]*\d+$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim();
+}
+
+/**
+ * รูป check-in ที่จะวางคู่กับรูป check-out
+ * ลำดับ: มุมเดียวกันใน shot list → ชื่อเดียวกัน → มี damage บน panel เดียวกัน → ลำดับเดียวกัน
+ */
+export function pairCheckInImage(
+  checkOutImage: InspectionImage,
+  checkOutIndex: number,
+  checkIn: Pick<Inspection, "images">,
+  panel?: CarPanel
+): InspectionImage | undefined {
+  const shotId = checkOutImage.shot?.id;
+  const byShot = shotId ? checkIn.images.find((img) => img.shot?.id === shotId) : undefined;
+  if (byShot) return byShot;
+  const key = shotKey(checkOutImage.name);
+  const byName = key ? checkIn.images.find((img) => shotKey(img.name) === key) : undefined;
+  if (byName) return byName;
+  if (panel) {
+    const byPanel = checkIn.images.find((img) => img.analysis.detections.some((d) => d.panel === panel));
+    if (byPanel) return byPanel;
+  }
+  return checkIn.images[checkOutIndex] ?? checkIn.images[0];
+}
+
+/**
+ * จับคู่ damage ของ 2 inspection แบบ greedy (คู่คะแนนสูงสุดก่อน, 1 ต่อ 1)
+ * - match → pre_existing
+ * - เหลือฝั่ง check-out → new
+ * - เหลือฝั่ง check-in → not_visible (ซ่อมแล้ว หรือไม่ได้ถ่ายมุมนั้น)
+ * ไม่นับ reflection / ที่ Finger Focus ปฏิเสธแล้ว
+ */
+export function compareInspections(checkIn: Inspection, checkOut: Inspection): InspectionComparison {
+  const before = damageRefs(checkIn);
+  const after = damageRefs(checkOut);
+
+  const candidates: Array<{ i: number; j: number; score: number }> = [];
+  before.forEach((a, i) => {
+    after.forEach((b, j) => {
+      const score = matchScore(a.detection, b.detection);
+      if (score !== null) candidates.push({ i, j, score });
+    });
+  });
+  candidates.sort((x, y) => y.score - x.score);
+
+  const usedBefore = new Set<number>();
+  const usedAfter = new Set<number>();
+  const matched: ComparisonEntry[] = [];
+  for (const { i, j, score } of candidates) {
+    if (usedBefore.has(i) || usedAfter.has(j)) continue;
+    usedBefore.add(i);
+    usedAfter.add(j);
+    matched.push({ status: "pre_existing", checkIn: before[i], checkOut: after[j], score });
+  }
+
+  const added: ComparisonEntry[] = after
+    .filter((_, j) => !usedAfter.has(j))
+    .map((ref) => ({
+      status: "new",
+      checkOut: ref,
+      pairedCheckInImage: pairCheckInImage(ref.image, checkOut.images.indexOf(ref.image), checkIn, ref.detection.panel),
+    }));
+
+  const gone: ComparisonEntry[] = before
+    .filter((_, i) => !usedBefore.has(i))
+    .map((ref) => ({ status: "not_visible", checkIn: ref }));
+
+  const entries = [...added, ...matched, ...gone];
+  return {
+    checkIn,
+    checkOut,
+    entries,
+    counts: {
+      new: added.length,
+      pre_existing: matched.length,
+      not_visible: gone.length,
+    },
+  };
+}
+
+export const newDamageEntries = (comparison: InspectionComparison) =>
+  comparison.entries.filter((e) => e.status === "new");
+
+// ราคาซ่อมเฉพาะ damage ใหม่ (ยอดที่เรียกเก็บจากผู้เช่าได้)
+export function summarizeNewDamageEstimate(
+  comparison: InspectionComparison,
+  table: RepairPriceTable
+): RepairEstimateSummary {
+  const byImage = new Map<InspectionImage, DamageDetection[]>();
+  for (const entry of newDamageEntries(comparison)) {
+    const { image, detection } = entry.checkOut!;
+    byImage.set(image, [...(byImage.get(image) ?? []), detection]);
+  }
+  const images = [...byImage].map(([image, detections]) => ({
+    originalSize: image.originalSize,
+    analysis: { ...image.analysis, detections },
+  }));
+  return summarizeInspectionEstimate(images, table);
+}
+
+// รถคันเดียวกัน = VIN ตรงกัน หรือ (ไม่มี VIN) ทะเบียนตรงกัน
+export function isSameVehicle(a: Pick<Inspection, "vehicle">, b: Pick<Inspection, "vehicle">): boolean {
+  const norm = (s?: string) => (s ?? "").replace(/[\s-]/g, "").toUpperCase();
+  if (a.vehicle.vin && b.vehicle.vin) return norm(a.vehicle.vin) === norm(b.vehicle.vin);
+  return Boolean(a.vehicle.licensePlate) && norm(a.vehicle.licensePlate) === norm(b.vehicle.licensePlate);
+}
+
+/**
+ * check-in ที่น่าจะคู่กับ check-out: inspection ของรถคันเดียวกันที่สร้างก่อนหน้า (ล่าสุดก่อน)
+ */
+export function suggestCheckIn(
+  checkOut: Pick<Inspection, "id" | "vehicle" | "createdAt">,
+  sessions: InspectionSummary[]
+): InspectionSummary | undefined {
+  return sessions
+    .filter((s) => s.id !== checkOut.id && s.createdAt < checkOut.createdAt && isSameVehicle(s, checkOut))
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
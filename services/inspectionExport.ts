@@ -0,0 +1,95 @@
+// services/inspectionExport.ts
+// Export ทุกแบบต้องมี context ของรถ/งาน (กันรายงานผิดคัน)
+import type { Inspection, RepairPriceTable } from "../types";
+import { INSPECTION_STATUS_LABELS } from "./inspection";
+import { detectionOrigin, isHumanVerified } from "./annotation";
+import { countDamageByPanel } from "./carPanels";
+import { captureTimeFlag } from "./exif";
+import {
+  assessDetection,
+  imageAspect,
+  loadPriceTable,
+  summarizeImageEstimate,
+  summarizeInspectionEstimate,
+} from "./repairEstimate";
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export function buildInspectionExport(inspection: Inspection, priceTable: RepairPriceTable = loadPriceTable()) {
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    inspection: {
+      id: inspection.id,
+      title: inspection.title,
+      status: inspection.status,
+      statusLabel: INSPECTION_STATUS_LABELS[inspection.status],
+      inspectorName: inspection.inspectorName ?? null,
+      location: inspection.location ?? null,
+      createdAt: new Date(inspection.createdAt).toISOString(),
+      updatedAt: new Date(inspection.updatedAt).toISOString(),
+      finalizedAt: inspection.finalizedAt ? new Date(inspection.finalizedAt).toISOString() : null,
+    },
+    vehicle: inspection.vehicle,
+    images: inspection.images.map((img) => ({
+      id: img.id,
+      name: img.name,
+      shot: img.shot ?? null,
+      addedAt: img.addedAt ? new Date(img.addedAt).toISOString() : null,
+      analyzedAt: img.analysis.analyzedAt ? new Date(img.analysis.analyzedAt).toISOString() : null,
+      // ผลจาก analysis cache → เวลาที่ model วิเคราะห์จริง
+      cachedFrom: img.analysis.fromCache
+        ? { match: img.analysis.fromCache.match, analyzedAt: new Date(img.analysis.fromCache.analyzedAt).toISOString() }
+        : null,
+      error: img.analysis.error ?? null,
+      errorKind: img.analysis.failure?.kind ?? null,
+      quality: img.quality ?? null,
+      metadata: img.metadata
+        ? {
+            ...img.metadata,
+            capturedAt:
+              img.metadata.capturedAt !== undefined ? new Date(img.metadata.capturedAt).toISOString() : null,
+          }
+        : null,
+      captureTimeFlag: captureTimeFlag(img.metadata, inspection),
+      detections: img.analysis.detections.map((det) => ({
+        ...det,
+        origin: detectionOrigin(det),
+        humanVerified: isHumanVerified(det),
+        assessment: assessDetection(det, priceTable, imageAspect(img)),
+      })),
+      rejected: img.analysis.rejected ?? [],
+      fingertip: img.analysis.fingertip ?? null,
+      repairEstimate: summarizeImageEstimate(img, priceTable),
+    })),
+    panelCounts: countDamageByPanel(inspection.images),
+    repairEstimate: {
+      currency: priceTable.currency,
+      ...summarizeInspectionEstimate(inspection.images, priceTable),
+      priceTable,
+    },
+  };
+}
+
+export function exportFileBaseName(inspection: Pick<Inspection, "vehicle" | "createdAt">): string {
+  const key = inspection.vehicle.vin || inspection.vehicle.licensePlate || "inspection";
+  const date = new Date(inspection.createdAt).toISOString().slice(0, 10);
+  return `${key}-${date}`.replace(/[^A-Za-z0-9._-]+/g, "_");
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // ✅ revoke หลัง click (บาง browser ต้องรอ tick ถัดไป)
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadInspectionJson(inspection: Inspection, priceTable?: RepairPriceTable) {
+  const json = JSON.stringify(buildInspectionExport(inspection, priceTable), null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), `${exportFileBaseName(inspection)}.json`);
+}
@@ -0,0 +1,151 @@
+// services/mockProvider.ts
+// ✅ provider แบบ offline: ไม่ใช้ key/quota, ผลลัพธ์ deterministic ตามรูป (ใช้ dev/demo)
+import { sleep, ThrottleQueue, type JobOptions } from "./rateLimit";
+import { validateDetections } from "./detectionSchema";
+import { stampDetections } from "./modelChain";
+import type { DamageDetectorProvider } from "./detectorProvider";
+import { resolveZoomBatch } from "./zoomBatch";
+import type { DamageDetection, FingertipLocation, ZoomVerdictResponse } from "../types";
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_MODEL = "mock-fixtures";
+// ไม่มี rate limit จริง แต่ผ่านคิวเหมือน provider อื่น (priority/cancel/pause ทดสอบ offline ได้)
+const mockQueue = new ThrottleQueue(4, 0);
+
+function runMock<T>(respond: () => T, opts?: JobOptions): Promise<T> {
+  return mockQueue.schedule(async (signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return respond();
+  }, opts);
+}
+
+// fixture ในรูปแบบเดียวกับที่ model ตอบ → ผ่าน validation path เดียวกัน
+const FIXTURES: Array<Array<Record<string, unknown>>> = [
+  [
+    {
+      type: "scratch",
+      description: "Linear scratch along the lower door edge.",
+      confidence: 0.82,
+      isConfirmedDamage: true,
+      panel: "front_left_door",
+      boundingBox: [540, 220, 610, 480],
+    },
+    {
+      type: "reflection",
+      description: "Bright streak that may be a reflection.",
+      confidence: 0.41,
+      isConfirmedDamage: false,
+      panel: "rear_left_door",
+      boundingBox: [300, 600, 360, 760],
+    },
+  ],
+  [
+    {
+      type: "dent",
+      description: "Shallow dent on the rear quarter panel.",
+      confidence: 0.74,
+      isConfirmedDamage: false,
+      panel: "rear_left_quarter",
+      boundingBox: [420, 380, 560, 540],
+    },
+  ],
+  [],
+  [
+    {
+      type: "paint",
+      description: "Paint chip near the wheel arch.",
+      confidence: 0.67,
+      isConfirmedDamage: true,
+      panel: "front_right_fender",
+      boundingBox: [650, 120, 720, 210],
+    },
+    {
+      type: "crack",
+      description: "Hairline crack on the bumper corner.",
+      confidence: 0.58,
+      isConfirmedDamage: false,
+      panel: "front_bumper",
+      boundingBox: [700, 780, 790, 900],
+    },
+  ],
+];
+
+// fixture ที่มีนิ้วชี้อยู่ในรูป (index เดียวกับ FIXTURES)
+const FINGERTIP_FIXTURES: Record<number, FingertipLocation> = {
+  1: { point: [470, 640], handBox: [470, 600, 760, 720], confidence: 0.9 },
+};
+
+// FNV-1a แบบสุ่มตัวอย่าง (ไม่ต้อง hash ทั้ง data URL)
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(text.length / 4096));
+  for (let i = 0; i < text.length; i += step) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// reflection → rejected, ที่เหลือ confirmed (พอให้เห็นทั้งสองทางใน UI)
+function mockVerdict(detection: Pick<DamageDetection, "type" | "description">): ZoomVerdictResponse {
+  if (detection.type === "reflection") {
+    return {
+      verdict: "rejected",
+      revisedType: "reflection",
+      rationale: "Mock verification: highlight follows the panel curvature, no surface break.",
+      model: MOCK_MODEL,
+    };
+  }
+  return {
+    verdict: "confirmed",
+    revisedType: detection.type,
+    severity: "minor",
+    refinedBox: [300, 300, 700, 700],
+    rationale: `Mock verification: close-up is consistent with "${detection.description}".`,
+    model: MOCK_MODEL,
+  };
+}
+
+export const mockProvider: DamageDetectorProvider = {
+  id: "mock",
+  label: "Mock (offline fixtures)",
+  model: MOCK_MODEL,
+  minRequestIntervalMs: MOCK_LATENCY_MS,
+  queue: mockQueue,
+
+  analyzeImage(base64Image, _shot, opts) {
+    return runMock(() => {
+      const index = hashString(base64Image) % FIXTURES.length;
+      const result = stampDetections(validateDetections(FIXTURES[index]), MOCK_MODEL);
+      const fingertip = FINGERTIP_FIXTURES[index];
+      return fingertip ? { ...result, fingertip } : result;
+    }, opts);
+  },
+
+  zoomAnalysis(_zoomedBase64, detection, opts) {
+    return runMock(() => mockVerdict(detection), opts);
+  },
+
+  // crop หยิบตอนงานได้คิว (ก่อน latency) เหมือน provider จริง
+  zoomAnalysisBatch(source, opts) {
+    return mockQueue.schedule(async (signal) => {
+      const items = resolveZoomBatch(source);
+      await sleep(MOCK_LATENCY_MS, signal);
+      return items.map((item) => mockVerdict(item.detection));
+    }, opts);
+  },
+
+  fingertipAnalysis(_cropBase64, opts) {
+    return runMock(
+      (): ZoomVerdictResponse => ({
+        verdict: "confirmed",
+        revisedType: "scratch",
+        severity: "minor",
+        refinedBox: [380, 520, 470, 700],
+        rationale: "Mock verification: short scratch just beyond the fingertip.",
+        model: MOCK_MODEL,
+      }),
+      opts
+    );
+  },
+};
@@ -0,0 +1,76 @@
+// services/modelChain.ts
+// model chain ต่องาน: detect (สแกนรอบแรก) / verify (zoom + Finger Focus)
+// model แรกใช้ก่อน, quota หมด / โดน rate limit / ใช้ไม่ได้ → ย้ายไป model ถัดไปใน chain อัตโนมัติ
+import type { DamageDetection, ZoomVerdictResponse } from "../types";
+import { toAnalysisError, type AnalysisError } from "./analysisErrors";
+import type { DetectionParseResult } from "./detectionSchema";
+import { PROMPT_VERSION } from "./prompts";
+import { isAbortError } from "./rateLimit";
+
+export type ModelTask = "detect" | "verify";
+
+export type ModelChains = Record<ModelTask, string[]>;
+
+export const MODEL_TASKS: ModelTask[] = ["detect", "verify"];
+
+// "a, b,,a" → ["a", "b"] (ว่าง = [])
+export function parseModelChain(value: string | undefined): string[] {
+  const models = (value ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+  return [...new Set(models)];
+}
+
+// error ที่ model ถัดไปน่าจะไม่เจอ (quota/limit แยกต่อ model) — safety / รูปเสีย / key ผิด เจอเหมือนกันทุกตัว
+const FAIL_OVER_KINDS: AnalysisError["kind"][] = ["quota_exhausted", "rate_limited", "network", "model_unavailable"];
+
+export const shouldFailOver = (err: AnalysisError) => FAIL_OVER_KINDS.includes(err.kind);
+
+export interface FailOverInfo {
+  task: ModelTask;
+  from: string;
+  to: string;
+  err: AnalysisError;
+}
+
+/**
+ * ลอง model ตามลำดับใน chain จนกว่าจะได้ผล
+ * - error ที่ไม่ควรข้าม (safety, unparseable, ...) → โยนทันที
+ * - หมด chain → โยน error ของ model สุดท้าย (quota หมดทุกตัว = QuotaExhaustedError ตามเดิม)
+ */
+export async function runWithFallback<T>(
+  task: ModelTask,
+  chain: string[],
+  run: (model: string) => Promise<T>,
+  onFailOver?: (info: FailOverInfo) => void
+): Promise<T> {
+  if (chain.length === 0) throw new Error(`Model chain for ${task} is empty.`);
+  for (let i = 0; ; i++) {
+    try {
+      return await run(chain[i]);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const typed = toAnalysisError(err);
+      if (i === chain.length - 1 || !shouldFailOver(typed)) throw typed;
+      onFailOver?.({ task, from: chain[i], to: chain[i + 1], err: typed });
+    }
+  }
+}
+
+// ผลจาก model ไหน + prompt version ไหน (ติดไปกับทุก detection / verdict)
+export function stampDetections(result: DetectionParseResult, model: string): DetectionParseResult {
+  const stamp = (det: DamageDetection): DamageDetection => ({ ...det, model, promptVersion: PROMPT_VERSION });
+  return { ...result, detections: result.detections.map(stamp) };
+}
+
+export const stampVerdict = (verdict: ZoomVerdictResponse, model: string): ZoomVerdictResponse => ({ ...verdict, model });
+
+// "gemini-a → gemini-b"
+export const formatModelChain = (chain: string[]) => chain.join(" → ");
+
+// "gemini-2.5-flash · prompt v1" (detection เก่า/คนเพิ่มเอง = ไม่มี)
+export function modelProvenance(det: Pick<DamageDetection, "model" | "promptVersion">): string | null {
+  if (!det.model) return null;
+  return det.promptVersion !== undefined ? `${det.model} · prompt v${det.promptVersion}` : det.model;
+}
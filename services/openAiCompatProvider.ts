@@ -0,0 +1,167 @@
+// services/openAiCompatProvider.ts
+// Adapter สำหรับ endpoint ที่เข้ากันได้กับ OpenAI Chat Completions
+// (เช่น local stand-in server: vLLM, LM Studio, Ollama /v1)
+import { ThrottleQueue, withRetry, type JobOptions } from "./rateLimit";
+import { QuotaBudget, quotaLimitsFromEnv } from "./quotaBudget";
+import { parseDetectionResponse, parseZoomBatchResponse, parseZoomVerdict } from "./detectionSchema";
+import { fallbackVerdict } from "./zoomVerdict";
+import { stampDetections, stampVerdict } from "./modelChain";
+import { errorForStatus, NetworkError, SafetyBlockedError } from "./analysisErrors";
+import {
+  buildDetectionPrompt,
+  buildFingertipPrompt,
+  buildZoomBatchPrompt,
+  buildZoomPrompt,
+  zoomBatchImageLabel,
+} from "./prompts";
+import { resolveZoomBatch, type ZoomBatchItem } from "./zoomBatch";
+import type { DamageDetectorProvider, DetectorConfig } from "./detectorProvider";
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function toDataUrl(base64OrDataUrl: string): string {
+  return base64OrDataUrl.startsWith("data:")
+    ? base64OrDataUrl
+    : `data:image/jpeg;base64,${base64OrDataUrl}`;
+}
+
+export function createOpenAiCompatProvider(
+  config: DetectorConfig["openai"]
+): DamageDetectorProvider {
+  // server local ไม่มี RPM limit แบบ free tier → เว้นระยะสั้น ๆ พอ
+  // (ตั้ง VITE_QUOTA_* ได้ถ้า endpoint มี quota จริง)
+  const minRequestIntervalMs = 250;
+  const budget = new QuotaBudget("openai", quotaLimitsFromEnv("openai"));
+  const limiter = new ThrottleQueue(1, minRequestIntervalMs, budget);
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  // content เป็นฟังก์ชันได้: สร้างตอนงานได้คิว (zoom batch หยิบ crop ตอนนั้น)
+  async function chat(
+    content: ChatContentPart[] | (() => ChatContentPart[]),
+    json: boolean,
+    opts?: JobOptions
+  ): Promise<string> {
+    return limiter.schedule((signal) => {
+      const parts = typeof content === "function" ? content() : content;
+      return withRetry(
+        async () => {
+          const res = await fetch(endpoint, {
+            method: "POST",
+            signal,
+            headers: {
+              "Content-Type": "application/json",
+              ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+              model: config.model,
+              messages: [{ role: "user", content: parts }],
+              temperature: 0,
+              ...(json ? { response_format: { type: "json_object" } } : {}),
+            }),
+          }).catch((err) => {
+            if (signal?.aborted) throw err;
+            throw new NetworkError(`Could not reach ${config.baseUrl}.`, err);
+          });
+
+          if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            // ✅ แปลง status เป็นชนิด error → withRetry ตัดสินใจ retry (429/5xx) + UI รู้ทางแก้
+            const retryAfterSec = Number(res.headers.get("Retry-After"));
+            throw errorForStatus(
+              res.status,
+              `OpenAI-compatible request failed (${res.status}): ${body}`,
+              retryAfterSec > 0 ? retryAfterSec * 1000 : undefined
+            );
+          }
+
+          const data = (await res.json()) as ChatCompletionResponse;
+          if (data.usage) {
+            budget.recordUsage({
+              inputTokens: data.usage.prompt_tokens ?? 0,
+              outputTokens: data.usage.completion_tokens ?? 0,
+            });
+          }
+          if (data.choices?.[0]?.finish_reason === "content_filter") {
+            throw new SafetyBlockedError("The model's content filter blocked this photo.");
+          }
+          return data.choices?.[0]?.message?.content ?? "";
+        },
+        { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000, signal, onRetry: () => budget.recordRequest() }
+      );
+    }, opts);
+  }
+
+  return {
+    id: "openai",
+    label: `OpenAI-compatible (${config.model})`,
+    model: config.model,
+    minRequestIntervalMs: budget.requestIntervalMs ?? minRequestIntervalMs,
+    queue: limiter,
+    budget,
+
+    async analyzeImage(base64Image, shot, opts) {
+      // prompt ขอ object { detections, fingertip } อยู่แล้ว → ใช้ json_object ได้ตรง ๆ
+      const prompt = `${buildDetectionPrompt(shot)}\nJSON only.`;
+      const text = await chat(
+        [
+          { type: "text", text: prompt },
+          { type: "image_url", image_url: { url: toDataUrl(base64Image) } },
+        ],
+        true,
+        opts
+      );
+      return stampDetections(parseDetectionResponse(text), config.model);
+    },
+
+    async zoomAnalysis(zoomedBase64, detection, opts) {
+      const text = await chat(
+        [
+          { type: "text", text: `${buildZoomPrompt(detection)}\nJSON only.` },
+          { type: "image_url", image_url: { url: toDataUrl(zoomedBase64) } },
+        ],
+        true,
+        opts
+      );
+      return stampVerdict(parseZoomVerdict(text, detection.type) ?? fallbackVerdict(text, detection.type), config.model);
+    },
+
+    async zoomAnalysisBatch(source, opts) {
+      let items: ZoomBatchItem[] = [];
+      const text = await chat(
+        () => {
+          items = resolveZoomBatch(source);
+          return [
+            { type: "text", text: `${buildZoomBatchPrompt(items.map((item) => item.detection))}\nJSON only.` },
+            ...items.flatMap((item, i): ChatContentPart[] => [
+              { type: "text", text: zoomBatchImageLabel(i) },
+              { type: "image_url", image_url: { url: toDataUrl(item.image) } },
+            ]),
+          ];
+        },
+        true,
+        opts
+      );
+      const verdicts = parseZoomBatchResponse(text, items.map((item) => item.detection.type));
+      return verdicts.map((verdict) => verdict && stampVerdict(verdict, config.model));
+    },
+
+    async fingertipAnalysis(cropBase64, opts) {
+      const text = await chat(
+        [
+          { type: "text", text: `${buildFingertipPrompt()}\nJSON only.` },
+          { type: "image_url", image_url: { url: toDataUrl(cropBase64) } },
+        ],
+        true,
+        opts
+      );
+      return stampVerdict(parseZoomVerdict(text, "other") ?? fallbackVerdict(text, "other"), config.model);
+    },
+  };
+}
@@ -0,0 +1,178 @@
+// services/photoQuality.ts
+// quality gate ก่อนส่งวิเคราะห์: รูปเบลอ/มืด/สว่างจ้า/แสงสะท้อนเต็ม/ความละเอียดต่ำ
+// เปลือง quota และได้ detection มั่ว ๆ → วัดบน canvas ตอนเพิ่มรูป แล้วพักไว้ให้ถ่ายใหม่
+import type { QualityIssue, QualityMetrics, QualityReport } from "../types";
+import { loadImage } from "./imageCrop";
+
+const QUALITY_GATE_KEY = "inspector-pro:qualityGate";
+
+export type QualityGateLevel = "off" | "lenient" | "standard" | "strict";
+
+export const QUALITY_GATE_LEVELS: QualityGateLevel[] = ["off", "lenient", "standard", "strict"];
+
+export interface QualityThresholds {
+  minSharpness: number;
+  maxDarkRatio: number;
+  maxBrightRatio: number;
+  maxGlareRatio: number;
+  minShortSide: number; // px ของต้นฉบับ
+}
+
+export const QUALITY_THRESHOLDS: Record<Exclude<QualityGateLevel, "off">, QualityThresholds> = {
+  lenient: { minSharpness: 30, maxDarkRatio: 0.7, maxBrightRatio: 0.5, maxGlareRatio: 0.15, minShortSide: 480 },
+  standard: { minSharpness: 60, maxDarkRatio: 0.5, maxBrightRatio: 0.35, maxGlareRatio: 0.08, minShortSide: 720 },
+  strict: { minSharpness: 120, maxDarkRatio: 0.35, maxBrightRatio: 0.2, maxGlareRatio: 0.04, minShortSide: 1080 },
+};
+
+// วัดที่ด้านยาว 512px: sharpness เทียบกันได้ไม่ว่ารูปต้นฉบับใหญ่แค่ไหน
+export const QUALITY_SAMPLE_SIZE = 512;
+const DARK_LUMA = 35;
+const BRIGHT_LUMA = 235;
+const GLARE_LUMA = 245;
+const GLARE_MAX_CHROMA = 20; // max-min ของ RGB: แสงสะท้อนเป็นสีขาว ไม่ใช่สีรถสด ๆ
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  blur: "Blurry",
+  underexposed: "Too dark",
+  overexposed: "Overexposed",
+  glare: "Glare",
+  low_resolution: "Low resolution",
+};
+
+const RETAKE_TIPS: Record<QualityIssue, string> = {
+  blur: "Hold the camera steady and tap the panel to focus before shooting.",
+  underexposed: "Move to better light or turn on the work lights.",
+  overexposed: "Step out of direct sun or lower the exposure.",
+  glare: "Change the angle so the light doesn't reflect straight into the lens.",
+  low_resolution: "Use the camera's full resolution or step closer to the panel.",
+};
+
+export function loadQualityGateLevel(): QualityGateLevel {
+  const stored = localStorage.getItem(QUALITY_GATE_KEY) as QualityGateLevel | null;
+  return stored && QUALITY_GATE_LEVELS.includes(stored) ? stored : "standard";
+}
+
+export function saveQualityGateLevel(level: QualityGateLevel) {
+  localStorage.setItem(QUALITY_GATE_KEY, level);
+}
+
+// ----------------------------
+// metrics
+// ----------------------------
+/**
+ * sharpness = variance ของ Laplacian (ขอบคม → ค่ากระจายมาก), exposure/glare จาก histogram ของ luma
+ */
+export async function measurePhotoQuality(url: string): Promise<QualityMetrics | null> {
+  const img = await loadImage(url);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, QUALITY_SAMPLE_SIZE / Math.max(width, height));
+  const w = Math.max(3, Math.round(width * scale));
+  const h = Math.max(3, Math.round(height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const luma = new Float32Array(w * h);
+  let sum = 0;
+  let dark = 0;
+  let bright = 0;
+  let glare = 0;
+  for (let i = 0; i < w * h; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const y = r * 0.299 + g * 0.587 + b * 0.114;
+    luma[i] = y;
+    sum += y;
+    if (y < DARK_LUMA) dark++;
+    if (y > BRIGHT_LUMA) bright++;
+    if (y > GLARE_LUMA && Math.max(r, g, b) - Math.min(r, g, b) < GLARE_MAX_CHROMA) glare++;
+  }
+
+  // Laplacian 4-neighbour (ไม่รวมขอบรูป)
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - w] + luma[i + w] - 4 * luma[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      n++;
+    }
+  }
+  const lapMean = lapSum / n;
+
+  const total = w * h;
+  return {
+    sharpness: Math.round(lapSq / n - lapMean * lapMean),
+    meanLuma: Math.round(sum / total),
+    darkRatio: dark / total,
+    brightRatio: bright / total,
+    glareRatio: glare / total,
+    width,
+    height,
+  };
+}
+
+// ----------------------------
+// score
+// ----------------------------
+// ที่ threshold พอดี = 50 → คะแนนรวม (ต่ำสุดของทุกข้อ) < 50 คือมีข้อที่ไม่ผ่าน
+const atLeast = (value: number, min: number) => Math.max(0, Math.min(100, (50 * value) / min));
+const atMost = (value: number, max: number) => Math.max(0, Math.min(100, 100 - (50 * value) / max));
+
+export function scorePhotoQuality(
+  metrics: QualityMetrics,
+  thresholds: QualityThresholds
+): Pick<QualityReport, "score" | "issues"> {
+  const checks: [QualityIssue, number][] = [
+    ["blur", atLeast(metrics.sharpness, thresholds.minSharpness)],
+    ["underexposed", atMost(metrics.darkRatio, thresholds.maxDarkRatio)],
+    ["overexposed", atMost(metrics.brightRatio, thresholds.maxBrightRatio)],
+    ["glare", atMost(metrics.glareRatio, thresholds.maxGlareRatio)],
+    ["low_resolution", atLeast(Math.min(metrics.width, metrics.height), thresholds.minShortSide)],
+  ];
+  return {
+    score: Math.round(Math.min(...checks.map(([, s]) => s))),
+    issues: checks.filter(([, s]) => s < 50).map(([issue]) => issue),
+  };
+}
+
+/**
+ * null = gate ปิด หรือวัดไม่ได้ (รูปเสีย) → ส่งวิเคราะห์ตามปกติ
+ */
+export async function assessPhotoQuality(url: string, level: QualityGateLevel): Promise<QualityReport | null> {
+  if (level === "off") return null;
+  const metrics = await measurePhotoQuality(url);
+  if (!metrics) return null;
+  return { ...scorePhotoQuality(metrics, QUALITY_THRESHOLDS[level]), metrics, checkedAt: Date.now() };
+}
+
+const pct = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// เหตุผลพร้อมตัวเลขที่วัดได้ (แสดงใน UI / report)
+export function qualityIssueReason(issue: QualityIssue, metrics: QualityMetrics): string {
+  switch (issue) {
+    case "blur":
+      return `Blurry (sharpness ${metrics.sharpness})`;
+    case "underexposed":
+      return `Too dark (${pct(metrics.darkRatio)} of the photo is near black)`;
+    case "overexposed":
+      return `Overexposed (${pct(metrics.brightRatio)} of the photo is near white)`;
+    case "glare":
+      return `Glare covers ${pct(metrics.glareRatio)} of the photo`;
+    case "low_resolution":
+      return `Low resolution (${metrics.width}×${metrics.height})`;
+  }
+}
+
+export const retakeTip = (issue: QualityIssue) => RETAKE_TIPS[issue];
@@ -0,0 +1,114 @@
+// services/prompts.ts
+// prompt กลางที่ทุก provider ใช้ร่วมกัน (แก้ที่เดียว ผลเหมือนกันทุก backend)
+import { CAR_PANELS, DAMAGE_TYPES, SEVERITIES, VERDICT_OUTCOMES } from "./detectionSchema";
+import type { DamageDetection, ShotContext } from "../types";
+
+// แก้ prompt ไหนก็ตาม → +1 (ผลใน analysis cache ของ prompt เก่าจะไม่ถูกใช้)
+export const PROMPT_VERSION = 2;
+
+export const DETECTION_PROMPT = `
+Analyze this car image for scratches, dents, cracks, or paint damage.
+Return a JSON object:
+- "detections": array of damage items (use [] if there is no damage). Each item:
+  - "type": one of ${DAMAGE_TYPES.join("|")} (use "reflection" for glare/reflections that are not damage)
+  - "description": short text
+  - "confidence": 0..1
+  - "isConfirmedDamage": true|false
+  - "panel": body panel the damage is on, one of ${CAR_PANELS.join("|")} (left/right = the vehicle's own left/right, seen from the driver's seat), or null if unclear
+  - "boundingBox": [ymin, xmin, ymax, xmax] normalized 0..1000
+- "fingertip": if a person's finger or hand is pointing at the car, { "point": [y, x] of the fingertip normalized 0..1000, "handBox": [ymin, xmin, ymax, xmax] of the finger/hand, "confidence": 0..1 }; otherwise null
+Never report the finger, hand, fingernail or its shadow as damage.
+`.trim();
+
+/**
+ * prompt ตรวจ damage + มุมกล้อง (ถ้ารู้จาก shot list) ช่วยให้เลือก panel ถูกข้าง
+ */
+export function buildDetectionPrompt(shot?: Pick<ShotContext, "label" | "panels">): string {
+  if (!shot) return DETECTION_PROMPT;
+  const panels = shot.panels.length > 0 ? ` It should mainly show: ${shot.panels.join(", ")}.` : "";
+  return `${DETECTION_PROMPT}
+This photo is the "${shot.label}" shot of a guided walk-around.${panels}
+Prefer these panels for "panel" unless the damage is clearly on another one.`;
+}
+
+export function buildZoomPrompt(detection: Pick<DamageDetection, "type" | "description">): string {
+  return `
+You are verifying a close-up crop of a car body panel. The first scan flagged it as "${detection.type}".
+Hint: ${detection.description}
+Decide whether this is real damage. Return a JSON object:
+- "verdict": one of ${VERDICT_OUTCOMES.join("|")}
+- "revisedType": one of ${DAMAGE_TYPES.join("|")} (use "reflection" if it is only glare/reflection)
+- "severity": one of ${SEVERITIES.join("|")}
+- "refinedBox": [ymin, xmin, ymax, xmax] normalized 0..1000 within this close-up, or null
+- "rationale": one or two short sentences
+`.trim();
+}
+
+/**
+ * หลาย close-up ใน request เดียว (zoom batch): ข้อความ "Close-up N" นำหน้ารูปที่ N
+ * → model ตอบ verdict ต่อรูปพร้อม index
+ */
+export function buildZoomBatchPrompt(detections: Array<Pick<DamageDetection, "type" | "description">>): string {
+  const list = detections.map((det, i) => `${i + 1}. flagged as "${det.type}". Hint: ${det.description}`).join("\n");
+  return `
+You are verifying ${detections.length} close-up crops of car body panels. Each image follows its "Close-up N" label.
+Judge every close-up on its own; they may come from different cars and photos.
+What the first scan flagged:
+${list}
+Decide for each close-up whether it is real damage. Return a JSON object:
+- "verdicts": one item per close-up, each with
+  - "index": the close-up number (1..${detections.length})
+  - "verdict": one of ${VERDICT_OUTCOMES.join("|")}
+  - "revisedType": one of ${DAMAGE_TYPES.join("|")} (use "reflection" if it is only glare/reflection)
+  - "severity": one of ${SEVERITIES.join("|")}
+  - "refinedBox": [ymin, xmin, ymax, xmax] normalized 0..1000 within that close-up, or null
+  - "rationale": one or two short sentences
+`.trim();
+}
+
+/**
+ * ตรวจหลายจุดบนรูปเต็มรูปเดียว (CLI: Node ตัด crop ไม่ได้) → บอกตำแหน่งเป็น box แทน
+ * ตอบ shape เดียวกับ zoom batch, refinedBox เทียบกับทั้งรูป
+ */
+export function buildRegionVerifyPrompt(
+  detections: Array<Pick<DamageDetection, "type" | "description" | "boundingBox">>
+): string {
+  const list = detections
+    .map((det, i) => `${i + 1}. flagged as "${det.type}" at [${det.boundingBox.join(", ")}]. Hint: ${det.description}`)
+    .join("\n");
+  return `
+You are verifying ${detections.length} regions of this car photo that the first scan flagged as possible damage.
+Boxes are [ymin, xmin, ymax, xmax] normalized 0..1000 over the whole photo. Look closely at each region on its own.
+Regions:
+${list}
+Decide for each region whether it is real damage. Return a JSON object:
+- "verdicts": one item per region, each with
+  - "index": the region number (1..${detections.length})
+  - "verdict": one of ${VERDICT_OUTCOMES.join("|")}
+  - "revisedType": one of ${DAMAGE_TYPES.join("|")} (use "reflection" if it is only glare/reflection)
+  - "severity": one of ${SEVERITIES.join("|")}
+  - "refinedBox": [ymin, xmin, ymax, xmax] normalized 0..1000 over the whole photo, or null
+  - "rationale": one or two short sentences
+`.trim();
+}
+
+// label ที่วางก่อนรูปที่ index (0-based) ใน zoom batch
+export const zoomBatchImageLabel = (index: number) => `Close-up ${index + 1}:`;
+
+// close-up รอบปลายนิ้วที่ inspector ชี้ (damage อาจเล็กมาก จนรอบแรกไม่เจอ)
+export function buildFingertipPrompt(): string {
+  return `
+An inspector is pointing at a spot on this car with a finger; this close-up is centered on the fingertip.
+Ignore the finger, hand and fingernail themselves. Look for damage right at or just beyond the fingertip.
+Return a JSON object:
+- "verdict": one of ${VERDICT_OUTCOMES.join("|")} ("rejected" if there is no damage where the finger points)
+- "revisedType": one of ${DAMAGE_TYPES.join("|")} (use "reflection" if it is only glare/reflection)
+- "severity": one of ${SEVERITIES.join("|")}
+- "refinedBox": [ymin, xmin, ymax, xmax] normalized 0..1000 of the damage within this close-up (must not cover the finger), or null
+- "rationale": one or two short sentences
+`.trim();
+}
+
+export function stripDataUrlPrefix(dataUrl: string): string {
+  return dataUrl.replace(/^data:image\/\w+;base64,/, "");
+}
@@ -0,0 +1,212 @@
+// services/proxyApi.ts
+// สัญญาระหว่าง browser กับ server proxy (server/index.ts) — key ของ Gemini อยู่ฝั่ง server เท่านั้น
+import type { DamageDetection, ShotContext, ZoomVerdictResponse } from "../types";
+import type { DetectionParseResult } from "./detectionSchema";
+import { nextQuotaResetAt, type QuotaSnapshot } from "./quotaBudget";
+import type { ModelChains, ModelTask } from "./modelChain";
+import type { ZoomBatchResult } from "./zoomBatch";
+import {
+  AnalysisError,
+  ImageDecodeError,
+  MissingKeyError,
+  ModelUnavailableError,
+  NetworkError,
+  QuotaExhaustedError,
+  RateLimitedError,
+  RequestTooLargeError,
+  SafetyBlockedError,
+  UnparseableResponseError,
+} from "./analysisErrors";
+
+// model ตั้งต้นของ proxy (server override ได้ด้วย GEMINI_MODEL / GEMINI_MODELS_*; ใช้เป็นส่วนของ key ใน analysis cache)
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+export const PROXY_ROUTES = {
+  analyze: "/api/analyze",
+  zoom: "/api/zoom",
+  zoomBatch: "/api/zoom-batch",
+  fingertip: "/api/fingertip",
+  status: "/api/status",
+} as const;
+
+export interface AnalyzeRequest {
+  image: string; // data URL หรือ base64 ของ JPEG
+  shot?: ShotContext;
+}
+
+export interface ZoomRequest {
+  image: string;
+  detection: Pick<DamageDetection, "type" | "description">;
+}
+
+// หลาย crop ใน request เดียว (ZoomRequest ต่อ crop) → result = verdict ตามลำดับ (null = model ไม่ได้ตอบ)
+export interface ZoomBatchRequest {
+  items: ZoomRequest[];
+}
+
+export interface FingertipRequest {
+  image: string;
+}
+
+// quota/คิวของ model แต่ละตัวใน chain
+export interface ProxyModelStatus {
+  model: string;
+  tasks: ModelTask[];
+  available: boolean; // false = Gemini ตอบ 404 (ชื่อ model ผิด/ปิดไปแล้ว)
+  quota: QuotaSnapshot;
+  queue: { pending: number; running: number };
+}
+
+export interface ProxyStatus {
+  model: string; // model หลักของ detect chain
+  chains: ModelChains;
+  models: ProxyModelStatus[];
+  quota: QuotaSnapshot; // ของ model ที่ detect ใช้อยู่ตอนนี้
+  queue: { pending: number; running: number };
+}
+
+// ทุก response แนบ quota ล่าสุดมาด้วย → meter บน browser ตรงกับตัวนับกลาง
+export interface ProxyResponse<T> {
+  result: T;
+  model: string; // model หลัก (model ที่ตอบจริงอยู่ใน result: detection.model / verdict.model)
+  quota: QuotaSnapshot;
+}
+
+export type AnalyzeResponse = ProxyResponse<DetectionParseResult>;
+export type VerdictResponse = ProxyResponse<ZoomVerdictResponse>;
+export type ZoomBatchResponse = ProxyResponse<ZoomBatchResult>;
+
+/**
+ * error ที่ proxy ตอบกลับ (status HTTP ตามตาราง PROXY_ERROR_STATUS)
+ * - rate_limited: คิวกลาง/คิวของ client นี้เต็ม → รอ retryAfterMs แล้วลองใหม่
+ * - quota_exhausted: โควต้ารายวันหมด (ทุก model ใน chain) → ไม่ต้อง retry จนถึง resetAt
+ * - model_unavailable: ไม่มี model ใน chain ที่ใช้ได้ → แก้ GEMINI_MODELS_* ที่ server
+ * - upstream_error: Gemini ตอบ error ที่ retry แล้วไม่หาย
+ * - safety_blocked / unparseable_response / invalid_image: ผลของรูปนี้ (ลองรูปอื่นต่อได้)
+ */
+export type ProxyErrorCode =
+  | "bad_request"
+  | "not_found"
+  | "payload_too_large"
+  | "rate_limited"
+  | "quota_exhausted"
+  | "not_configured"
+  | "model_unavailable"
+  | "upstream_error"
+  | "safety_blocked"
+  | "unparseable_response"
+  | "invalid_image"
+  | "internal";
+
+export const PROXY_ERROR_STATUS: Record<ProxyErrorCode, number> = {
+  bad_request: 400,
+  not_found: 404,
+  payload_too_large: 413,
+  rate_limited: 429,
+  quota_exhausted: 429,
+  not_configured: 503,
+  model_unavailable: 503,
+  upstream_error: 502,
+  safety_blocked: 422,
+  unparseable_response: 502,
+  invalid_image: 422,
+  internal: 500,
+};
+
+export interface ProxyErrorBody {
+  error: {
+    code: ProxyErrorCode;
+    message: string;
+    retryAfterMs?: number;
+    resetAt?: number;
+  };
+  quota?: QuotaSnapshot;
+}
+
+export class ProxyApiError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: ProxyErrorCode,
+    readonly detail: string,
+    readonly retryAfterMs?: number,
+    readonly resetAt?: number
+  ) {
+    // "retry after Ns" → withRetry รอตามที่ server บอก
+    super(retryAfterMs ? `${detail} (retry after ${Math.ceil(retryAfterMs / 1000)}s)` : detail);
+    this.name = "ProxyApiError";
+    this.status = PROXY_ERROR_STATUS[code];
+  }
+
+  toBody(quota?: QuotaSnapshot): ProxyErrorBody {
+    return {
+      error: { code: this.code, message: this.detail, retryAfterMs: this.retryAfterMs, resetAt: this.resetAt },
+      quota,
+    };
+  }
+}
+
+const PROXY_ERROR_CODES = Object.keys(PROXY_ERROR_STATUS) as ProxyErrorCode[];
+
+// body ของ response ที่ไม่ ok → ProxyApiError (body เพี้ยน/ไม่ใช่ JSON → upstream_error ตาม status)
+export function parseProxyError(status: number, body: unknown): ProxyApiError {
+  const error = (body as ProxyErrorBody | null)?.error;
+  if (error && PROXY_ERROR_CODES.includes(error.code)) {
+    return new ProxyApiError(error.code, error.message, error.retryAfterMs, error.resetAt);
+  }
+  const code: ProxyErrorCode = status === 429 ? "rate_limited" : status === 404 ? "not_found" : "upstream_error";
+  return new ProxyApiError(code, `Proxy request failed (${status})`);
+}
+
+// ----------------------------
+// AnalysisError <-> ProxyApiError (server ส่งชนิดไปกับ code, browser แปลงกลับ)
+// ----------------------------
+export function proxyErrorFrom(err: AnalysisError): ProxyApiError {
+  switch (err.kind) {
+    case "missing_key":
+      return new ProxyApiError("not_configured", err.message);
+    case "model_unavailable":
+      return new ProxyApiError("model_unavailable", err.message);
+    case "quota_exhausted":
+      return new ProxyApiError("quota_exhausted", err.message, undefined, err.retryAt);
+    case "rate_limited":
+      return new ProxyApiError("rate_limited", err.message, err.retryAfterMs);
+    case "network":
+      return new ProxyApiError("upstream_error", err.message);
+    case "safety_blocked":
+      return new ProxyApiError("safety_blocked", err.message);
+    case "unparseable_response":
+      return new ProxyApiError("unparseable_response", err.message);
+    case "image_decode":
+      return new ProxyApiError("invalid_image", err.message);
+    case "request_too_large":
+      return new ProxyApiError("payload_too_large", err.message);
+    default:
+      return new ProxyApiError("internal", err.message);
+  }
+}
+
+export function analysisErrorFromProxy(err: ProxyApiError): AnalysisError {
+  switch (err.code) {
+    case "not_configured":
+      return new MissingKeyError(err.detail);
+    case "model_unavailable":
+      return new ModelUnavailableError(err.detail);
+    case "quota_exhausted":
+      return new QuotaExhaustedError(err.detail, err.resetAt ?? nextQuotaResetAt());
+    case "rate_limited":
+      return new RateLimitedError(err.detail, err.retryAfterMs);
+    case "upstream_error":
+      return new NetworkError(err.detail, err);
+    case "safety_blocked":
+      return new SafetyBlockedError(err.detail);
+    case "unparseable_response":
+      return new UnparseableResponseError(err.detail);
+    case "payload_too_large":
+      return new RequestTooLargeError(err.detail);
+    case "invalid_image":
+      return new ImageDecodeError(err.detail);
+    default:
+      return new AnalysisError("unknown", err.detail, { cause: err });
+  }
+}
@@ -0,0 +1,356 @@
+// services/quotaBudget.ts
+// คุม quota ของ provider: RPM / RPD / TPM (token bucket) + นับการใช้งานจริงจาก response
+// ตัวนับรายวันเก็บใน localStorage (reload แล้วไม่เริ่มนับใหม่); ฝั่ง server เก็บใน memory
+import type { InspectionImage } from "../types";
+import type { StartGate } from "./rateLimit";
+import { QuotaExhaustedError } from "./analysisErrors";
+import { estimateStandardCost, estimateTiledCost, STANDARD_MAX_SIZE, type AnalysisCostEstimate } from "./tiling";
+
+const USAGE_KEY_PREFIX = "inspector-pro:quota:";
+// Gemini reset โควต้ารายวันตอนเที่ยงคืนเวลาแปซิฟิก
+export const QUOTA_RESET_TIME_ZONE = "America/Los_Angeles";
+
+export interface QuotaLimits {
+  rpm?: number; // requests per minute (ไม่มี = ไม่จำกัด)
+  rpd?: number; // requests per day
+  tpm?: number; // tokens per minute (input + output)
+}
+
+// ✅ free tier ของ Gemini (แก้ได้ใน .env.local ถ้าเป็น paid tier)
+const DEFAULT_LIMITS: Record<string, QuotaLimits> = {
+  gemini: { rpm: 5, rpd: 20, tpm: 250_000 },
+};
+
+// ที่เก็บตัวนับรายวัน (browser = localStorage, null = ไม่เก็บ)
+export type UsageStorage = Pick<Storage, "getItem" | "setItem">;
+
+const browserStorage = (): UsageStorage | null => (typeof localStorage === "undefined" ? null : localStorage);
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  day: string; // YYYY-MM-DD ตาม QUOTA_RESET_TIME_ZONE
+  requests: number;
+  exhausted?: boolean; // server ตอบว่าโควต้ารายวันหมดแล้ว (ก่อนตัวนับเราจะถึง)
+}
+
+export interface QuotaSnapshot {
+  limits: QuotaLimits;
+  today: DailyUsage;
+  requestsThisMinute: number; // ที่ยังนับใน bucket (ประมาณ)
+  tokensThisMinute: number;
+  resetAt: number; // เวลา reset รายวันครั้งถัดไป (ms)
+  exhausted: boolean;
+}
+
+export interface BudgetForecast extends AnalysisCostEstimate {
+  remainingRequests: number; // Infinity = ไม่จำกัด
+  fitsToday: boolean;
+  durationMs: number; // เวลาโดยประมาณตาม RPM/TPM
+}
+
+// budget ของเราเองเต็ม (ยังไม่ได้ยิงไปโดน 429) — ชนิดเดียวกับ quota หมดจาก API
+export class QuotaExceededError extends QuotaExhaustedError {
+  constructor(message: string, resetAt: number) {
+    super(message, resetAt);
+    this.name = "QuotaExceededError";
+  }
+}
+
+const MINUTE_MS = 60_000;
+
+// ----------------------------
+// เวลา reset รายวัน
+// ----------------------------
+function zonedParts(now: number) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: QUOTA_RESET_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    day: `${get("year")}-${get("month")}-${get("day")}`,
+    secondsIntoDay: Number(get("hour")) * 3600 + Number(get("minute")) * 60 + Number(get("second")),
+  };
+}
+
+export const quotaDay = (now = Date.now()) => zonedParts(now).day;
+
+export function nextQuotaResetAt(now = Date.now()): number {
+  const { secondsIntoDay } = zonedParts(now);
+  return now - (now % 1000) + (86_400 - secondsIntoDay) * 1000;
+}
+
+export function formatResetIn(ms: number): string {
+  const min = Math.max(0, Math.ceil(ms / MINUTE_MS));
+  if (min < 60) return `${min}m`;
+  return `${Math.floor(min / 60)}h ${min % 60}m`;
+}
+
+// ----------------------------
+// token bucket
+// ----------------------------
+/**
+ * เต็มที่ capacity, เติมกลับเต็มใน 1 นาที
+ * take() ติดลบได้ (token จริงรู้หลังได้ response) → request ถัดไปรอจนกลับมาเป็นบวก
+ */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.level = capacity;
+  }
+
+  private refill(now: number) {
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / MINUTE_MS);
+    this.updatedAt = now;
+  }
+
+  take(amount: number, now = Date.now()) {
+    this.refill(now);
+    this.level -= amount;
+  }
+
+  // ms ที่ต้องรอจนมีอย่างน้อย `amount`
+  waitMs(amount: number, now = Date.now()): number {
+    this.refill(now);
+    if (this.level >= amount) return 0;
+    return Math.ceil(((amount - this.level) * MINUTE_MS) / this.capacity);
+  }
+
+  used(now = Date.now()): number {
+    this.refill(now);
+    return Math.max(0, this.capacity - this.level);
+  }
+}
+
+// ----------------------------
+// budget
+// ----------------------------
+function readLimit(value: unknown, fallback?: number): number | undefined {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// ชื่อ model → ส่วนของชื่อ env (gemini-2.5-flash-lite → GEMINI_2_5_FLASH_LITE)
+export const quotaEnvScope = (model: string) => model.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+/**
+ * limit จาก env (.env.local): VITE_QUOTA_RPM / VITE_QUOTA_RPD / VITE_QUOTA_TPM
+ * (server ส่ง process.env + prefix "" → QUOTA_RPM / QUOTA_RPD / QUOTA_TPM)
+ * `scope` = limit แยกต่อ model: QUOTA_<SCOPE>_RPD ก่อน แล้วค่อย QUOTA_RPD
+ * ไม่ตั้ง → ค่า default ของ provider (ไม่มี default = ไม่จำกัด)
+ */
+export function quotaLimitsFromEnv(
+  providerId: string,
+  env: Record<string, string | undefined> = import.meta.env as Record<string, string | undefined>,
+  prefix = "VITE_",
+  scope?: string
+): QuotaLimits {
+  const defaults = DEFAULT_LIMITS[providerId] ?? {};
+  const read = (name: string, fallback?: number) =>
+    readLimit(scope ? env[`${prefix}QUOTA_${scope}_${name}`] : undefined, readLimit(env[`${prefix}QUOTA_${name}`], fallback));
+  return {
+    rpm: read("RPM", defaults.rpm),
+    rpd: read("RPD", defaults.rpd),
+    tpm: read("TPM", defaults.tpm),
+  };
+}
+
+/**
+ * budget ของ provider 1 ตัว: ใช้เป็น StartGate ของ ThrottleQueue
+ * - RPM/TPM: รอจน bucket มีที่ว่าง
+ * - RPD: ครบแล้ว → QuotaExceededError ทันที (ไม่ยิงไปโดน 429)
+ */
+export class QuotaBudget implements StartGate {
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private today: DailyUsage;
+  private listeners = new Set<(snapshot: QuotaSnapshot) => void>();
+
+  constructor(
+    readonly providerId: string,
+    private _limits: QuotaLimits,
+    private readonly storage: UsageStorage | null = browserStorage()
+  ) {
+    this.setBuckets(_limits);
+    this.today = this.loadToday();
+  }
+
+  get limits(): QuotaLimits {
+    return this._limits;
+  }
+
+  private setBuckets(limits: QuotaLimits) {
+    this.requestBucket = limits.rpm ? new TokenBucket(limits.rpm) : undefined;
+    this.tokenBucket = limits.tpm ? new TokenBucket(limits.tpm) : undefined;
+  }
+
+  /**
+   * ใช้ตัวเลขจาก server แทนของตัวเอง (proxy คุม quota กลางของทุกคน → browser แค่แสดง/กันยิงเกิน)
+   * limit เปลี่ยน → bucket ต่อนาทีเริ่มใหม่
+   */
+  sync(snapshot: Pick<QuotaSnapshot, "limits" | "today">) {
+    const { limits, today } = snapshot;
+    if (limits.rpm !== this._limits.rpm || limits.rpd !== this._limits.rpd || limits.tpm !== this._limits.tpm) {
+      this._limits = { ...limits };
+      this.setBuckets(this._limits);
+    }
+    if (today.day === quotaDay()) this.today = { ...today };
+    this.persist();
+  }
+
+  // ระยะห่างเฉลี่ยระหว่าง request ที่ RPM นี้ (ใช้ประมาณเวลา)
+  get requestIntervalMs(): number | undefined {
+    return this.limits.rpm ? Math.ceil(MINUTE_MS / this.limits.rpm) : undefined;
+  }
+
+  waitMs(): number {
+    const today = this.current();
+    if (today.exhausted || (this.limits.rpd !== undefined && today.requests >= this.limits.rpd)) {
+      const resetAt = nextQuotaResetAt();
+      throw new QuotaExceededError(
+        `Daily request quota reached (${today.requests}/${this.limits.rpd ?? "?"}). Resets in ${formatResetIn(resetAt - Date.now())}.`,
+        resetAt
+      );
+    }
+    return Math.max(this.requestBucket?.waitMs(1) ?? 0, this.tokenBucket?.waitMs(0) ?? 0);
+  }
+
+  onStart() {
+    this.recordRequest();
+  }
+
+  // ทุก attempt ที่ยิงจริง (รวม retry) กินโควต้า
+  recordRequest() {
+    this.requestBucket?.take(1);
+    const today = this.current();
+    this.today = { ...today, requests: today.requests + 1 };
+    this.persist();
+  }
+
+  // จาก usageMetadata/usage ของ response จริง
+  recordUsage(usage: TokenUsage | null | undefined) {
+    if (!usage) return;
+    this.tokenBucket?.take(usage.inputTokens + usage.outputTokens);
+    const today = this.current();
+    this.today = {
+      ...today,
+      inputTokens: today.inputTokens + usage.inputTokens,
+      outputTokens: today.outputTokens + usage.outputTokens,
+    };
+    this.persist();
+  }
+
+  // server บอกว่าโควต้ารายวันหมด → หยุดยิงจนถึงเวลา reset
+  markDailyExhausted() {
+    this.today = { ...this.current(), exhausted: true };
+    this.persist();
+  }
+
+  getSnapshot(): QuotaSnapshot {
+    const today = this.current();
+    return {
+      limits: this.limits,
+      today,
+      requestsThisMinute: Math.round(this.requestBucket?.used() ?? 0),
+      tokensThisMinute: Math.round(this.tokenBucket?.used() ?? 0),
+      resetAt: nextQuotaResetAt(),
+      exhausted: Boolean(today.exhausted) || (this.limits.rpd !== undefined && today.requests >= this.limits.rpd),
+    };
+  }
+
+  subscribe(listener: (snapshot: QuotaSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * batch ที่เหลือจะพอโควต้าวันนี้ไหม + ใช้เวลาประมาณเท่าไหร่ตาม RPM/TPM
+   */
+  forecast(estimate: AnalysisCostEstimate): BudgetForecast {
+    const today = this.current();
+    const remainingRequests =
+      today.exhausted ? 0 : this.limits.rpd !== undefined ? Math.max(0, this.limits.rpd - today.requests) : Infinity;
+    const tokens = estimate.inputTokens + estimate.outputTokens;
+    const byRequests = this.limits.rpm ? (estimate.requests / this.limits.rpm) * MINUTE_MS : 0;
+    const byTokens = this.limits.tpm ? (tokens / this.limits.tpm) * MINUTE_MS : 0;
+    return {
+      ...estimate,
+      remainingRequests,
+      fitsToday: estimate.requests <= remainingRequests,
+      durationMs: Math.max(byRequests, byTokens),
+    };
+  }
+
+  // วันเปลี่ยน → เริ่มนับใหม่
+  private current(): DailyUsage {
+    const day = quotaDay();
+    if (this.today.day !== day) {
+      this.today = { day, requests: 0, inputTokens: 0, outputTokens: 0 };
+      this.persist();
+    }
+    return this.today;
+  }
+
+  private loadToday(): DailyUsage {
+    const empty: DailyUsage = { day: quotaDay(), requests: 0, inputTokens: 0, outputTokens: 0 };
+    try {
+      const stored = JSON.parse(this.storage?.getItem(USAGE_KEY_PREFIX + this.providerId) ?? "null");
+      if (stored?.day === empty.day && typeof stored.requests === "number") {
+        return {
+          ...empty,
+          requests: stored.requests,
+          inputTokens: Number(stored.inputTokens) || 0,
+          outputTokens: Number(stored.outputTokens) || 0,
+          exhausted: stored.exhausted === true || undefined,
+        };
+      }
+    } catch {
+      // ค่าเสีย → เริ่มนับใหม่
+    }
+    return empty;
+  }
+
+  private persist() {
+    this.storage?.setItem(USAGE_KEY_PREFIX + this.providerId, JSON.stringify(this.today));
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// ----------------------------
+// batch ที่เหลือ
+// ----------------------------
+// รูปโหมดปกติไม่ได้เก็บขนาด → ประมาณเป็น 4:3 ที่ด้านยาว STANDARD_MAX_SIZE
+const STANDARD_SIZE_GUESS = { width: STANDARD_MAX_SIZE, height: Math.round(STANDARD_MAX_SIZE * 0.75) };
+
+/**
+ * cost ของ detection pass ที่ยังไม่ได้รัน (ไม่รวม zoom verification ที่ขึ้นกับผล)
+ * - รอ approve high detail → นับแบบ tile (กรณีแพงสุด)
+ */
+export function estimateRemainingCost(images: InspectionImage[]): AnalysisCostEstimate {
+  const pending = images.filter((img) => img.analysis.analyzedAt === undefined && !img.analysis.error);
+  const tiled = pending.filter((img) => img.originalSize && (img.highDetail || img.analysis.awaitingApproval));
+  const standard = pending.filter((img) => !tiled.includes(img));
+  const a = estimateTiledCost(tiled.map((img) => img.originalSize!));
+  const b = estimateStandardCost(standard.map((img) => img.originalSize ?? STANDARD_SIZE_GUESS));
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
+}
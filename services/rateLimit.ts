@@ -1,51 +1,232 @@
 // services/rateLimit.ts
+import { AnalysisError } from "./analysisErrors";
+
 type AnyFn<T> = () => Promise<T>;
 
-export function sleep(ms: number) {
-  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+/**
+ * รอแบบยกเลิกได้ (signal abort → reject ด้วย AbortError ทันที)
+ */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function abortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  if (reason instanceof Error && reason.name === "AbortError") return reason;
+  const err = new Error(typeof reason === "string" ? reason : "Request was cancelled");
+  err.name = "AbortError";
+  return err;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as any)?.name === "AbortError";
+}
+
+// priority ของงานในคิว (มากกว่า = ได้คิวก่อน, เท่ากัน = FIFO)
+export const JOB_PRIORITY = {
+  background: 0,
+  active: 10, // รูปที่ผู้ใช้เปิดดูอยู่
+  user: 20, // ผู้ใช้สั่งเอง (re-scan)
+} as const;
+
+export interface JobOptions {
+  // ฟังก์ชัน = ประเมินใหม่ทุกครั้งที่เลือกงานถัดไป (เช่น ผู้ใช้เปลี่ยนรูปที่เปิดดู)
+  priority?: number | (() => number);
+  signal?: AbortSignal;
+}
+
+export interface QueueState {
+  pending: number;
+  running: number;
+  paused: boolean;
+  nextStartAt: number | null; // เวลา (ms) ที่งานถัดไปจะเริ่มได้ (null = ไม่มีงานรอ/หยุดอยู่)
 }
 
+// เงื่อนไขเพิ่มก่อนเริ่มงาน (เช่น quota budget)
+export interface StartGate {
+  // ms ที่ต้องรอก่อนเริ่มงานถัดไป (throw = เริ่มไม่ได้เลย → งานที่รอ fail ทันที)
+  waitMs(): number;
+  onStart(): void;
+}
+
+interface QueuedJob {
+  fn: (signal?: AbortSignal) => Promise<any>;
+  resolve: (v: any) => void;
+  reject: (e: any) => void;
+  priority: JobOptions["priority"];
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  seq: number;
+}
+
+export const resolvePriority = (priority: JobOptions["priority"]) =>
+  typeof priority === "function" ? priority() : priority ?? JOB_PRIORITY.background;
+
+const jobPriority = (job: QueuedJob) => resolvePriority(job.priority);
+
 /**
- * Simple throttling queue:
+ * Throttling queue:
  * - concurrency = จำนวนงานที่รันพร้อมกัน
  * - minTimeMs = เว้นระยะขั้นต่ำระหว่าง "เริ่ม" งานแต่ละครั้ง
+ * - priority ต่องาน (เลือกตอนจะเริ่มจริง → งานด่วนที่มาระหว่างรอแซงได้)
+ * - signal abort → งานที่ยังไม่เริ่มถูกถอดออกจากคิว ไม่เปลือง quota
+ * - pause/resume ทั้งคิว (งานที่กำลังรันอยู่ปล่อยให้จบเอง)
+ * - gate (ถ้ามี) ตัดสินเพิ่มว่าเริ่มได้เมื่อไหร่
  */
 export class ThrottleQueue {
   private running = 0;
   private lastStartAt = 0;
-  private queue: Array<{
-    fn: AnyFn<any>;
-    resolve: (v: any) => void;
-    reject: (e: any) => void;
-  }> = [];
+  private nextStartAt: number | null = null;
+  private paused = false;
+  private seq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: QueuedJob[] = [];
+  private listeners = new Set<(state: QueueState) => void>();
 
   constructor(
     private readonly concurrency: number = 1,
-    private readonly minTimeMs: number = 1200
+    private readonly minTimeMs: number = 1200,
+    private readonly gate?: StartGate
   ) {}
 
-  schedule<T>(fn: AnyFn<T>): Promise<T> {
+  schedule<T>(fn: (signal?: AbortSignal) => Promise<T>, opts?: JobOptions): Promise<T> {
     return new Promise<T>((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
+      const signal = opts?.signal;
+      if (signal?.aborted) return reject(abortError(signal));
+
+      const job: QueuedJob = { fn, resolve, reject, priority: opts?.priority, signal, seq: this.seq++ };
+      if (signal) {
+        job.onAbort = () => {
+          const idx = this.queue.indexOf(job);
+          if (idx === -1) return; // เริ่มไปแล้ว → fn จัดการ signal เอง
+          this.queue.splice(idx, 1);
+          reject(abortError(signal));
+          this.pump();
+        };
+        signal.addEventListener("abort", job.onAbort, { once: true });
+      }
+      this.queue.push(job);
       this.pump();
     });
   }
 
-  private async pump() {
-    if (this.running >= this.concurrency) return;
-    const job = this.queue.shift();
-    if (!job) return;
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.clearTimer();
+    this.emit();
+  }
 
-    this.running++;
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.pump();
+  }
 
-    try {
+  isPaused() {
+    return this.paused;
+  }
+
+  getState(): QueueState {
+    return {
+      pending: this.queue.length,
+      running: this.running,
+      paused: this.paused,
+      nextStartAt: this.paused ? null : this.nextStartAt,
+    };
+  }
+
+  subscribe(listener: (state: QueueState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // งาน priority สูงสุด (เท่ากัน → มาก่อนได้ก่อน)
+  private takeNext(): QueuedJob | undefined {
+    if (this.queue.length === 0) return undefined;
+    let best = 0;
+    let bestPriority = jobPriority(this.queue[0]);
+    for (let i = 1; i < this.queue.length; i++) {
+      const p = jobPriority(this.queue[i]);
+      if (p > bestPriority || (p === bestPriority && this.queue[i].seq < this.queue[best].seq)) {
+        best = i;
+        bestPriority = p;
+      }
+    }
+    return this.queue.splice(best, 1)[0];
+  }
+
+  private pump() {
+    this.clearTimer();
+    this.nextStartAt = null;
+    while (!this.paused && this.running < this.concurrency && this.queue.length > 0) {
       const now = Date.now();
-      const waitMs = Math.max(0, this.minTimeMs - (now - this.lastStartAt));
-      if (waitMs > 0) await sleep(waitMs);
-      this.lastStartAt = Date.now();
+      let waitMs = Math.max(0, this.minTimeMs - (now - this.lastStartAt));
+      try {
+        waitMs = Math.max(waitMs, this.gate?.waitMs() ?? 0);
+      } catch (err) {
+        // gate ปฏิเสธ (เช่น โควต้ารายวันหมด) → ไม่ต้องยิง
+        const job = this.takeNext();
+        if (job) {
+          this.detach(job);
+          job.reject(err);
+        }
+        continue;
+      }
+      if (waitMs > 0) {
+        this.nextStartAt = now + waitMs;
+        // ยังไม่เลือกงานตอนนี้ → ครบเวลาค่อยเลือก (งานด่วนที่เข้ามาระหว่างรอได้ก่อน)
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, waitMs);
+        break;
+      }
+      const job = this.takeNext();
+      if (job) this.start(job);
+    }
+    this.emit();
+  }
+
+  private detach(job: QueuedJob) {
+    if (job.onAbort) job.signal?.removeEventListener("abort", job.onAbort);
+  }
 
-      const result = await job.fn();
-      job.resolve(result);
+  private async start(job: QueuedJob) {
+    this.detach(job);
+    this.running++;
+    this.lastStartAt = Date.now();
+    this.gate?.onStart();
+
+    try {
+      if (job.signal?.aborted) throw abortError(job.signal);
+      job.resolve(await job.fn(job.signal));
     } catch (e) {
       job.reject(e);
     } finally {
@@ -60,6 +241,7 @@ export class ThrottleQueue {
  * Retry with exponential backoff:
  * - supports 429 + RetryDelay parsing from error message (e.g. "RetryDelay: 14s")
  * - supports quota errors (RESOURCE_EXHAUSTED / "quota")
+ * - signal abort → หยุดทันที (รวมตอนรอ backoff) ไม่ยิง attempt ถัดไป
  */
 export async function withRetry<T>(
   fn: AnyFn<T>,
@@ -69,6 +251,7 @@ export async function withRetry<T>(
     maxDelayMs?: number;      // default 20000
     jitterRatio?: number;     // default 0.25
     onRetry?: (info: { attempt: number; delayMs: number; err: unknown }) => void;
+    signal?: AbortSignal;     // abort → หยุดทั้ง attempt ถัดไปและช่วงรอ backoff
   }
 ): Promise<T> {
   const maxRetries = opts?.maxRetries ?? 5;
@@ -79,9 +262,13 @@ export async function withRetry<T>(
   let attempt = 0;
   // eslint-disable-next-line no-constant-condition
   while (true) {
+    if (opts?.signal?.aborted) throw abortError(opts.signal);
     try {
       return await fn();
     } catch (err: any) {
+      // ยกเลิกแล้ว → ไม่ retry
+      if (isAbortError(err) || opts?.signal?.aborted) throw opts?.signal ? abortError(opts.signal) : err;
+
       const status = extractStatusCode(err);
       const msg = String(err?.message ?? err);
 
@@ -91,8 +278,8 @@ export async function withRetry<T>(
       attempt++;
       if (attempt > maxRetries) throw err;
 
-      // ถ้ามี RetryDelay: 14s ให้เคารพ
-      const serverDelayMs = parseRetryDelayMs(msg);
+      // ถ้ามี retryAfter (typed error) หรือ RetryDelay: 14s ในข้อความ ให้เคารพ
+      const serverDelayMs = err instanceof AnalysisError ? err.retryAfterMs : parseRetryDelayMs(msg);
 
       // exponential backoff
       const exp = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
@@ -106,17 +293,22 @@ export async function withRetry<T>(
 
       opts?.onRetry?.({ attempt, delayMs, err });
 
-      await sleep(delayMs);
+      await sleep(delayMs, opts?.signal);
       continue;
     }
   }
 }
 
 function shouldRetry(status?: number, msg?: string, err?: any) {
+  // รู้ชนิดแล้ว → ตัดสินจากชนิด (quota รายวันหมด/key ผิด/safety ลองซ้ำก็ไม่ผ่าน)
+  if (err instanceof AnalysisError) return err.retryable;
+
   const text = (msg ?? "").toLowerCase();
 
   // 429 rate limit / quota
   if (status === 429) return true;
+  // มี status อื่นชัดเจน → ลองใหม่เฉพาะ timeout / server error (400 ที่ message มีคำว่า fetch ไม่ใช่ network)
+  if (status !== undefined) return status === 408 || status >= 500;
 
   // Gemini/Google APIs มักโยน RESOURCE_EXHAUSTED หรือข้อความ quota
   if (text.includes("resource_exhausted")) return true;
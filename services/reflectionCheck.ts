@@ -0,0 +1,184 @@
+// services/reflectionCheck.ts
+// ตรวจแสงสะท้อนข้ามรูป: finding บน panel ที่เห็นจากหลายรูป
+// - เจออยู่ที่เดิมในรูปอื่น → damage จริง (confidence ขึ้น)
+// - ย้ายที่/หายไปในรูปอื่น → น่าจะเป็นแสงสะท้อน (ลด confidence หรือเปลี่ยนเป็น reflection)
+// ตำแหน่งในรูปเทียบกันได้เฉพาะรูป shot เดียวกันใน shot list
+// คนละมุม / ไม่รู้มุม (upload) → ดูแค่ว่ายังเห็นบน panel นั้นไหม
+import type {
+  CarPanel,
+  DamageDetection,
+  DamageType,
+  InspectionImage,
+  MultiAngleCheck,
+  MultiAngleEvidence,
+  MultiAngleOutcome,
+  MultiAngleRelation,
+} from "../types";
+import { isHumanVerified } from "./annotation";
+import { MAX_CENTER_DISTANCE_SAME_PANEL } from "./inspectionCompare";
+
+export const MULTI_ANGLE_LABELS: Record<MultiAngleOutcome, string> = {
+  consistent: "Same spot in other photos",
+  likely_reflection: "Likely reflection",
+};
+
+export const MULTI_ANGLE_RELATION_LABELS: Record<MultiAngleRelation, string> = {
+  consistent: "same spot",
+  moved: "moved",
+  not_seen: "not seen",
+};
+
+// เห็นที่เดิม: +0.1 ต่อรูป (นับสูงสุด 2 รูป)
+const CONSISTENT_BOOST = 0.1;
+const MAX_BOOST_PHOTOS = 2;
+const NOT_SEEN_FACTOR = 0.75;
+const MOVED_FACTOR = 0.5;
+// ไม่เห็นในรูปอื่นอย่างน้อยเท่านี้ (และไม่เคยเจอที่เดิม) → เปลี่ยนเป็น reflection
+const NOT_SEEN_TO_RECLASSIFY = 2;
+
+// แสงสะท้อนเป็นเส้น/จุดสว่าง → AI เรียกเป็น scratch/paint บ่อย (นับเป็นชนิดเดียวกันตอนหาคู่)
+const SURFACE_TYPES: DamageType[] = ["scratch", "paint", "reflection"];
+const SHAPE_TYPES: DamageType[] = ["dent", "crack"];
+
+function compatibleTypes(a: DamageType, b: DamageType): boolean {
+  if (a === b || a === "other" || b === "other") return true;
+  return (
+    (SURFACE_TYPES.includes(a) && SURFACE_TYPES.includes(b)) || (SHAPE_TYPES.includes(a) && SHAPE_TYPES.includes(b))
+  );
+}
+
+function centerDistance(a: DamageDetection["boundingBox"], b: DamageDetection["boundingBox"]): number {
+  return Math.hypot((a[1] + a[3] - b[1] - b[3]) / 2000, (a[0] + a[2] - b[0] - b[2]) / 2000);
+}
+
+// รูป upload ไม่มี shot = มุมกล้องอาจต่างกันมาก → damage จริงก็อยู่คนละพิกัดได้
+const positionsComparable = (a: InspectionImage, b: InspectionImage) =>
+  Boolean(a.shot && b.shot && a.shot.id === b.shot.id);
+
+function showsPanel(img: InspectionImage, panel: CarPanel): boolean {
+  return Boolean(img.shot?.panels.includes(panel)) || img.analysis.detections.some((d) => d.panel === panel);
+}
+
+// ผลที่ยืมจาก cache ของรูปที่คล้ายกัน (perceptual hash) = detection ชุดเดียวกับรูปต้นทาง ไม่ใช่อีกมุมมองจริง
+const borrowedResult = (img: InspectionImage) => img.analysis.fromCache?.match === "similar";
+
+/**
+ * ค่าก่อนตรวจข้ามรูป (ใช้ตอนตรวจซ้ำ และตอนเก็บผลของ model ลง cache)
+ */
+export function withoutMultiAngle(det: DamageDetection): DamageDetection {
+  if (!det.multiAngle) return det;
+  const { multiAngle, ...rest } = det;
+  return { ...rest, ...multiAngle.before };
+}
+
+function evidenceFor(det: DamageDetection, image: InspectionImage, other: InspectionImage): MultiAngleEvidence {
+  const candidates = other.analysis.detections.filter(
+    (d) => d.panel === det.panel && compatibleTypes(d.type, det.type)
+  );
+  if (candidates.length === 0) return { imageId: other.id, relation: "not_seen" };
+
+  const nearest = candidates
+    .map((d) => ({ d, distance: centerDistance(d.boundingBox, det.boundingBox) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const consistent = !positionsComparable(image, other) || nearest.distance <= MAX_CENTER_DISTANCE_SAME_PANEL;
+  return { imageId: other.id, detectionId: nearest.d.id, relation: consistent ? "consistent" : "moved" };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function applyCheck(
+  det: DamageDetection,
+  evidence: MultiAngleEvidence[],
+  partners: DamageDetection[],
+  checkedAt: number
+): DamageDetection {
+  const count = (relation: MultiAngleEvidence["relation"]) => evidence.filter((e) => e.relation === relation).length;
+  const consistent = count("consistent");
+  const moved = count("moved");
+  const notSeen = count("not_seen");
+  const before = { type: det.type, confidence: det.confidence, isConfirmedDamage: det.isConfirmedDamage };
+  const order = { consistent: 0, moved: 1, not_seen: 2 };
+  const check: MultiAngleCheck = {
+    outcome: consistent > 0 ? "consistent" : "likely_reflection",
+    evidence: [...evidence].sort((a, b) => order[a.relation] - order[b.relation]),
+    checkedAt,
+    before,
+  };
+
+  if (check.outcome === "consistent") {
+    // reflection ที่อยู่ที่เดิมทุกมุม = damage จริง → ใช้ชนิดจากรูปอื่น
+    const realType = partners.find((p) => p.type !== "reflection")?.type;
+    return {
+      ...det,
+      type: det.type === "reflection" && realType ? realType : det.type,
+      confidence: round2(Math.min(0.99, det.confidence + CONSISTENT_BOOST * Math.min(consistent, MAX_BOOST_PHOTOS))),
+      multiAngle: check,
+    };
+  }
+
+  if (det.type === "reflection") return { ...det, multiAngle: check };
+
+  // close-up ยืนยัน texture แล้ว → แค่ลด confidence ไม่เปลี่ยนชนิด
+  const zoomConfirmed = det.zoomVerdict?.verdict === "confirmed";
+  const reclassify =
+    !zoomConfirmed && SURFACE_TYPES.includes(det.type) && (moved > 0 || notSeen >= NOT_SEEN_TO_RECLASSIFY);
+  if (reclassify) {
+    return {
+      ...det,
+      type: "reflection",
+      isConfirmedDamage: false,
+      confidence: round2(det.confidence * MOVED_FACTOR),
+      multiAngle: check,
+    };
+  }
+  return {
+    ...det,
+    confidence: round2(det.confidence * (moved > 0 ? MOVED_FACTOR : NOT_SEEN_FACTOR)),
+    multiAngle: check,
+  };
+}
+
+/**
+ * ตรวจทุก finding ที่มี panel และมีรูปอื่นที่เห็น panel เดียวกัน (ตรวจซ้ำได้: เริ่มจากค่า before เสมอ)
+ * - detection ที่คนยืนยัน/แก้แล้วไม่แตะ
+ * - ไม่มีรูปอื่นให้เทียบ → ไม่มี multiAngle
+ * - รูปที่ได้ผลจาก cache แบบ similar ไม่ใช้เป็นหลักฐาน และไม่ตรวจ (ต้นทางอาจอยู่ในชุดเดียวกัน → "ที่เดิม" ทุกจุด)
+ */
+export function crossCheckReflections(images: InspectionImage[], checkedAt = Date.now()): InspectionImage[] {
+  const base = images.map((img) => ({
+    ...img,
+    analysis: {
+      ...img.analysis,
+      detections: img.analysis.detections.map((d) => (isHumanVerified(d) ? d : withoutMultiAngle(d))),
+    },
+  }));
+  const analyzed = base.filter((img) => img.analysis.analyzedAt !== undefined && !borrowedResult(img));
+
+  return base.map((img, i) => {
+    if (img.analysis.analyzedAt === undefined || img.analysis.detections.length === 0) return images[i];
+    if (borrowedResult(img)) return img;
+    const detections = img.analysis.detections.map((det) => {
+      if (isHumanVerified(det) || !det.panel) return det;
+      const panel = det.panel;
+      const others = analyzed.filter((other) => other.id !== img.id && showsPanel(other, panel));
+      if (others.length === 0) return det;
+
+      const evidence = others.map((other) => evidenceFor(det, img, other));
+      const partners = evidence.flatMap((e) =>
+        e.relation === "consistent"
+          ? (others.find((o) => o.id === e.imageId)?.analysis.detections.filter((d) => d.id === e.detectionId) ?? [])
+          : []
+      );
+      return applyCheck(det, evidence, partners, checkedAt);
+    });
+    return { ...img, analysis: { ...img.analysis, detections } };
+  });
+}
+
+export function multiAngleSummary(check: MultiAngleCheck): string {
+  const n = (relation: MultiAngleEvidence["relation"]) => check.evidence.filter((e) => e.relation === relation).length;
+  const photos = (k: number) => `${k} other photo${k === 1 ? "" : "s"}`;
+  if (check.outcome === "consistent") return `${MULTI_ANGLE_LABELS.consistent}: ${photos(n("consistent"))}`;
+  const parts = [n("moved") > 0 && `moved in ${photos(n("moved"))}`, n("not_seen") > 0 && `not seen in ${photos(n("not_seen"))}`];
+  return `${MULTI_ANGLE_LABELS.likely_reflection}: ${parts.filter(Boolean).join(", ")}`;
+}
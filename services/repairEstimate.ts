@@ -0,0 +1,296 @@
+// services/repairEstimate.ts
+// severity + พื้นที่เสียหาย + ราคาซ่อมโดยประมาณ (ตารางราคาแก้/import/export ได้เป็น JSON)
+import type {
+  DamageDetection,
+  InspectionImage,
+  RepairMethod,
+  RepairPriceEntry,
+  RepairPriceTable,
+  Severity,
+} from "../types";
+import { DAMAGE_TYPES, SEVERITIES } from "./detectionSchema";
+import { downloadBlob } from "./inspectionExport";
+import { isRejectedByVerdict } from "./zoomVerdict";
+
+export const REPAIR_METHODS: RepairMethod[] = ["none", "polish", "smart_repair", "pdr", "refinish", "replace"];
+
+export const REPAIR_METHOD_LABELS: Record<RepairMethod, string> = {
+  none: "No repair",
+  polish: "Polish",
+  smart_repair: "Smart repair",
+  pdr: "Paintless dent repair",
+  refinish: "Fill & refinish",
+  replace: "Replace part",
+};
+
+const PRICE_TABLE_KEY = "inspector-pro:priceTable";
+
+// สัดส่วนพื้นที่ box ต่อทั้งรูป: < minor → minor, < moderate → moderate, ที่เหลือ severe
+export const SEVERITY_AREA_THRESHOLDS = { minor: 0.005, moderate: 0.03 };
+
+// ไม่รู้ขนาดรูป → สมมติ 4:3 (กล้องมือถือส่วนใหญ่)
+const DEFAULT_ASPECT = 3 / 4;
+
+const entry = (method: RepairMethod, laborHours: number, materials: number): RepairPriceEntry => ({
+  method,
+  laborHours,
+  materials,
+});
+
+export const DEFAULT_PRICE_TABLE: RepairPriceTable = {
+  version: 1,
+  currency: "USD",
+  laborRate: 60,
+  frameWidthCm: 150,
+  entries: {
+    scratch: {
+      minor: entry("polish", 0.5, 10),
+      moderate: entry("smart_repair", 1.5, 40),
+      severe: entry("refinish", 4, 120),
+    },
+    dent: {
+      minor: entry("pdr", 1, 0),
+      moderate: entry("pdr", 2.5, 0),
+      severe: entry("refinish", 5, 150),
+    },
+    crack: {
+      minor: entry("smart_repair", 1, 30),
+      moderate: entry("refinish", 3, 100),
+      severe: entry("replace", 3, 450),
+    },
+    paint: {
+      minor: entry("smart_repair", 1, 30),
+      moderate: entry("refinish", 3, 120),
+      severe: entry("refinish", 5, 180),
+    },
+    reflection: {
+      minor: entry("none", 0, 0),
+      moderate: entry("none", 0, 0),
+      severe: entry("none", 0, 0),
+    },
+    other: {
+      minor: entry("smart_repair", 1, 20),
+      moderate: entry("refinish", 3, 80),
+      severe: entry("replace", 3, 300),
+    },
+  },
+};
+
+// ----------------------------
+// grading
+// ----------------------------
+export type SeveritySource = "inspector" | "verification" | "size";
+
+export interface DetectionAssessment {
+  severity: Severity;
+  severitySource: SeveritySource;
+  areaPct: number; // % ของรูป
+  areaCm2: number;
+  method: RepairMethod;
+  laborHours: number;
+  cost: number;
+}
+
+export function boxAreaFraction(box: DamageDetection["boundingBox"]): number {
+  const [ymin, xmin, ymax, xmax] = box;
+  return (Math.max(0, ymax - ymin) * Math.max(0, xmax - xmin)) / 1_000_000;
+}
+
+export function severityFromArea(fraction: number): Severity {
+  if (fraction < SEVERITY_AREA_THRESHOLDS.minor) return "minor";
+  if (fraction < SEVERITY_AREA_THRESHOLDS.moderate) return "moderate";
+  return "severe";
+}
+
+/**
+ * ประเมิน detection เดียว
+ * - severity: ค่าที่ตั้งไว้ (Finger Focus / inspector) มาก่อน ไม่มีค่อยใช้ขนาด box
+ * - aspect = height / width ของรูป (ใช้แปลงเป็น cm²)
+ */
+export function assessDetection(
+  det: DamageDetection,
+  table: RepairPriceTable,
+  aspect = DEFAULT_ASPECT
+): DetectionAssessment {
+  const fraction = boxAreaFraction(det.boundingBox);
+  const severity = det.severity ?? severityFromArea(fraction);
+  const severitySource: SeveritySource = !det.severity
+    ? "size"
+    : det.zoomVerdict?.severity === det.severity
+      ? "verification"
+      : "inspector";
+
+  const frameCm2 = table.frameWidthCm * table.frameWidthCm * aspect;
+  const price = table.entries[det.type][severity];
+
+  return {
+    severity,
+    severitySource,
+    areaPct: fraction * 100,
+    areaCm2: fraction * frameCm2,
+    method: price.method,
+    laborHours: price.laborHours,
+    cost: price.laborHours * table.laborRate + price.materials,
+  };
+}
+
+export function imageAspect(img: Pick<InspectionImage, "originalSize">): number {
+  const size = img.originalSize;
+  return size && size.width > 0 ? size.height / size.width : DEFAULT_ASPECT;
+}
+
+// ----------------------------
+// totals
+// ----------------------------
+export interface RepairEstimateSummary {
+  confirmedCost: number;
+  confirmedHours: number;
+  confirmedCount: number;
+  // suspected ยังไม่ยืนยัน → แสดงแยกเป็นยอดที่อาจเพิ่ม
+  suspectedCost: number;
+  suspectedCount: number;
+}
+
+const EMPTY_SUMMARY: RepairEstimateSummary = {
+  confirmedCost: 0,
+  confirmedHours: 0,
+  confirmedCount: 0,
+  suspectedCost: 0,
+  suspectedCount: 0,
+};
+
+export function summarizeImageEstimate(
+  img: Pick<InspectionImage, "analysis" | "originalSize">,
+  table: RepairPriceTable
+): RepairEstimateSummary {
+  const aspect = imageAspect(img);
+  return img.analysis.detections.reduce((acc, det) => {
+    const a = assessDetection(det, table, aspect);
+    // reflection / Finger Focus ปฏิเสธแล้ว → ไม่คิดเงิน
+    if (a.method === "none" || isRejectedByVerdict(det)) return acc;
+    return det.isConfirmedDamage
+      ? {
+          ...acc,
+          confirmedCost: acc.confirmedCost + a.cost,
+          confirmedHours: acc.confirmedHours + a.laborHours,
+          confirmedCount: acc.confirmedCount + 1,
+        }
+      : { ...acc, suspectedCost: acc.suspectedCost + a.cost, suspectedCount: acc.suspectedCount + 1 };
+  }, EMPTY_SUMMARY);
+}
+
+export function summarizeInspectionEstimate(
+  images: Array<Pick<InspectionImage, "analysis" | "originalSize">>,
+  table: RepairPriceTable
+): RepairEstimateSummary {
+  return images
+    .map((img) => summarizeImageEstimate(img, table))
+    .reduce(
+      (acc, s) => ({
+        confirmedCost: acc.confirmedCost + s.confirmedCost,
+        confirmedHours: acc.confirmedHours + s.confirmedHours,
+        confirmedCount: acc.confirmedCount + s.confirmedCount,
+        suspectedCost: acc.suspectedCost + s.suspectedCost,
+        suspectedCount: acc.suspectedCount + s.suspectedCount,
+      }),
+      EMPTY_SUMMARY
+    );
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    // currency code ไม่ถูกต้อง → ไม่ให้ทั้งหน้าพัง
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
+
+// สำหรับ PDF (font มาตรฐานของ jsPDF ไม่มีสัญลักษณ์สกุลเงินหลายตัว)
+export const formatMoneyCode = (amount: number, currency: string) =>
+  `${currency} ${Math.round(amount).toLocaleString("en-US")}`;
+
+export const formatArea = (a: Pick<DetectionAssessment, "areaPct" | "areaCm2">) =>
+  `~${Math.round(a.areaCm2).toLocaleString()} cm² (${a.areaPct.toFixed(a.areaPct < 1 ? 2 : 1)}% of photo)`;
+
+// ----------------------------
+// price table: validate / persist / import / export
+// ----------------------------
+const isNonNegative = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+/**
+ * ตรวจ JSON ของตารางราคา
+ * - ค่าที่ผิดรูปแบบ → error (บอก path)
+ * - type/severity ที่ไม่มีในไฟล์ → ใช้ค่า default
+ */
+export function parsePriceTable(raw: unknown): { table: RepairPriceTable } | { error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "Price table must be a JSON object" };
+  const o = raw as Record<string, unknown>;
+
+  if (typeof o.currency !== "string" || !/^[A-Za-z]{3}$/.test(o.currency)) {
+    return { error: "currency must be a 3-letter code (e.g. USD)" };
+  }
+  if (!isNonNegative(o.laborRate)) return { error: "laborRate must be a non-negative number" };
+  if (!isNonNegative(o.frameWidthCm) || o.frameWidthCm === 0) return { error: "frameWidthCm must be a positive number" };
+
+  const rawEntries = (o.entries ?? {}) as Record<string, unknown>;
+  if (typeof rawEntries !== "object" || Array.isArray(rawEntries)) return { error: "entries must be an object" };
+
+  const entries = {} as RepairPriceTable["entries"];
+  for (const type of DAMAGE_TYPES) {
+    const byType = (rawEntries[type] ?? {}) as Record<string, unknown>;
+    entries[type] = { ...DEFAULT_PRICE_TABLE.entries[type] };
+    for (const severity of SEVERITIES) {
+      const e = byType[severity] as Record<string, unknown> | undefined;
+      if (e === undefined) continue;
+      const path = `entries.${type}.${severity}`;
+      if (!e || typeof e !== "object") return { error: `${path} must be an object` };
+      if (!REPAIR_METHODS.includes(e.method as RepairMethod)) {
+        return { error: `${path}.method must be one of ${REPAIR_METHODS.join("|")}` };
+      }
+      if (!isNonNegative(e.laborHours)) return { error: `${path}.laborHours must be a non-negative number` };
+      if (!isNonNegative(e.materials)) return { error: `${path}.materials must be a non-negative number` };
+      entries[type][severity] = { method: e.method as RepairMethod, laborHours: e.laborHours, materials: e.materials };
+    }
+  }
+
+  return {
+    table: {
+      version: 1,
+      currency: o.currency.toUpperCase(),
+      laborRate: o.laborRate,
+      frameWidthCm: o.frameWidthCm,
+      entries,
+    },
+  };
+}
+
+export function loadPriceTable(): RepairPriceTable {
+  const stored = localStorage.getItem(PRICE_TABLE_KEY);
+  if (!stored) return DEFAULT_PRICE_TABLE;
+  try {
+    const result = parsePriceTable(JSON.parse(stored));
+    if ("table" in result) return result.table;
+    console.warn("Stored price table is invalid, using defaults:", result.error);
+  } catch (err) {
+    console.warn("Stored price table is not valid JSON, using defaults:", err);
+  }
+  return DEFAULT_PRICE_TABLE;
+}
+
+export function savePriceTable(table: RepairPriceTable) {
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+}
+
+export async function importPriceTableFile(file: File): Promise<{ table: RepairPriceTable } | { error: string }> {
+  try {
+    return parsePriceTable(JSON.parse(await file.text()));
+  } catch {
+    return { error: `${file.name} is not valid JSON` };
+  }
+}
+
+export function downloadPriceTableJson(table: RepairPriceTable) {
+  const blob = new Blob([JSON.stringify(table, null, 2)], { type: "application/json" });
+  downloadBlob(blob, "repair-price-table.json");
+}
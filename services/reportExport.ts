@@ -0,0 +1,433 @@
+// services/reportExport.ts
+// "Generate Report": HTML แบบ self-contained + PDF (ทำฝั่ง client ทั้งหมด ไม่มี server)
+import { jsPDF } from "jspdf";
+import type { CarPanel, DamageDetection, DamageType, Inspection, RepairPriceTable } from "../types";
+import { cropDetection, loadImage, renderAnnotatedImage } from "./imageCrop";
+import { INSPECTION_STATUS_LABELS, formatOdometer, formatVehicleLabel } from "./inspection";
+import { downloadBlob, exportFileBaseName } from "./inspectionExport";
+import { detectionOrigin, isHumanVerified } from "./annotation";
+import { VERDICT_LABELS, describeVerdictChanges } from "./zoomVerdict";
+import { CAR_PANEL_LABELS, countDamageByPanel, panelLabel } from "./carPanels";
+import { INSPECTOR_INDICATED_LABEL } from "./fingerFocus";
+import { multiAngleSummary } from "./reflectionCheck";
+import { modelProvenance } from "./modelChain";
+import { CAPTURE_TIME_FLAG_LABELS, captureSummary, captureTimeFlag } from "./exif";
+import {
+  REPAIR_METHOD_LABELS,
+  assessDetection,
+  formatArea,
+  formatMoney,
+  formatMoneyCode,
+  imageAspect,
+  loadPriceTable,
+  summarizeImageEstimate,
+  summarizeInspectionEstimate,
+  type DetectionAssessment,
+  type RepairEstimateSummary,
+} from "./repairEstimate";
+
+export type ReportFormat = "html" | "pdf";
+
+interface ReportImageAsset {
+  name: string;
+  annotatedUrl: string | null;
+  error?: string;
+  capture?: string; // เวลา/เครื่อง/GPS จาก EXIF
+  captureWarning?: string; // ถ่ายนอกช่วง inspection
+  findings: Array<{ detection: DamageDetection; cropUrl: string | null; assessment: DetectionAssessment }>;
+  estimate: RepairEstimateSummary;
+}
+
+interface ReportSummaryRow {
+  type: DamageType;
+  confirmed: number;
+  suspected: number;
+}
+
+interface ReportData {
+  inspection: Inspection;
+  generatedAt: Date;
+  images: ReportImageAsset[];
+  summary: ReportSummaryRow[];
+  totals: { confirmed: number; suspected: number };
+  priceTable: RepairPriceTable;
+  estimate: RepairEstimateSummary;
+}
+
+async function buildReportData(inspection: Inspection, priceTable: RepairPriceTable): Promise<ReportData> {
+  const images: ReportImageAsset[] = [];
+  const byType = new Map<DamageType, ReportSummaryRow>();
+
+  for (const item of inspection.images) {
+    const img = await loadImage(item.url);
+    const detections = item.analysis.detections;
+    const timeFlag = captureTimeFlag(item.metadata, inspection);
+
+    images.push({
+      name: item.name,
+      annotatedUrl: renderAnnotatedImage(img, detections),
+      error: item.analysis.error,
+      capture: item.metadata && captureSummary(item.metadata),
+      captureWarning: timeFlag && timeFlag !== "unknown" ? CAPTURE_TIME_FLAG_LABELS[timeFlag] : undefined,
+      findings: detections.map((detection) => ({
+        detection,
+        cropUrl: cropDetection(img, detection.boundingBox)?.dataUrl ?? null,
+        assessment: assessDetection(detection, priceTable, imageAspect(item)),
+      })),
+      estimate: summarizeImageEstimate(item, priceTable),
+    });
+
+    for (const det of detections) {
+      const row = byType.get(det.type) ?? { type: det.type, confirmed: 0, suspected: 0 };
+      if (det.isConfirmedDamage) row.confirmed++;
+      else row.suspected++;
+      byType.set(det.type, row);
+    }
+  }
+
+  const summary = [...byType.values()].sort((a, b) => b.confirmed + b.suspected - (a.confirmed + a.suspected));
+  const totals = summary.reduce(
+    (acc, row) => ({ confirmed: acc.confirmed + row.confirmed, suspected: acc.suspected + row.suspected }),
+    { confirmed: 0, suspected: 0 }
+  );
+
+  return {
+    inspection,
+    generatedAt: new Date(),
+    images,
+    summary,
+    totals,
+    priceTable,
+    estimate: summarizeInspectionEstimate(inspection.images, priceTable),
+  };
+}
+
+export function vehicleFields(inspection: Inspection): Array<[string, string]> {
+  const v = inspection.vehicle;
+  const rows: Array<[string, string | undefined]> = [
+    ["Vehicle", formatVehicleLabel(v) || undefined],
+    ["VIN", v.vin],
+    ["License plate", v.licensePlate],
+    ["Odometer", formatOdometer(v) || undefined],
+    ["Inspector", inspection.inspectorName],
+    ["Location", inspection.location],
+    ["Status", INSPECTION_STATUS_LABELS[inspection.status]],
+    ["Inspection created", new Date(inspection.createdAt).toLocaleString()],
+  ];
+  return rows.filter((r): r is [string, string] => Boolean(r[1]));
+}
+
+export const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+function provenanceLabel(det: DamageDetection): string {
+  const origin =
+    detectionOrigin(det) === "human" ? "Added by inspector" : isHumanVerified(det) ? "AI • human verified" : "AI";
+  const parts = [origin];
+  if (det.inspectorIndicated) parts.push(INSPECTOR_INDICATED_LABEL);
+  if (det.multiAngle) parts.push(multiAngleSummary(det.multiAngle));
+  const model = modelProvenance(det);
+  if (model) parts.push(model);
+  return parts.join(" • ");
+}
+
+export function assessmentText(a: DetectionAssessment, money: (n: number) => string): string {
+  const repair = a.method === "none" ? REPAIR_METHOD_LABELS.none : `${REPAIR_METHOD_LABELS[a.method]} ${a.laborHours}h • ${money(a.cost)}`;
+  return `${a.severity} (${a.severitySource}) • ${formatArea(a)} • ${repair}`;
+}
+
+export function estimateText(e: RepairEstimateSummary, money: (n: number) => string): string {
+  const base = `${money(e.confirmedCost)} for ${e.confirmedCount} confirmed (${e.confirmedHours}h labor)`;
+  return e.suspectedCount > 0 ? `${base} • +${money(e.suspectedCost)} if ${e.suspectedCount} suspected are confirmed` : base;
+}
+
+function panelSummaryText(inspection: Inspection): string {
+  const counts = Object.entries(countDamageByPanel(inspection.images)) as Array<[CarPanel, number]>;
+  if (counts.length === 0) return "No damage assigned to a panel.";
+  return counts
+    .sort((a, b) => b[1] - a[1])
+    .map(([panel, n]) => `${CAR_PANEL_LABELS[panel]}: ${n}`)
+    .join(" • ");
+}
+
+// verdict + severity + rationale (+ สิ่งที่ verification เปลี่ยน) → บรรทัดเดียว (ใช้ "->" เพราะ font มาตรฐานของ jsPDF ไม่มีลูกศร)
+function fingerFocusText(det: DamageDetection): string | null {
+  const v = det.zoomVerdict;
+  if (!v) return det.zoomAnalysis || null;
+  const head = [VERDICT_LABELS[v.verdict], v.severity].filter(Boolean).join(" • ");
+  const changes = describeVerdictChanges(det)
+    .map((c) => `${c.field}: ${c.before} -> ${c.after}`)
+    .join("; ");
+  return `${head}: ${v.rationale}${changes ? ` (${changes})` : ""}`;
+}
+
+// ----------------------------
+// HTML
+// ----------------------------
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export const REPORT_CSS = `
+body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #0f172a; margin: 32px; }
+h1 { margin: 0 0 4px; font-size: 24px; }
+h2 { font-size: 16px; margin: 32px 0 8px; border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; }
+.muted { color: #64748b; font-size: 12px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { border: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #f1f5f9; }
+.photo { page-break-inside: avoid; margin-bottom: 24px; }
+.photo img.annotated { max-width: 100%; border-radius: 8px; }
+.finding { display: flex; gap: 12px; margin-top: 12px; page-break-inside: avoid; }
+.finding img { width: 160px; height: 160px; object-fit: cover; border-radius: 6px; border: 3px solid #facc15; }
+.finding.confirmed img { border-color: #ef4444; }
+.badge { display: inline-block; padding: 1px 6px; border-radius: 4px; font-size: 11px; font-weight: bold; color: #fff; background: #ca8a04; }
+.confirmed .badge { background: #dc2626; }
+.zoom { background: #eff6ff; padding: 6px 8px; border-radius: 6px; font-size: 12px; margin-top: 6px; }
+.error { color: #dc2626; font-weight: bold; }
+@media print { body { margin: 12mm; } }
+`.trim();
+
+function renderHtml(data: ReportData): string {
+  const { inspection } = data;
+  const money = (n: number) => formatMoney(n, data.priceTable.currency);
+  const title = formatVehicleLabel(inspection.vehicle) || inspection.title;
+
+  const vehicleRows = vehicleFields(inspection)
+    .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+    .join("");
+
+  const summaryRows = data.summary
+    .map(
+      (row) =>
+        `<tr><td>${escapeHtml(row.type)}</td><td>${row.confirmed}</td><td>${row.suspected}</td><td>${row.confirmed + row.suspected}</td></tr>`
+    )
+    .join("");
+
+  const photos = data.images
+    .map((img, imgIdx) => {
+      const findings = img.findings
+        .map(({ detection: det, cropUrl, assessment }, i) => {
+          const cls = det.isConfirmedDamage ? "finding confirmed" : "finding";
+          const focus = fingerFocusText(det);
+          const status = det.isConfirmedDamage ? "CONFIRMED" : "SUSPECTED";
+          return `
+<div class="${cls}">
+  ${cropUrl ? `<img src="${cropUrl}" alt="Finding ${i + 1}" />` : ""}
+  <div>
+    <div><strong>#${i + 1} ${escapeHtml(det.type.toUpperCase())}</strong> <span class="badge">${status}</span> <span class="muted">${escapeHtml(panelLabel(det.panel))} • confidence ${pct(det.confidence)} • ${escapeHtml(provenanceLabel(det))}</span></div>
+    <div>${escapeHtml(det.description || "-")}</div>
+    <div class="muted">${escapeHtml(assessmentText(assessment, money))}</div>
+    ${focus ? `<div class="zoom"><strong>Finger Focus:</strong> ${escapeHtml(focus)}</div>` : ""}
+  </div>
+</div>`;
+        })
+        .join("");
+
+      return `
+<div class="photo">
+  <h2>Photo ${imgIdx + 1}: ${escapeHtml(img.name)}</h2>
+  ${img.capture ? `<p class="muted">${escapeHtml(img.capture)}</p>` : ""}
+  ${img.captureWarning ? `<p class="error">${escapeHtml(img.captureWarning)}</p>` : ""}
+  ${img.error ? `<p class="error">${escapeHtml(img.error)}</p>` : ""}
+  ${img.findings.length > 0 ? `<p class="muted">Repair estimate: ${escapeHtml(estimateText(img.estimate, money))}</p>` : ""}
+  ${img.annotatedUrl ? `<img class="annotated" src="${img.annotatedUrl}" alt="${escapeHtml(img.name)}" />` : ""}
+  ${img.findings.length === 0 && !img.error ? `<p class="muted">No damage detected.</p>` : findings}
+</div>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Inspection Report - ${escapeHtml(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>Inspection Report</h1>
+<p class="muted">${escapeHtml(title)} • Generated ${escapeHtml(data.generatedAt.toLocaleString())}</p>
+
+<h2>Vehicle</h2>
+<table>${vehicleRows}</table>
+
+<h2>Damage Summary</h2>
+<table>
+<thead><tr><th>Type</th><th>Confirmed</th><th>Suspected</th><th>Total</th></tr></thead>
+<tbody>${summaryRows || `<tr><td colspan="4">No findings</td></tr>`}</tbody>
+<tfoot><tr><th>All</th><th>${data.totals.confirmed}</th><th>${data.totals.suspected}</th><th>${data.totals.confirmed + data.totals.suspected}</th></tr></tfoot>
+</table>
+<p class="muted">${data.images.length} photo(s) inspected.</p>
+
+<h2>Damage by Panel</h2>
+<p>${escapeHtml(panelSummaryText(data.inspection))}</p>
+
+<h2>Repair Estimate</h2>
+<p>${escapeHtml(estimateText(data.estimate, money))}</p>
+<p class="muted">Labor rate ${escapeHtml(money(data.priceTable.laborRate))}/h • rough estimate from photos, not a binding quote.</p>
+
+${photos}
+</body>
+</html>`;
+}
+
+// ----------------------------
+// PDF
+// ----------------------------
+export const PAGE_MARGIN = 40;
+
+export async function imageSize(dataUrl: string): Promise<{ w: number; h: number }> {
+  const img = await loadImage(dataUrl);
+  return { w: img.naturalWidth || 1, h: img.naturalHeight || 1 };
+}
+
+async function renderPdf(data: ReportData): Promise<Blob> {
+  const { inspection } = data;
+  const money = (n: number) => formatMoneyCode(n, data.priceTable.currency);
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const contentW = pageW - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageH - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const writeLines = (text: string, size: number, color: [number, number, number] = [15, 23, 42], indent = 0) => {
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lines = doc.splitTextToSize(text, contentW - indent) as string[];
+    for (const line of lines) {
+      ensureSpace(size + 4);
+      doc.text(line, PAGE_MARGIN + indent, y + size);
+      y += size + 4;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 12;
+    doc.setFont("helvetica", "bold");
+    writeLines(text, 14);
+    doc.setFont("helvetica", "normal");
+    doc.setDrawColor(226, 232, 240);
+    doc.line(PAGE_MARGIN, y + 2, pageW - PAGE_MARGIN, y + 2);
+    y += 8;
+  };
+
+  doc.setFont("helvetica", "bold");
+  writeLines("Inspection Report", 20);
+  doc.setFont("helvetica", "normal");
+  writeLines(
+    `${formatVehicleLabel(inspection.vehicle) || inspection.title} • Generated ${data.generatedAt.toLocaleString()}`,
+    10,
+    [100, 116, 139]
+  );
+
+  heading("Vehicle");
+  for (const [k, v] of vehicleFields(inspection)) writeLines(`${k}: ${v}`, 10);
+
+  heading("Damage Summary");
+  const cols = [0, 0.4, 0.6, 0.8].map((f) => PAGE_MARGIN + f * contentW);
+  const tableRow = (cells: string[], bold = false) => {
+    ensureSpace(16);
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(15, 23, 42);
+    cells.forEach((cell, i) => doc.text(cell, cols[i], y + 10));
+    y += 16;
+  };
+  tableRow(["Type", "Confirmed", "Suspected", "Total"], true);
+  for (const row of data.summary) {
+    tableRow([row.type, String(row.confirmed), String(row.suspected), String(row.confirmed + row.suspected)]);
+  }
+  tableRow(
+    ["All", String(data.totals.confirmed), String(data.totals.suspected), String(data.totals.confirmed + data.totals.suspected)],
+    true
+  );
+  doc.setFont("helvetica", "normal");
+
+  heading("Damage by Panel");
+  writeLines(panelSummaryText(inspection), 10);
+
+  heading("Repair Estimate");
+  writeLines(estimateText(data.estimate, money), 10);
+  writeLines(
+    `Labor rate ${money(data.priceTable.laborRate)}/h • rough estimate from photos, not a binding quote.`,
+    9,
+    [100, 116, 139]
+  );
+
+  for (let imgIdx = 0; imgIdx < data.images.length; imgIdx++) {
+    const img = data.images[imgIdx];
+    heading(`Photo ${imgIdx + 1}: ${img.name}`);
+    if (img.capture) writeLines(img.capture, 9, [100, 116, 139]);
+    if (img.captureWarning) writeLines(img.captureWarning, 10, [217, 119, 6]);
+    if (img.error) writeLines(img.error, 10, [220, 38, 38]);
+    if (img.findings.length > 0) writeLines(`Repair estimate: ${estimateText(img.estimate, money)}`, 9, [100, 116, 139]);
+
+    if (img.annotatedUrl) {
+      const { w, h } = await imageSize(img.annotatedUrl);
+      const drawW = Math.min(contentW, ((pageH - PAGE_MARGIN * 2) * 0.6 * w) / h);
+      const drawH = (drawW * h) / w;
+      ensureSpace(drawH + 8);
+      doc.addImage(img.annotatedUrl, "JPEG", PAGE_MARGIN, y, drawW, drawH);
+      y += drawH + 8;
+    }
+
+    if (img.findings.length === 0 && !img.error) writeLines("No damage detected.", 10, [100, 116, 139]);
+
+    const thumb = 96;
+    img.findings.forEach(({ detection: det, cropUrl, assessment }, i) => {
+      ensureSpace(thumb + 8);
+      const top = y;
+      if (cropUrl) {
+        doc.addImage(cropUrl, "JPEG", PAGE_MARGIN, top, thumb, thumb);
+        doc.setDrawColor(...((det.isConfirmedDamage ? [239, 68, 68] : [250, 204, 21]) as [number, number, number]));
+        doc.setLineWidth(2);
+        doc.rect(PAGE_MARGIN, top, thumb, thumb);
+        doc.setLineWidth(1);
+      }
+      const indent = thumb + 12;
+      doc.setFont("helvetica", "bold");
+      writeLines(
+        `#${i + 1} ${det.type.toUpperCase()} • ${det.isConfirmedDamage ? "CONFIRMED" : "SUSPECTED"} • ${panelLabel(det.panel)} • ${pct(det.confidence)} • ${provenanceLabel(det)}`,
+        10,
+        det.isConfirmedDamage ? [220, 38, 38] : [161, 98, 7],
+        indent
+      );
+      doc.setFont("helvetica", "normal");
+      writeLines(det.description || "-", 9, [15, 23, 42], indent);
+      writeLines(assessmentText(assessment, money), 9, [100, 116, 139], indent);
+      const focus = fingerFocusText(det);
+      if (focus) writeLines(`Finger Focus: ${focus}`, 9, [30, 64, 175], indent);
+      y = Math.max(y, top + thumb) + 8;
+    });
+  }
+
+  return doc.output("blob");
+}
+
+export async function generateReport(
+  inspection: Inspection,
+  format: ReportFormat,
+  priceTable: RepairPriceTable = loadPriceTable()
+): Promise<void> {
+  const data = await buildReportData(inspection, priceTable);
+  const baseName = `${exportFileBaseName(inspection)}-report`;
+
+  if (format === "html") {
+    const html = renderHtml(data);
+    downloadBlob(new Blob([html], { type: "text/html" }), `${baseName}.html`);
+  } else {
+    downloadBlob(await renderPdf(data), `${baseName}.pdf`);
+  }
+}
@@ -0,0 +1,213 @@
+// services/sessionStore.ts
+// เก็บ inspection session ลง IndexedDB (reload / กด Clear All พลาด ก็ไม่หาย)
+// - "sessions": metadata + analysis ของแต่ละรูป (ไม่มี blob → list เร็ว)
+// - "blobs": รูปจริง key = [sessionId, imageId]
+// - "analysisCache": ผลวิเคราะห์ตาม hash ของรูป (ดู analysisCache.ts)
+import type { Inspection, InspectionImage, InspectionMeta, InspectionSummary } from "../types";
+
+const DB_NAME = "inspector-pro";
+const DB_VERSION = 2;
+const SESSIONS = "sessions";
+const BLOBS = "blobs";
+export const ANALYSIS_CACHE = "analysisCache";
+
+type StoredImage = Omit<InspectionImage, "url">;
+
+// status/vehicle เป็น optional เพราะ record จาก version ก่อนหน้าไม่มี
+interface StoredSession extends Omit<InspectionSummary, "imageNames" | "status" | "vehicle"> {
+  status?: InspectionSummary["status"];
+  vehicle?: InspectionSummary["vehicle"];
+  images: StoredImage[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(BLOBS)) {
+        db.createObjectStore(BLOBS);
+      }
+      if (!db.objectStoreNames.contains(ANALYSIS_CACHE)) {
+        db.createObjectStore(ANALYSIS_CACHE, { keyPath: "key" }).createIndex("lastUsedAt", "lastUsedAt");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // เปิดไม่สำเร็จ → ให้ลองใหม่ครั้งหน้าได้
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function sessionBlobRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, ""], [sessionId, "\uffff"]);
+}
+
+// sync (ไม่มี await) เพื่อให้ใช้ภายใน transaction ได้
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ""] = dataUrl.split(",");
+  const mime = header.match(/^data:([^;]+)/)?.[1] ?? "image/jpeg";
+  const bin = atob(data);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function toStored(session: Inspection): StoredSession {
+  const images: StoredImage[] = session.images.map(({ url: _url, ...rest }) => ({
+    ...rest,
+    // isAnalyzing ค้างไว้ตอน save ไม่มีความหมายหลัง reload
+    analysis: { ...rest.analysis, isAnalyzing: false },
+  }));
+  const { images: _images, ...meta } = session;
+  return {
+    ...meta,
+    images,
+    imageCount: images.length,
+    analyzedCount: images.filter((img) => img.analysis.analyzedAt !== undefined).length,
+    detectionCount: images.reduce((n, img) => n + img.analysis.detections.length, 0),
+  };
+}
+
+function toMeta(stored: StoredSession): InspectionMeta {
+  return {
+    id: stored.id,
+    title: stored.title,
+    status: stored.status ?? "draft",
+    vehicle: stored.vehicle ?? {},
+    inspectorName: stored.inspectorName,
+    location: stored.location,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    finalizedAt: stored.finalizedAt,
+  };
+}
+
+function toSummary(stored: StoredSession): InspectionSummary {
+  return {
+    ...toMeta(stored),
+    imageCount: stored.imageCount,
+    analyzedCount: stored.analyzedCount,
+    detectionCount: stored.detectionCount,
+    imageNames: stored.images.map((img) => img.name),
+  };
+}
+
+/**
+ * Upsert session:
+ * - เขียน blob เฉพาะรูปที่ยังไม่มีใน DB (autosave ถี่ได้ไม่เปลือง)
+ * - ลบ blob ของรูปที่ถูกเอาออกจาก session แล้ว
+ */
+export async function saveSession(session: Inspection): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, BLOBS], "readwrite");
+  const blobs = tx.objectStore(BLOBS);
+
+  tx.objectStore(SESSIONS).put(toStored(session));
+
+  const liveIds = new Set(session.images.map((img) => img.id));
+  const keysReq = blobs.getAllKeys(sessionBlobRange(session.id));
+  keysReq.onsuccess = () => {
+    const existing = new Set<string>();
+    for (const key of keysReq.result as [string, string][]) {
+      if (liveIds.has(key[1])) existing.add(key[1]);
+      else blobs.delete(key);
+    }
+    for (const img of session.images) {
+      if (!existing.has(img.id)) blobs.put(dataUrlToBlob(img.url), [session.id, img.id]);
+    }
+  };
+
+  await txDone(tx);
+}
+
+export async function listSessions(): Promise<InspectionSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readonly");
+  const all = (await promisify(tx.objectStore(SESSIONS).getAll())) as StoredSession[];
+  return all.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<Inspection | null> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, BLOBS], "readonly");
+  const stored = (await promisify(tx.objectStore(SESSIONS).get(id))) as StoredSession | undefined;
+  if (!stored) return null;
+
+  const blobStore = tx.objectStore(BLOBS);
+  const blobs = await Promise.all(
+    stored.images.map((img) => promisify(blobStore.get([id, img.id])) as Promise<Blob | undefined>)
+  );
+
+  const images: InspectionImage[] = [];
+  for (let i = 0; i < stored.images.length; i++) {
+    const blob = blobs[i];
+    if (!blob) {
+      console.warn(`Session ${id}: missing blob for image ${stored.images[i].id}, skipping`);
+      continue;
+    }
+    images.push({ ...stored.images[i], url: await blobToDataUrl(blob) });
+  }
+
+  return { ...toMeta(stored), images };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, BLOBS], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(BLOBS).delete(sessionBlobRange(id));
+  await txDone(tx);
+}
+
+export async function duplicateSession(id: string, newId: string): Promise<void> {
+  const source = await loadSession(id);
+  if (!source) throw new Error(`Session ${id} not found`);
+  const now = Date.now();
+  await saveSession({
+    ...source,
+    id: newId,
+    title: `${source.title} (copy)`,
+    status: "draft",
+    createdAt: now,
+    updatedAt: now,
+    finalizedAt: undefined,
+  });
+}
+
+export function createSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
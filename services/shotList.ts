@@ -0,0 +1,144 @@
+// services/shotList.ts
+// shot list ของโหมดกล้อง: มุมที่ต้องถ่ายรอบคัน (แก้/import/export เป็น JSON ได้)
+import type { CarPanel, InspectionImage, ShotAngle, ShotContext, ShotFraming } from "../types";
+import { normalizeCarPanel } from "./detectionSchema";
+import { downloadBlob } from "./inspectionExport";
+
+const SHOT_LIST_KEY = "inspector-pro:shotList";
+
+export const SHOT_FRAMINGS: ShotFraming[] = ["front", "rear", "side", "corner", "detail"];
+
+const shot = (id: string, label: string, framing: ShotFraming, panels: CarPanel[]): ShotAngle => ({
+  id,
+  label,
+  framing,
+  panels,
+});
+
+// 20 มุม = MAX_IMAGES (เดินรอบคันทวนเข็มจากด้านหน้า แล้วปิดด้วย close-up)
+export const DEFAULT_SHOT_LIST: ShotAngle[] = [
+  shot("front", "Front", "front", ["front_bumper", "hood", "windshield"]),
+  shot("front_left_45", "Front left 45°", "corner", ["front_bumper", "front_left_fender", "hood", "front_left_wheel"]),
+  shot("left_front_fender", "Left front fender & wheel", "detail", ["front_left_fender", "front_left_wheel"]),
+  shot("left_front_door", "Front left door", "detail", ["front_left_door", "left_mirror"]),
+  shot("left_rear_door", "Rear left door", "detail", ["rear_left_door"]),
+  shot("left_quarter", "Left rear quarter & wheel", "detail", ["rear_left_quarter", "rear_left_wheel"]),
+  shot("left_side", "Left side", "side", [
+    "front_left_fender",
+    "front_left_door",
+    "rear_left_door",
+    "rear_left_quarter",
+    "left_rocker",
+    "left_mirror",
+  ]),
+  shot("rear_left_45", "Rear left 45°", "corner", ["rear_bumper", "rear_left_quarter", "trunk", "rear_left_wheel"]),
+  shot("rear", "Rear", "rear", ["rear_bumper", "trunk", "rear_window"]),
+  shot("rear_bumper", "Rear bumper close-up", "detail", ["rear_bumper"]),
+  shot("rear_right_45", "Rear right 45°", "corner", ["rear_bumper", "rear_right_quarter", "trunk", "rear_right_wheel"]),
+  shot("right_quarter", "Right rear quarter & wheel", "detail", ["rear_right_quarter", "rear_right_wheel"]),
+  shot("right_rear_door", "Rear right door", "detail", ["rear_right_door"]),
+  shot("right_front_door", "Front right door", "detail", ["front_right_door", "right_mirror"]),
+  shot("right_side", "Right side", "side", [
+    "front_right_fender",
+    "front_right_door",
+    "rear_right_door",
+    "rear_right_quarter",
+    "right_rocker",
+    "right_mirror",
+  ]),
+  shot("right_front_fender", "Right front fender & wheel", "detail", ["front_right_fender", "front_right_wheel"]),
+  shot("front_right_45", "Front right 45°", "corner", ["front_bumper", "front_right_fender", "hood", "front_right_wheel"]),
+  shot("front_bumper", "Front bumper close-up", "detail", ["front_bumper"]),
+  shot("hood_windshield", "Hood & windshield", "detail", ["hood", "windshield"]),
+  shot("roof", "Roof", "detail", ["roof"]),
+];
+
+export const toShotContext = ({ id, label, panels }: ShotAngle): ShotContext => ({ id, label, panels });
+
+// ชื่อรูปจากมุม (ชื่อเดียวกันทุก inspection → จับคู่ check-in/check-out ได้)
+export const shotImageName = (angle: Pick<ShotAngle, "label">) => `${angle.label}.jpg`;
+
+export function countCapturedShots(images: Pick<InspectionImage, "shot">[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const img of images) {
+    if (img.shot) counts[img.shot.id] = (counts[img.shot.id] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export function missingShots(list: ShotAngle[], images: Pick<InspectionImage, "shot">[]): ShotAngle[] {
+  const captured = countCapturedShots(images);
+  return list.filter((s) => !captured[s.id]);
+}
+
+// ----------------------------
+// validate / persist / import / export
+// ----------------------------
+/**
+ * ตรวจ JSON ของ shot list (array ของ { id, label, panels, framing? })
+ * - panel ที่สะกดต่างไปเล็กน้อย normalize ให้ (เหมือนผลจากโมเดล)
+ * - framing ไม่มี/ไม่รู้จัก → "detail"
+ */
+export function parseShotList(raw: unknown): { shots: ShotAngle[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: "Shot list must be a JSON array" };
+  if (raw.length === 0) return { error: "Shot list is empty" };
+
+  const shots: ShotAngle[] = [];
+  const ids = new Set<string>();
+  for (let i = 0; i < raw.length; i++) {
+    const o = raw[i] as Record<string, unknown> | null;
+    const path = `[${i}]`;
+    if (!o || typeof o !== "object") return { error: `${path} must be an object` };
+    const label = typeof o.label === "string" ? o.label.trim() : "";
+    if (!label) return { error: `${path}.label is required` };
+    const id = typeof o.id === "string" && o.id.trim() ? o.id.trim() : label.toLowerCase().replace(/\W+/g, "_");
+    if (ids.has(id)) return { error: `${path}.id "${id}" is duplicated` };
+    ids.add(id);
+
+    if (!Array.isArray(o.panels)) return { error: `${path}.panels must be an array` };
+    const panels: CarPanel[] = [];
+    for (const p of o.panels) {
+      const panel = normalizeCarPanel(p);
+      if (!panel) return { error: `${path}.panels: unknown panel ${JSON.stringify(p)}` };
+      if (!panels.includes(panel)) panels.push(panel);
+    }
+
+    const framing = SHOT_FRAMINGS.includes(o.framing as ShotFraming) ? (o.framing as ShotFraming) : "detail";
+    shots.push({ id, label, panels, framing });
+  }
+  return { shots };
+}
+
+export function loadShotList(): ShotAngle[] {
+  const stored = localStorage.getItem(SHOT_LIST_KEY);
+  if (!stored) return DEFAULT_SHOT_LIST;
+  try {
+    const result = parseShotList(JSON.parse(stored));
+    if ("shots" in result) return result.shots;
+    console.warn("Stored shot list is invalid, using defaults:", result.error);
+  } catch (err) {
+    console.warn("Stored shot list is not valid JSON, using defaults:", err);
+  }
+  return DEFAULT_SHOT_LIST;
+}
+
+export function saveShotList(shots: ShotAngle[]) {
+  localStorage.setItem(SHOT_LIST_KEY, JSON.stringify(shots));
+}
+
+export function resetShotList() {
+  localStorage.removeItem(SHOT_LIST_KEY);
+}
+
+export async function importShotListFile(file: File): Promise<{ shots: ShotAngle[] } | { error: string }> {
+  try {
+    return parseShotList(JSON.parse(await file.text()));
+  } catch {
+    return { error: `${file.name} is not valid JSON` };
+  }
+}
+
+export function downloadShotListJson(shots: ShotAngle[]) {
+  const blob = new Blob([JSON.stringify(shots, null, 2)], { type: "application/json" });
+  downloadBlob(blob, "shot-list.json");
+}
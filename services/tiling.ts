@@ -0,0 +1,251 @@
+// services/tiling.ts
+// High detail mode: หั่นรูปต้นฉบับเป็น tile ซ้อนกัน → วิเคราะห์ทีละ tile → รวมผลด้วย NMS
+// (รอยขนแมวบนรูป 12MP หายหมดถ้าย่อเหลือ 1280px ก่อนส่ง)
+import type { AnalysisFailure, DamageDetection, FingertipLocation, ShotContext } from "../types";
+import { QuotaExhaustedError, toAnalysisError } from "./analysisErrors";
+import type { DamageDetectorProvider } from "./detectorProvider";
+import type { DetectionParseResult } from "./detectionSchema";
+import { decodeImage, mapCropBoxToImage, type PixelRect } from "./imageCrop";
+import { DETECTION_PROMPT } from "./prompts";
+import { abortError, isAbortError, type JobOptions } from "./rateLimit";
+
+// ขนาดเท่ารูปโหมดปกติ → 1 tile กิน token เท่ากับ 1 รูปปกติ
+export const TILE_SIZE = 1280;
+export const TILE_OVERLAP = 0.2;
+export const MAX_TILES_PER_IMAGE = 16;
+export const TILE_QUALITY = 0.85;
+export const NMS_IOU_THRESHOLD = 0.4;
+
+// ใช้คำนวณ box ของโหมดปกติ (ต้องตรงกับ downscale ตอน upload)
+export const STANDARD_MAX_SIZE = 1280;
+
+export interface ImageTile {
+  row: number;
+  col: number;
+  rect: PixelRect;
+}
+
+function axisStarts(length: number, tile: number, overlapPx: number): number[] {
+  if (length <= tile) return [0];
+  const stride = tile - overlapPx;
+  const count = Math.ceil((length - overlapPx) / stride);
+  // กระจาย tile ให้เท่า ๆ กัน (overlap จริง ≥ overlapPx และ tile สุดท้ายชิดขอบพอดี)
+  const step = (length - tile) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+}
+
+/**
+ * grid ของ tile (pixel) บนรูปขนาด width x height
+ * ถ้าจำนวน tile เกิน MAX_TILES_PER_IMAGE จะขยาย tile (แล้วย่อตอน crop) แทนการเพิ่มจำนวน
+ */
+export function computeTiles(
+  width: number,
+  height: number,
+  tileSize = TILE_SIZE,
+  overlap = TILE_OVERLAP,
+  maxTiles = MAX_TILES_PER_IMAGE
+): ImageTile[] {
+  const w = Math.max(1, width);
+  const h = Math.max(1, height);
+
+  let size = tileSize;
+  let xs = axisStarts(w, size, Math.round(size * overlap));
+  let ys = axisStarts(h, size, Math.round(size * overlap));
+  while (xs.length * ys.length > maxTiles) {
+    size = Math.round(size * 1.25);
+    xs = axisStarts(w, size, Math.round(size * overlap));
+    ys = axisStarts(h, size, Math.round(size * overlap));
+  }
+
+  const tiles: ImageTile[] = [];
+  ys.forEach((sy, row) => {
+    xs.forEach((sx, col) => {
+      tiles.push({ row, col, rect: { sx, sy, sw: Math.min(size, w - sx), sh: Math.min(size, h - sy) } });
+    });
+  });
+  return tiles;
+}
+
+function cropTile(img: HTMLImageElement, rect: PixelRect, maxSize = TILE_SIZE, quality = TILE_QUALITY): string | null {
+  const scale = Math.min(1, maxSize / Math.max(rect.sw, rect.sh));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(rect.sw * scale));
+  canvas.height = Math.max(1, Math.round(rect.sh * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(img, rect.sx, rect.sy, rect.sw, rect.sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+}
+
+// ----------------------------
+// NMS
+// ----------------------------
+export function boxIoU(a: DamageDetection["boundingBox"], b: DamageDetection["boundingBox"]): number {
+  const iy = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const ix = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  const inter = iy * ix;
+  if (inter === 0) return 0;
+  const area = (box: DamageDetection["boundingBox"]) => (box[2] - box[0]) * (box[3] - box[1]);
+  return inter / (area(a) + area(b) - inter);
+}
+
+/**
+ * ตัด detection ซ้ำจาก tile ที่ซ้อนกัน: เรียงตาม confidence แล้วเก็บตัวที่ IoU กับตัวที่เก็บไว้แล้ว < threshold
+ * ไม่แยกตาม type — damage จุดเดียวกันจาก 2 tile อาจถูกเรียกคนละชื่อ
+ */
+export function nonMaxSuppression(detections: DamageDetection[], threshold = NMS_IOU_THRESHOLD): DamageDetection[] {
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence);
+  const kept: DamageDetection[] = [];
+  for (const det of sorted) {
+    if (kept.every((k) => boxIoU(k.boundingBox, det.boundingBox) < threshold)) kept.push(det);
+  }
+  return kept;
+}
+
+// ----------------------------
+// Cost estimate
+// ----------------------------
+// Gemini: รูปถูกนับเป็นช่อง 768x768 ช่องละ 258 tokens (รูป ≤384px = 258 tokens)
+const IMAGE_CELL_PX = 768;
+const TOKENS_PER_IMAGE_CELL = 258;
+// ประมาณ output ต่อ request (JSON array สั้น ๆ)
+const OUTPUT_TOKENS_PER_REQUEST = 300;
+
+export interface AnalysisCostEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function imageTokens(width: number, height: number): number {
+  if (width <= 384 && height <= 384) return TOKENS_PER_IMAGE_CELL;
+  return Math.ceil(width / IMAGE_CELL_PX) * Math.ceil(height / IMAGE_CELL_PX) * TOKENS_PER_IMAGE_CELL;
+}
+
+const promptTokens = () => Math.ceil(DETECTION_PROMPT.length / 4);
+
+function sentSize(width: number, height: number, maxSize: number): ImageSize {
+  const scale = Math.min(1, maxSize / Math.max(width, height, 1));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export function estimateTiledCost(sizes: ImageSize[]): AnalysisCostEstimate {
+  let requests = 0;
+  let inputTokens = 0;
+  for (const { width, height } of sizes) {
+    for (const tile of computeTiles(width, height)) {
+      const sent = sentSize(tile.rect.sw, tile.rect.sh, TILE_SIZE);
+      requests++;
+      inputTokens += promptTokens() + imageTokens(sent.width, sent.height);
+    }
+  }
+  return { requests, inputTokens, outputTokens: requests * OUTPUT_TOKENS_PER_REQUEST };
+}
+
+export function estimateStandardCost(sizes: ImageSize[]): AnalysisCostEstimate {
+  const inputTokens = sizes.reduce((n, { width, height }) => {
+    const sent = sentSize(width, height, STANDARD_MAX_SIZE);
+    return n + promptTokens() + imageTokens(sent.width, sent.height);
+  }, 0);
+  return { requests: sizes.length, inputTokens, outputTokens: sizes.length * OUTPUT_TOKENS_PER_REQUEST };
+}
+
+// ----------------------------
+// analyze
+// ----------------------------
+// failedTiles > 0 = ผลไม่ครบ (network/...) → tileFailure ไว้แสดง + ลองใหม่, ห้ามลง analysis cache
+export interface TiledParseResult extends DetectionParseResult {
+  failedTiles: number;
+  tileFailure?: AnalysisFailure;
+}
+
+/**
+ * วิเคราะห์รูปต้นฉบับแบบ tile
+ * - ยิงทุก tile ผ่าน provider (แต่ละ provider มี ThrottleQueue ของตัวเองคุมจังหวะ)
+ * - box ของ tile → พิกัด 0..1000 ของรูปเต็ม → NMS
+ * - quota หมด / abort ที่ tile ไหนก็ตาม → throw (คิว pause ได้, ไม่คืนผลครึ่ง ๆ)
+ * - tile อื่นที่ล้มเหลว → failedTiles + tileFailure (ล้มทุก tile → throw)
+ * - `rejected` = เฉพาะ item ที่ model ตอบผิดรูปแบบ (ไม่ใช่ error ของ tile)
+ * - shot (มุมกล้อง) ส่งต่อให้ทุก tile — panel ของทั้งรูปยังใช้ได้กับส่วนย่อย
+ * - opts (priority/signal) ใช้กับทุก tile → abort แล้ว tile ที่ยังไม่ยิงถูกถอดจากคิว
+ */
+export async function analyzeImageTiled(
+  detector: DamageDetectorProvider,
+  dataUrl: string,
+  onProgress?: (done: number, total: number) => void,
+  shot?: ShotContext,
+  opts?: JobOptions
+): Promise<TiledParseResult> {
+  const img = await decodeImage(dataUrl);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const tiles = computeTiles(width, height);
+  let done = 0;
+  onProgress?.(0, tiles.length);
+
+  const results = await Promise.allSettled(
+    tiles.map(async (tile) => {
+      const tileUrl = cropTile(img, tile.rect);
+      if (!tileUrl) throw new Error("canvas unavailable");
+      const result = await detector.analyzeImage(tileUrl, shot, opts);
+      onProgress?.(++done, tiles.length);
+      return result;
+    })
+  );
+
+  const detections: DamageDetection[] = [];
+  const rejected: DetectionParseResult["rejected"] = [];
+  let fingertip: FingertipLocation | undefined;
+  let firstError: unknown = null;
+
+  results.forEach((res, i) => {
+    const { row, col, rect } = tiles[i];
+    const label = `tile ${row + 1},${col + 1}`;
+    if (res.status === "rejected") {
+      firstError ??= res.reason;
+      console.warn(`[tiling] ${label} failed:`, res.reason);
+      return;
+    }
+    for (const det of res.value.detections) {
+      const box = mapCropBoxToImage(det.boundingBox, rect, width, height);
+      if (box[2] - box[0] < 1 || box[3] - box[1] < 1) continue;
+      detections.push({ ...det, boundingBox: box });
+    }
+    rejected.push(...res.value.rejected.map((r) => ({ ...r, raw: `${label}: ${r.raw}` })));
+
+    // นิ้วเดียวกันอาจอยู่ในหลาย tile (overlap) → เก็บตัวที่ confidence สูงสุด
+    const tip = res.value.fingertip;
+    if (tip && (!fingertip || tip.confidence > fingertip.confidence)) {
+      const [py, px] = mapCropBoxToImage([tip.point[0], tip.point[1], tip.point[0], tip.point[1]], rect, width, height);
+      fingertip = {
+        point: [py, px],
+        handBox: tip.handBox ? mapCropBoxToImage(tip.handBox, rect, width, height) : undefined,
+        confidence: tip.confidence,
+      };
+    }
+  });
+
+  // ยกเลิกกลางทาง → ไม่คืนผลครึ่ง ๆ กลาง ๆ
+  if (opts?.signal?.aborted) throw abortError(opts.signal);
+  const errors = results.flatMap((res) => (res.status === "rejected" ? [res.reason] : []));
+  const stop = errors.find((err) => isAbortError(err) || err instanceof QuotaExhaustedError);
+  if (stop) throw stop;
+  if (errors.length === tiles.length) throw firstError;
+
+  const merged = nonMaxSuppression(detections);
+  const failedTiles = errors.length;
+  const result: TiledParseResult = fingertip
+    ? { detections: merged, rejected, fingertip, failedTiles }
+    : { detections: merged, rejected, failedTiles };
+  if (failedTiles > 0) {
+    const failure = toAnalysisError(firstError).toFailure();
+    result.tileFailure = { ...failure, message: `${failedTiles} of ${tiles.length} tiles failed: ${failure.message}` };
+  }
+  return result;
+}
@@ -0,0 +1,57 @@
+// services/vin.ts
+// VIN (ISO 3779) validation + check digit (ตำแหน่งที่ 9)
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+export interface VinValidation {
+  valid: boolean;
+  normalized: string;
+  error?: string;
+}
+
+export function normalizeVin(raw: string): string {
+  return raw.toUpperCase().replace(/[\s-]/g, "");
+}
+
+export function computeVinCheckDigit(vin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const ch = vin[i];
+    const value = /[0-9]/.test(ch) ? Number(ch) : TRANSLITERATION[ch] ?? 0;
+    sum += value * WEIGHTS[i];
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+export function validateVin(raw: string): VinValidation {
+  const normalized = normalizeVin(raw);
+
+  if (normalized.length !== 17) {
+    return { valid: false, normalized, error: `VIN must be 17 characters (got ${normalized.length})` };
+  }
+  // I, O, Q ไม่อนุญาตใน VIN (สับสนกับ 1, 0)
+  if (/[IOQ]/.test(normalized)) {
+    return { valid: false, normalized, error: "VIN cannot contain I, O or Q" };
+  }
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(normalized)) {
+    return { valid: false, normalized, error: "VIN contains invalid characters" };
+  }
+
+  const expected = computeVinCheckDigit(normalized);
+  if (normalized[8] !== expected) {
+    return {
+      valid: false,
+      normalized,
+      error: `VIN check digit mismatch (position 9 is ${normalized[8]}, expected ${expected})`,
+    };
+  }
+
+  return { valid: true, normalized };
+}
@@ -0,0 +1,176 @@
+// services/zoomBatch.ts
+// zoom verification แบบรวม: หลาย crop 512×512 (ข้าม detection / ข้ามรูป) → request เดียว ตอบกลับเป็น index
+// ลด RPM/RPD: รูปที่มี 6 จุดต้องสงสัย = 1 request แทน 6 (และไม่ต้องรอ limiter 6 รอบ)
+import type { DamageDetection, ZoomVerdictResponse } from "../types";
+import { RequestTooLargeError, UnparseableResponseError } from "./analysisErrors";
+import type { DamageDetectorProvider } from "./detectorProvider";
+import { abortError, resolvePriority, sleep, type JobOptions } from "./rateLimit";
+
+export const DEFAULT_ZOOM_BATCH_SIZE = 6;
+// เกินนี้ model เริ่มสับสน index + คำตอบยาวจนเสี่ยงโดนตัด
+export const MAX_ZOOM_BATCH_SIZE = 16;
+// base64 รวมต่อ batch (proxy รับ body ได้ 8 MB)
+export const MAX_ZOOM_BATCH_BYTES = 4 * 1024 * 1024;
+// คิวว่าง = งานเริ่มทันที → รอ crop ที่ตามมาติด ๆ (detection อื่นของรูปเดียวกัน) ก่อนส่งเข้าคิว
+const ZOOM_BATCH_WINDOW_MS = 150;
+
+export interface ZoomBatchItem {
+  image: string; // crop (data URL หรือ base64)
+  detection: Pick<DamageDetection, "type" | "description">;
+}
+
+// ฟังก์ชัน = หยิบ crop ตอนงานได้คิวจริง (crop ที่มาระหว่างรอ limiter ได้ไปใน request เดียวกัน)
+export type ZoomBatchSource = ZoomBatchItem[] | (() => ZoomBatchItem[]);
+
+// verdict ตามลำดับ item ที่ส่งไป (null = model ไม่ได้ตอบ crop นั้น)
+export type ZoomBatchResult = Array<ZoomVerdictResponse | null>;
+
+export const resolveZoomBatch = (source: ZoomBatchSource) => (typeof source === "function" ? source() : source);
+
+/**
+ * ขนาด batch จาก env: VITE_ZOOM_BATCH_SIZE (browser) / ZOOM_BATCH_SIZE (server + CLI, prefix "")
+ * 1 = ปิดการรวม (request ละ crop เหมือนเดิม)
+ */
+export function zoomBatchSizeFromEnv(
+  env: Record<string, string | undefined> = import.meta.env as Record<string, string | undefined>,
+  prefix = "VITE_"
+): number {
+  const n = Math.floor(Number(env[`${prefix}ZOOM_BATCH_SIZE`]));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, MAX_ZOOM_BATCH_SIZE) : DEFAULT_ZOOM_BATCH_SIZE;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// batch ใหญ่เกิน → แบ่งครึ่งแล้วส่งทีละครึ่ง (แบ่งต่อได้จนเหลือ crop เดียว)
+export async function splitBatch<T, R>(items: T[], run: (items: T[]) => Promise<R[]>): Promise<R[]> {
+  const mid = Math.ceil(items.length / 2);
+  console.warn(`[zoom batch] ${items.length} crops too large for one request, splitting ${mid} + ${items.length - mid}`);
+  const first = await splitOnTooLarge(items.slice(0, mid), run);
+  const second = await splitOnTooLarge(items.slice(mid), run);
+  return [...first, ...second];
+}
+
+export async function splitOnTooLarge<T, R>(items: T[], run: (items: T[]) => Promise<R[]>): Promise<R[]> {
+  try {
+    return await run(items);
+  } catch (err) {
+    if (!(err instanceof RequestTooLargeError) || items.length < 2) throw err;
+    return splitBatch(items, run);
+  }
+}
+
+interface PendingCrop {
+  item: ZoomBatchItem;
+  opts?: JobOptions;
+  seq: number;
+  settled: boolean;
+  resolve: (verdict: ZoomVerdictResponse) => void;
+  reject: (err: unknown) => void;
+  cleanup: () => void;
+}
+
+const topPriority = (crops: PendingCrop[]) => Math.max(0, ...crops.map((c) => resolvePriority(c.opts?.priority)));
+
+/**
+ * รวม verify() ของหลาย detection เป็น batch ของ provider
+ * - มี batch รอคิวได้ทีละ 1 ตัว: crop ที่มาระหว่างรอ limiter ต่อท้ายตัวนั้น (หยิบจริงตอนได้คิว)
+ * - ก่อนเข้าคิวรอ ZOOM_BATCH_WINDOW_MS ให้ crop ที่มาพร้อม ๆ กันได้ไปด้วย
+ * - หยิบตาม priority (รูปที่เปิดดู/ผู้ใช้สั่งก่อน) ไม่เกิน maxSize crop และ maxBytes
+ * - เหลือ → ต่อคิว batch ถัดไปทันที
+ * - abort ทีละ crop ได้; crop ที่รอหมด → ถอน batch ที่ยังไม่เริ่มออกจากคิว
+ */
+export class ZoomBatcher {
+  private pending: PendingCrop[] = [];
+  private seq = 0;
+  private waiting: AbortController | null = null; // batch ที่รอคิวอยู่ (ยังไม่หยิบ crop)
+
+  constructor(
+    private readonly provider: Pick<DamageDetectorProvider, "zoomAnalysisBatch">,
+    private readonly maxSize = zoomBatchSizeFromEnv(),
+    private readonly maxBytes = MAX_ZOOM_BATCH_BYTES
+  ) {}
+
+  verify(item: ZoomBatchItem, opts?: JobOptions): Promise<ZoomVerdictResponse> {
+    const signal = opts?.signal;
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const crop: PendingCrop = { item, opts, seq: this.seq++, settled: false, resolve, reject, cleanup: () => {} };
+      const onAbort = () => {
+        this.pending = this.pending.filter((c) => c !== crop);
+        this.settle(crop, () => reject(abortError(signal)));
+        if (this.pending.length === 0 && this.waiting) {
+          this.waiting.abort();
+          this.waiting = null;
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      crop.cleanup = () => signal?.removeEventListener("abort", onAbort);
+      this.pending.push(crop);
+      this.schedule();
+    });
+  }
+
+  private settle(crop: PendingCrop, done: () => void) {
+    if (crop.settled) return;
+    crop.settled = true;
+    crop.cleanup();
+    done();
+  }
+
+  private take(): PendingCrop[] {
+    const order = [...this.pending].sort(
+      (a, b) => resolvePriority(b.opts?.priority) - resolvePriority(a.opts?.priority) || a.seq - b.seq
+    );
+    const taken: PendingCrop[] = [];
+    let bytes = 0;
+    for (const crop of order) {
+      if (taken.length >= this.maxSize) break;
+      if (taken.length > 0 && bytes + crop.item.image.length > this.maxBytes) continue;
+      taken.push(crop);
+      bytes += crop.item.image.length;
+    }
+    this.pending = this.pending.filter((c) => !taken.includes(c));
+    return taken;
+  }
+
+  private schedule() {
+    if (this.waiting || this.pending.length === 0) return;
+    const waiting = new AbortController();
+    this.waiting = waiting;
+    let taken: PendingCrop[] = [];
+
+    const source = () => {
+      this.waiting = null;
+      taken = this.take();
+      this.schedule();
+      return taken.map((c) => c.item);
+    };
+    const run = (items: ZoomBatchItem[]) => this.provider.zoomAnalysisBatch(items, { priority: () => topPriority(taken) });
+
+    sleep(ZOOM_BATCH_WINDOW_MS, waiting.signal)
+      .then(() =>
+        this.provider.zoomAnalysisBatch(source, { priority: () => topPriority(this.pending), signal: waiting.signal })
+      )
+      .catch((err) => {
+        if (!(err instanceof RequestTooLargeError) || taken.length < 2) throw err;
+        return splitBatch(taken.map((c) => c.item), run);
+      })
+      .then(
+        (verdicts) =>
+          taken.forEach((crop, i) => {
+            const verdict = verdicts[i];
+            this.settle(crop, () =>
+              verdict
+                ? crop.resolve(verdict)
+                : crop.reject(new UnparseableResponseError("The model's answer skipped this close-up."))
+            );
+          }),
+        (err) => taken.forEach((crop) => this.settle(crop, () => crop.reject(err)))
+      );
+  }
+}
@@ -0,0 +1,89 @@
+// services/zoomVerdict.ts
+// เอา verdict จาก Finger Focus มาอัปเดต detection จริง (ไม่ใช่แค่ข้อความโชว์)
+import type { DamageDetection, DamageType, ZoomVerdict, ZoomVerdictResponse } from "../types";
+import { mapCropBoxToImage, type PixelRect } from "./imageCrop";
+
+// uncertain → ไม่เปลี่ยนสถานะ confirmed (แต่ยังรับ type/box ใหม่)
+function confirmedAfter(verdict: ZoomVerdict["verdict"], before: boolean): boolean {
+  if (verdict === "confirmed") return true;
+  if (verdict === "rejected") return false;
+  return before;
+}
+
+export function isRejectedByVerdict(det: DamageDetection): boolean {
+  return det.zoomVerdict?.verdict === "rejected";
+}
+
+export const VERDICT_LABELS: Record<ZoomVerdict["verdict"], string> = {
+  confirmed: "Confirmed",
+  rejected: "Rejected",
+  uncertain: "Uncertain",
+};
+
+// parse ไม่ได้ → uncertain + เก็บข้อความดิบไว้เป็น rationale
+export function fallbackVerdict(raw: string, type: DamageType): ZoomVerdictResponse {
+  return {
+    verdict: "uncertain",
+    revisedType: type,
+    rationale: raw.trim() || "Verification returned no usable answer.",
+  };
+}
+
+export function applyZoomVerdict(
+  det: DamageDetection,
+  response: ZoomVerdictResponse,
+  cropRect: PixelRect,
+  naturalWidth: number,
+  naturalHeight: number
+): DamageDetection {
+  const refinedBox = response.refinedBox
+    ? mapCropBoxToImage(response.refinedBox, cropRect, naturalWidth, naturalHeight)
+    : undefined;
+
+  const verdict: ZoomVerdict = {
+    ...response,
+    refinedBox,
+    verifiedAt: Date.now(),
+    before: { type: det.type, isConfirmedDamage: det.isConfirmedDamage, boundingBox: det.boundingBox },
+  };
+
+  return {
+    ...det,
+    type: response.revisedType,
+    isConfirmedDamage: confirmedAfter(response.verdict, det.isConfirmedDamage),
+    boundingBox: refinedBox ?? det.boundingBox,
+    severity: response.severity ?? det.severity,
+    zoomAnalysis: response.rationale,
+    zoomVerdict: verdict,
+    verifyFailure: undefined, // ตรวจสำเร็จแล้ว
+  };
+}
+
+export interface VerdictChange {
+  field: "type" | "status" | "box";
+  before: string;
+  after: string;
+}
+
+const statusLabel = (confirmed: boolean) => (confirmed ? "Confirmed" : "Suspected");
+
+// รายการที่ verification เปลี่ยน (ไว้โชว์ before/after ใน UI/report)
+export function describeVerdictChanges(det: DamageDetection): VerdictChange[] {
+  const v = det.zoomVerdict;
+  if (!v) return [];
+  const changes: VerdictChange[] = [];
+  if (v.before.type !== v.revisedType) {
+    changes.push({ field: "type", before: v.before.type, after: v.revisedType });
+  }
+  if (v.before.isConfirmedDamage !== confirmedAfter(v.verdict, v.before.isConfirmedDamage)) {
+    changes.push({
+      field: "status",
+      before: statusLabel(v.before.isConfirmedDamage),
+      after: v.verdict === "rejected" ? "Rejected" : statusLabel(true),
+    });
+  }
+  if (v.refinedBox && v.refinedBox.some((n, i) => n !== v.before.boundingBox[i])) {
+    changes.push({ field: "box", before: v.before.boundingBox.join(", "), after: v.refinedBox.join(", ") });
+  }
+  return changes;
+}
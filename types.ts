@@ -1,23 +1,279 @@
+export type DamageType = 'scratch' | 'dent' | 'crack' | 'paint' | 'reflection' | 'other';
+
+export type DetectionOrigin = 'ai' | 'human';
+
+// ใครสร้าง/แก้ detection นี้ (ไม่มี field = AI ล้วน ยังไม่มีคนแตะ)
+export interface DetectionProvenance {
+  origin: DetectionOrigin;
+  humanVerified: boolean;
+  editedAt?: number;
+}
+
+export type VerdictOutcome = 'confirmed' | 'rejected' | 'uncertain';
+export type Severity = 'minor' | 'moderate' | 'severe';
+
+// ซ้าย/ขวา = ของตัวรถ (นั่งในรถหันหน้าไปข้างหน้า)
+export type CarPanel =
+  | 'front_bumper'
+  | 'hood'
+  | 'windshield'
+  | 'roof'
+  | 'rear_window'
+  | 'trunk'
+  | 'rear_bumper'
+  | 'front_left_fender'
+  | 'front_right_fender'
+  | 'front_left_door'
+  | 'front_right_door'
+  | 'rear_left_door'
+  | 'rear_right_door'
+  | 'rear_left_quarter'
+  | 'rear_right_quarter'
+  | 'left_mirror'
+  | 'right_mirror'
+  | 'left_rocker'
+  | 'right_rocker'
+  | 'front_left_wheel'
+  | 'front_right_wheel'
+  | 'rear_left_wheel'
+  | 'rear_right_wheel';
+
+// ผล Finger Focus แบบ structured (ก่อน map box กลับเข้าพิกัดรูป)
+export interface ZoomVerdictResponse {
+  verdict: VerdictOutcome;
+  revisedType: DamageType;
+  severity?: Severity;
+  refinedBox?: [number, number, number, number]; // พิกัดใน crop 0..1000
+  rationale: string;
+  model?: string; // model ที่ตอบ (ใน verify chain)
+}
+
+export interface ZoomVerdict {
+  verdict: VerdictOutcome;
+  revisedType: DamageType;
+  severity?: Severity;
+  refinedBox?: [number, number, number, number]; // พิกัดในรูปเต็ม 0..1000
+  rationale: string;
+  verifiedAt: number;
+  model?: string;
+  // ค่าก่อน verification (ไว้โชว์ before/after)
+  before: Pick<DamageDetection, 'type' | 'isConfirmedDamage' | 'boundingBox'>;
+}
+
+// นิ้ว/มือของ inspector ที่ชี้ damage ในรูป (จาก detection pass)
+export interface FingertipLocation {
+  point: [number, number]; // [y, x] ปลายนิ้ว normalized 0-1000
+  handBox?: [number, number, number, number]; // นิ้ว/มือทั้งหมด (ตัดออกจาก damage)
+  confidence: number;
+}
+
+// ตรวจข้ามรูป: damage จริงอยู่ที่เดิมบนตัวรถทุกมุม, แสงสะท้อนย้ายที่/หายไปเมื่อเปลี่ยนมุม
+export type MultiAngleRelation = 'consistent' | 'moved' | 'not_seen';
+export type MultiAngleOutcome = 'consistent' | 'likely_reflection';
+
+export interface MultiAngleEvidence {
+  imageId: string;
+  detectionId?: string; // finding คู่กันในรูปนั้น (not_seen = ไม่มี)
+  relation: MultiAngleRelation;
+}
+
+export interface MultiAngleCheck {
+  outcome: MultiAngleOutcome;
+  evidence: MultiAngleEvidence[];
+  checkedAt: number;
+  // ค่าก่อนปรับ (ตรวจซ้ำ = เริ่มจากค่านี้เสมอ)
+  before: Pick<DamageDetection, 'type' | 'confidence' | 'isConfirmedDamage'>;
+}
 
 export interface DamageDetection {
   id: string;
-  type: 'scratch' | 'dent' | 'reflection' | 'other';
+  type: DamageType;
   confidence: number;
   boundingBox: [number, number, number, number]; // [ymin, xmin, ymax, xmax] in normalized 0-1000
   description: string;
   zoomAnalysis?: string;
+  zoomVerdict?: ZoomVerdict;
   isConfirmedDamage: boolean;
+  provenance?: DetectionProvenance;
+  severity?: Severity; // จาก Finger Focus หรือ inspector (ไม่มี → ประเมินจากขนาด box)
+  panel?: CarPanel; // model ระบุก่อน, inspector แก้ได้ (ไม่มี = ยังไม่ระบุ)
+  inspectorIndicated?: boolean; // ได้จาก zoom pass รอบปลายนิ้วที่ inspector ชี้
+  multiAngle?: MultiAngleCheck; // ผลตรวจข้ามรูปที่เห็น panel เดียวกัน
+  verifyFailure?: AnalysisFailure; // zoom verification ล่าสุดล้มเหลว (ลองใหม่ได้จาก UI)
+  model?: string; // model ที่สร้าง detection นี้ (services/modelChain.ts)
+  promptVersion?: number; // PROMPT_VERSION ตอนที่สร้าง
+}
+
+export type RepairMethod = 'none' | 'polish' | 'smart_repair' | 'pdr' | 'refinish' | 'replace';
+
+export interface RepairPriceEntry {
+  method: RepairMethod;
+  laborHours: number;
+  materials: number; // ค่าวัสดุ/อะไหล่ (สกุลเงินเดียวกับ laborRate)
+}
+
+export interface RepairPriceTable {
+  version: 1;
+  currency: string; // ISO 4217 เช่น USD, THB
+  laborRate: number; // ต่อชั่วโมง
+  frameWidthCm: number; // ความกว้างจริงโดยประมาณของภาพ 1 รูป (ใช้แปลง box → cm²)
+  entries: Record<DamageType, Record<Severity, RepairPriceEntry>>;
+}
+
+// item ที่ model ส่งมาแต่ไม่ผ่าน validation (เก็บไว้แสดงใน UI ไม่ทิ้งเงียบ ๆ)
+export interface RejectedDetection {
+  raw: string; // JSON snippet ของ item ต้นฉบับ
+  reasons: string[];
+}
+
+// ชนิดของ error ที่ UI/queue ใช้ตัดสินใจ (services/analysisErrors.ts)
+export type AnalysisErrorKind =
+  | 'missing_key'
+  | 'model_unavailable'
+  | 'quota_exhausted'
+  | 'rate_limited'
+  | 'network'
+  | 'safety_blocked'
+  | 'unparseable_response'
+  | 'image_decode'
+  | 'request_too_large'
+  | 'unknown';
+
+// สิ่งที่ผู้ใช้ทำได้ต่อ: รอถึงเวลา / ลองใหม่ทันที / เปลี่ยนรูป / ตั้งค่า key
+export type RecoveryAction = 'retry_at' | 'retry_now' | 'replace_photo' | 'configure';
+
+// error ในรูปแบบที่เก็บใน state/session ได้ (serializable)
+export interface AnalysisFailure {
+  kind: AnalysisErrorKind;
+  message: string;
+  recovery: RecoveryAction;
+  retryAt?: number; // ms epoch (retry_at)
+  failedAt: number;
 }
 
 export interface AnalysisState {
   isAnalyzing: boolean;
   detections: DamageDetection[];
+  rejected?: RejectedDetection[];
   error?: string;
+  failure?: AnalysisFailure; // ชนิด + ทางแก้ของ error (error = ข้อความไว้แสดง)
+  analyzedAt?: number; // set เมื่อวิเคราะห์เสร็จ (ใช้เช็คว่ารูปไหนยังค้างในคิว)
+  awaitingApproval?: boolean; // high detail: รอผู้ใช้ดู cost estimate ก่อน (คิวข้าม)
+  fingertip?: FingertipLocation;
+  fingertipFailure?: AnalysisFailure; // zoom รอบปลายนิ้วล้มเหลว (ยังไม่รู้ว่าชี้ detection ไหน → เก็บที่รูป)
+  fromCache?: CachedResultInfo; // ผลจาก analysis cache (ไม่ได้ยิง model)
+  skipCache?: boolean; // force re-analyze: รอบถัดไปไม่ใช้ cache
+  qualityHold?: boolean; // ไม่ผ่าน quality gate: รอถ่ายใหม่หรือกดส่งทั้งที่ไม่ผ่าน (คิวข้าม)
 }
 
+// quality gate ก่อนส่งวิเคราะห์ (คำนวณบน canvas ตอนเพิ่มรูป ไม่ใช้ quota)
+export type QualityIssue = 'blur' | 'underexposed' | 'overexposed' | 'glare' | 'low_resolution';
+
+export interface QualityMetrics {
+  sharpness: number; // variance ของ Laplacian (วัดที่ขนาดมาตรฐาน)
+  meanLuma: number; // 0..255
+  darkRatio: number; // สัดส่วน pixel มืดจัด
+  brightRatio: number; // สัดส่วน pixel สว่างจนเกือบ clip
+  glareRatio: number; // สัดส่วน pixel ขาวจัดและไม่มีสี (แสงสะท้อนแบบ specular)
+  width: number; // ขนาดต้นฉบับ
+  height: number;
+}
+
+export interface QualityReport {
+  score: number; // 0..100 (ต่ำกว่า 50 = ไม่ผ่านอย่างน้อย 1 ข้อ)
+  issues: QualityIssue[];
+  metrics: QualityMetrics;
+  checkedAt: number;
+  overridden?: boolean; // ผู้ตรวจกดส่งวิเคราะห์ทั้งที่ไม่ผ่าน
+}
+
+// exact = hash ตรงกันทุก byte, similar = perceptual hash ใกล้กัน (รูปเดิมที่ถูก encode ใหม่)
+export type CacheMatch = 'exact' | 'similar';
+
+export interface CachedResultInfo {
+  match: CacheMatch;
+  analyzedAt: number; // ตอนที่วิเคราะห์จริงครั้งแรก
+}
+
+// guided capture: 1 มุมกล้องใน shot list
+export type ShotFraming = 'front' | 'rear' | 'side' | 'corner' | 'detail';
+
+export interface ShotAngle {
+  id: string;
+  label: string; // เช่น "Front left 45°" (ใช้เป็นชื่อรูปด้วย)
+  panels: CarPanel[]; // panel ที่มุมนี้ควรเห็น (ส่งไปกับ prompt)
+  framing: ShotFraming;
+}
+
+// มุมที่ติดไปกับรูป (snapshot — แก้ shot list ทีหลังไม่กระทบรูปเก่า)
+export type ShotContext = Pick<ShotAngle, 'id' | 'label' | 'panels'>;
+
 export interface InspectionImage {
   id: string;
   url: string;
   analysis: AnalysisState;
   name: string;
+  addedAt?: number;
+  // high detail mode: url = รูปต้นฉบับ (ไม่ย่อ) + ขนาดจริง
+  originalSize?: { width: number; height: number };
+  highDetail?: boolean; // true → วิเคราะห์แบบ tile, false/ไม่มี → ย่อก่อนส่งตามปกติ
+  shot?: ShotContext; // ถ่ายจากโหมดกล้อง (รู้มุม)
+  quality?: QualityReport; // ไม่มี = ไม่ได้ตรวจ (ปิด gate / รูปจาก session เก่า)
+  metadata?: ImageMetadata; // จาก EXIF ก่อนย่อ (รูปจาก session เก่าไม่มี)
+}
+
+// หลักฐานประกอบ claim: ถ่ายเมื่อไหร่ / ที่ไหน / เครื่องอะไร
+export interface GpsLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // เมตร
+}
+
+export interface ImageMetadata {
+  source: 'upload' | 'camera';
+  capturedAt?: number; // upload = DateTimeOriginal, camera = ตอนกดถ่าย
+  capturedAtText?: string; // ค่าตาม EXIF (ไม่มี time zone → เก็บไว้ดูเทียบ)
+  gps?: GpsLocation;
+  make?: string;
+  model?: string;
+  orientation?: number; // EXIF 1..8 ของไฟล์ต้นฉบับ
+  originalSize: { width: number; height: number }; // หลังหมุนให้ตั้งตรงแล้ว
+}
+
+// ถ่ายนอกช่วง inspection (รูปเก่า/รูปหลังปิดงาน)
+export type CaptureTimeFlag = 'before_inspection' | 'after_inspection' | 'unknown';
+
+export type InspectionStatus = 'draft' | 'in_review' | 'finalized';
+
+export interface VehicleInfo {
+  vin?: string;
+  licensePlate?: string;
+  make?: string;
+  model?: string;
+  color?: string;
+  odometer?: number;
+  odometerUnit?: 'km' | 'mi';
+}
+
+// 1 inspection = 1 คัน / 1 งาน (เป็นเจ้าของรูปทั้งหมดใน batch)
+export interface Inspection {
+  id: string;
+  title: string;
+  status: InspectionStatus;
+  vehicle: VehicleInfo;
+  inspectorName?: string;
+  location?: string;
+  createdAt: number;
+  updatedAt: number;
+  finalizedAt?: number;
+  images: InspectionImage[];
+}
+
+export type InspectionMeta = Omit<Inspection, 'images'>;
+
+export interface InspectionSummary extends InspectionMeta {
+  imageCount: number;
+  analyzedCount: number;
+  detectionCount: number;
+  imageNames: string[];
 }